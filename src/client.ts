@@ -6,6 +6,35 @@ import { AthletesResource } from "./resources/athletes";
 import { WellnessResource } from "./resources/wellness";
 import { LibraryResource } from "./resources/library";
 import { ChatsResource } from "./resources/chats";
+import type { Activity } from "./schemas/activity";
+import type { Event } from "./schemas/event";
+import type { Message } from "./schemas/chat";
+import type { Wellness } from "./schemas/wellness";
+import type { IterateActivitiesOptions, ListActivitiesOptions } from "./resources/activities";
+import type { ListEventsOptions } from "./resources/events";
+import type { ListMessagesOptions } from "./resources/chats";
+import type { IterateWellnessOptions, ListWellnessOptions } from "./resources/wellness";
+import { unwrapResource, type Unwrapped, type UnwrappedIterateMethod, type UnwrappedListMethod } from "./unwrap";
+
+/** `IntervalsClient` resources whose methods throw `IntervalsApiError` instead of returning a `Result` */
+export type UnwrappedIntervalsClient = {
+  readonly activities: Omit<Unwrapped<ActivitiesResource>, "list" | "iterate"> & {
+    readonly list: UnwrappedListMethod<string | number, ListActivitiesOptions, Activity>;
+    readonly iterate: UnwrappedIterateMethod<string | number, IterateActivitiesOptions, Activity>;
+  };
+  readonly events: Omit<Unwrapped<EventsResource>, "list"> & {
+    readonly list: UnwrappedListMethod<string | number, ListEventsOptions, Event>;
+  };
+  readonly athletes: Unwrapped<AthletesResource>;
+  readonly wellness: Omit<Unwrapped<WellnessResource>, "list" | "iterate"> & {
+    readonly list: UnwrappedListMethod<string | number, ListWellnessOptions, Wellness>;
+    readonly iterate: UnwrappedIterateMethod<string | number, IterateWellnessOptions, Wellness>;
+  };
+  readonly library: Unwrapped<LibraryResource>;
+  readonly chats: Omit<Unwrapped<ChatsResource>, "listMessages"> & {
+    readonly listMessages: UnwrappedListMethod<number, ListMessagesOptions, Message>;
+  };
+};
 
 export class IntervalsClient {
   public readonly activities: ActivitiesResource;
@@ -24,4 +53,24 @@ export class IntervalsClient {
     this.library = new LibraryResource(http);
     this.chats = new ChatsResource(http);
   }
+
+  /**
+   * The same resources, with methods that resolve to the value and throw
+   * `IntervalsApiError` on failure, for code that prefers exceptions. Shares
+   * this client's configuration, cache and rate limits.
+   *
+   * @example
+   * const api = client.unwrap();
+   * const athlete = await api.athletes.get(0);
+   */
+  unwrap(): UnwrappedIntervalsClient {
+    return {
+      activities: unwrapResource(this.activities) as UnwrappedIntervalsClient["activities"],
+      events: unwrapResource(this.events) as UnwrappedIntervalsClient["events"],
+      athletes: unwrapResource(this.athletes),
+      wellness: unwrapResource(this.wellness) as UnwrappedIntervalsClient["wellness"],
+      library: unwrapResource(this.library),
+      chats: unwrapResource(this.chats) as UnwrappedIntervalsClient["chats"],
+    };
+  }
 }
@@ -1,4 +1,14 @@
-export type IntervalsAuth =
+import type { ApiError } from "./errors";
+import type { CacheConfig } from "./http/cache";
+import type { Middleware } from "./http/middleware";
+import type { RateLimiter, RateLimiterOptions } from "./http/rateLimiter";
+import type { RedactionPolicy } from "./redaction";
+import type { SchemaDriftReport, SchemaMode } from "./schemas/drift";
+
+/**
+ * Static credentials: an API key or an OAuth access token.
+ */
+export type IntervalsCredentials =
   | {
       type: "apiKey";
       /**
@@ -14,9 +24,67 @@ export type IntervalsAuth =
       accessToken: string;
     };
 
+/**
+ * Credentials returned by a `CredentialProvider`. `expiresAt` (milliseconds
+ * since the epoch) caps how long they are cached.
+ */
+export type ProvidedCredentials = IntervalsCredentials & { expiresAt?: number };
+
+/**
+ * Looks up credentials when a request needs them, e.g. from a secrets manager
+ * or per-tenant storage. `forceRefresh` is true after the API rejected the
+ * cached credentials with a 401.
+ */
+export type CredentialProvider = (context: {
+  forceRefresh: boolean;
+}) => Promise<ProvidedCredentials>;
+
+export type IntervalsAuth =
+  | IntervalsCredentials
+  | {
+      type: "oauth";
+      /**
+       * OAuth token source, e.g. `IntervalsOAuth.tokenProvider(key)`.
+       * On a 401 the client refreshes once and replays the request.
+       */
+      tokens: OAuthTokenProvider;
+    }
+  | {
+      type: "provider";
+      /**
+       * Called before requests when no cached credentials are available.
+       * Concurrent requests share one call. On a 401 the cache is dropped and,
+       * if the provider returns different credentials, the request is replayed once.
+       */
+      getCredentials: CredentialProvider;
+      /**
+       * How long to reuse credentials from the provider.
+       * Default: 300000ms (5 minutes); 0 calls the provider for every request
+       */
+      cacheTtlMs?: number;
+    };
+
+/**
+ * Supplies OAuth access tokens to the client and refreshes them when the API
+ * rejects one.
+ */
+export type OAuthTokenProvider = {
+  /** Current access token (may refresh first if it is known to be expired) */
+  getAccessToken(): Promise<string>;
+  /**
+   * Refresh after the API answered 401 to `rejectedToken`.
+   * Resolves to the new access token, or `undefined` if it cannot be refreshed.
+   */
+  refreshAccessToken(rejectedToken: string): Promise<string | undefined>;
+};
+
+/** Failures without an HTTP response that the retry policy can retry */
+export type RetryableErrorKind = "Network" | "Timeout";
+
 export type RetryConfig = {
   /**
-   * Maximum number of retries for 429 responses.
+   * Maximum number of retries for 429 responses and the failures selected by
+   * `statusCodes` and `errorKinds`.
    * Total attempts = 1 initial request + `limit` retries.
    * Default: 3
    */
@@ -43,6 +111,35 @@ export type RetryConfig = {
    * Default: 0.2
    */
   jitterFactor?: number;
+  /**
+   * HTTP statuses retried for idempotent requests (429 is always retried).
+   * A Retry-After header on these responses is respected too.
+   * Default: [502, 503, 504]
+   */
+  statusCodes?: number[];
+  /**
+   * Failures without a response that are retried for idempotent requests.
+   * Default: ["Network", "Timeout"]
+   */
+  errorKinds?: RetryableErrorKind[];
+  /**
+   * Methods considered idempotent, i.e. safe to retry after a 5xx, network
+   * error or timeout. POST and PATCH are excluded because the server may have
+   * applied the request before failing.
+   * Default: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+   */
+  methods?: string[];
+};
+
+/**
+ * Retry settings for a single request, merged over `RetryConfig`.
+ */
+export type RequestRetryOptions = Omit<RetryConfig, "methods"> & {
+  /**
+   * Retry 5xx, network errors and timeouts regardless of the method
+   * (e.g. a POST that is safe to repeat), or never (`false`).
+   */
+  idempotent?: boolean;
 };
 
 export type RequestHooks = {
@@ -54,7 +151,14 @@ export type RequestHooks = {
    */
   onRequest?: (info: {
     method: string;
+    /** Path as sent, including athlete and activity IDs */
     path: string;
+    /** Route template with placeholders instead of IDs, e.g. `athlete/{id}/activities` */
+    route: string;
+    /** Resource method that made the request, e.g. `activities.getStreams` */
+    operation?: string;
+    /** `context` from the request's `RequestOverrides`, if any */
+    context?: Record<string, unknown>;
     options?: Record<string, unknown>;
   }) => void | Promise<void>;
   /**
@@ -64,9 +168,18 @@ export type RequestHooks = {
    */
   onResponse?: (info: {
     method: string;
+    /** Path as sent, including athlete and activity IDs */
     path: string;
+    /** Route template with placeholders instead of IDs, e.g. `athlete/{id}/activities` */
+    route: string;
+    /** Resource method that made the request, e.g. `activities.getStreams` */
+    operation?: string;
+    /** `context` from the request's `RequestOverrides`, if any */
+    context?: Record<string, unknown>;
     status: number;
     durationMs: number;
+    /** Set when the body came from the cache, without a request (`hit`) or after a 304 (`revalidated`) */
+    cache?: "hit" | "revalidated";
   }) => void | Promise<void>;
   /**
    * Called when an error occurs (HTTP error, network error, timeout, etc.).
@@ -76,8 +189,17 @@ export type RequestHooks = {
    */
   onError?: (info: {
     method: string;
+    /** Path as sent, including athlete and activity IDs */
     path: string;
+    /** Route template with placeholders instead of IDs, e.g. `athlete/{id}/activities` */
+    route: string;
+    /** Resource method that made the request, e.g. `activities.getStreams` */
+    operation?: string;
+    /** `context` from the request's `RequestOverrides`, if any */
+    context?: Record<string, unknown>;
     error: Error | unknown;
+    /** The error the request returns, with its `body` redacted per `IntervalsClientConfig.redaction` */
+    apiError: ApiError;
     durationMs: number;
   }) => void | Promise<void>;
   /**
@@ -88,7 +210,14 @@ export type RequestHooks = {
    */
   onRetry?: (info: {
     method: string;
+    /** Path as sent, including athlete and activity IDs */
     path: string;
+    /** Route template with placeholders instead of IDs, e.g. `athlete/{id}/activities` */
+    route: string;
+    /** Resource method that made the request, e.g. `activities.getStreams` */
+    operation?: string;
+    /** `context` from the request's `RequestOverrides`, if any */
+    context?: Record<string, unknown>;
     attempt: number;
     maxAttempts: number;
     delayMs: number;
@@ -108,18 +237,64 @@ export type IntervalsClientConfig = {
    */
   timeoutMs?: number;
   /**
-   * Retry behavior for rate limiting.
+   * Retry behavior for rate limiting, 5xx responses, network errors and timeouts.
    */
   retry?: RetryConfig;
   /**
    * Hooks for logging, metrics, and observability.
    */
   hooks?: RequestHooks;
+  /**
+   * Steps run around every request (including its retries), first one
+   * outermost. Each can rewrite the request, return a Result without sending
+   * it, or transform the response. `hooks` run inside all of them.
+   */
+  middleware?: Middleware[];
+  /**
+   * Client-side rate limiting and concurrency cap. Pass options for a limiter
+   * owned by this client, or a `RateLimiter` instance to share one budget
+   * between several clients.
+   * Default: no limit
+   */
+  rateLimit?: RateLimiter | RateLimiterOptions;
+  /**
+   * Opt-in cache for GET responses that follows Cache-Control and revalidates
+   * with If-None-Match / If-Modified-Since. A mutation on a path drops the
+   * cached entries for that path. Pass `{}` for an in-memory LRU cache.
+   * Default: no caching
+   */
+  cache?: CacheConfig;
+  /**
+   * Share one network call between identical GETs (same path, query, headers
+   * and credentials) that are in flight at the same time. Requests with
+   * per-call timeout, retry or context overrides are always sent on their own.
+   * Default: false
+   */
+  dedupe?: boolean;
+  /**
+   * How IDs, emails and tokens are masked in the error bodies passed to
+   * `hooks.onError`, or `false` to pass them unchanged.
+   * Default: all categories masked
+   */
+  redaction?: RedactionPolicy | false;
+  /**
+   * How responses are checked against the schemas. `loose` accepts unknown
+   * keys, `strict` fails with a Schema error on unknown keys and unexpected
+   * nulls, `report` decodes as `loose` and passes what didn't match to
+   * `onSchemaDrift`.
+   * Default: "loose"
+   */
+  schemaMode?: SchemaMode;
+  /**
+   * Called in `report` mode with the unknown keys, unexpected nulls and type
+   * mismatches found in a response, once per response that drifted.
+   */
+  onSchemaDrift?: (report: SchemaDriftReport) => void;
 };
 
 export const DEFAULT_BASE_URL = "https://intervals.icu/api/v1";
 
-export function buildAuthorizationHeader(auth: IntervalsAuth): string {
+export function buildAuthorizationHeader(auth: IntervalsCredentials): string {
   if (auth.type === "apiKey") {
     const token = btoa(`API_KEY:${auth.apiKey}`);
     return `Basic ${token}`;
@@ -1,19 +1,70 @@
+import type { IndexedWorkoutSyntaxError } from './formats/workoutText';
+
 /**
  * Discriminated union of all possible API errors.
  * All errors include a `message` field describing the error.
  *
- * HTTP errors (Unauthorized, Forbidden, NotFound, RateLimit, Http) include:
+ * HTTP errors (BadRequest, Unauthorized, Forbidden, NotFound, Conflict,
+ * ValidationFailed, RateLimit, Http) include:
  * - `status`: HTTP status code
  * - `body`: Optional response body from the server
  *
+ * BadRequest, Conflict and ValidationFailed errors also include:
+ * - `fieldErrors`: The validation messages found in the body, per field
+ *
  * Schema errors include:
  * - `issues`: Validation issues from schema parsing
  * - `cause`: The underlying validation error
  *
- * Network errors (Timeout, Network, Unknown) include:
+ * Network errors (Timeout, Network, Aborted, Unknown) include:
  * - `cause`: The underlying error that caused the failure
+ *
+ * InvalidWorkout errors are raised client-side before a request is sent and include:
+ * - `errors`: Syntax errors per item, with line/column in its `description`
+ *
+ * Errors from a request also carry `request`: its method, route, attempt,
+ * duration and response headers.
  */
-export type ApiError =
+export type ApiError = ApiErrorVariant & {
+  /** The request that failed; absent for errors raised before sending */
+  request?: ErrorRequestInfo;
+};
+
+/** Where and when a request failed */
+export type ErrorRequestInfo = {
+  method: string;
+  /** Path as sent */
+  path: string;
+  /** Route template, e.g. `activity/{id}` */
+  route: string;
+  /** Resource method, e.g. `activities.get` */
+  operation?: string;
+  /** Attempts sent, including retries (0 if the request never went out) */
+  attempt: number;
+  /** Time from the first attempt until the error, retries included */
+  durationMs: number;
+  /** Headers of the last response, with lower-case names */
+  headers?: Record<string, string>;
+  /** Server-assigned request ID (`X-Request-Id`), useful in support requests */
+  requestId?: string;
+};
+
+/** A validation message from an error response */
+export type FieldError = {
+  /** The field the message is about, when the server names one */
+  field?: string;
+  message: string;
+};
+
+type ApiErrorVariant =
+  | {
+      /** The server rejected the request as malformed (400) */
+      kind: 'BadRequest';
+      status: 400;
+      message: string;
+      fieldErrors: FieldError[];
+      body?: unknown;
+    }
   | {
       /** Authentication failed (invalid or missing credentials) */
       kind: 'Unauthorized';
@@ -35,6 +86,22 @@ export type ApiError =
       message: string;
       body?: unknown;
     }
+  | {
+      /** The request conflicts with the current state of the resource (409) */
+      kind: 'Conflict';
+      status: 409;
+      message: string;
+      fieldErrors: FieldError[];
+      body?: unknown;
+    }
+  | {
+      /** The request was well-formed but failed validation (422) */
+      kind: 'ValidationFailed';
+      status: 422;
+      message: string;
+      fieldErrors: FieldError[];
+      body?: unknown;
+    }
   | {
       /** Rate limit exceeded. Check `retryAfterSeconds` if available. */
       kind: 'RateLimit';
@@ -64,6 +131,12 @@ export type ApiError =
       message: string;
       cause?: unknown;
     }
+  | {
+      /** Request was cancelled through the caller's AbortSignal */
+      kind: 'Aborted';
+      message: string;
+      cause?: unknown;
+    }
   | {
       /** HTTP error (other status codes like 500, 503, etc.) */
       kind: 'Http';
@@ -71,6 +144,12 @@ export type ApiError =
       message: string;
       body?: unknown;
     }
+  | {
+      /** Workout text failed client-side validation; no request was sent */
+      kind: 'InvalidWorkout';
+      message: string;
+      errors: IndexedWorkoutSyntaxError[];
+    }
   | {
       /** Unknown/unexpected error */
       kind: 'Unknown';
@@ -78,6 +157,16 @@ export type ApiError =
       cause?: unknown;
     };
 
+export function invalidWorkoutError(
+  errors: IndexedWorkoutSyntaxError[]
+): ApiError {
+  const first = errors[0];
+  const message = first
+    ? `Invalid workout at item ${first.index}, line ${first.line}, column ${first.column}: ${first.message}`
+    : 'Invalid workout';
+  return { kind: 'InvalidWorkout', message, errors };
+}
+
 export function unknownError(message: string, cause?: unknown): ApiError {
   return { kind: 'Unknown', message, cause };
 }
@@ -90,5 +179,100 @@ export function timeoutError(message: string, cause?: unknown): ApiError {
   return { kind: 'Timeout', message, cause };
 }
 
+export function abortedError(message: string, cause?: unknown): ApiError {
+  return { kind: 'Aborted', message, cause };
+}
 
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
 
+/**
+ * Whether sending the same request again may succeed: rate limits, timeouts,
+ * network errors and 408/5xx-style server errors. Client errors, schema
+ * errors and cancellations are not retryable.
+ */
+export function isRetryable(error: ApiError): boolean {
+  switch (error.kind) {
+    case 'RateLimit':
+    case 'Timeout':
+    case 'Network':
+      return true;
+    case 'Http':
+      return RETRYABLE_STATUSES.includes(error.status);
+    default:
+      return false;
+  }
+}
+
+function messageOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of ['message', 'defaultMessage', 'error', 'detail']) {
+      if (typeof record[key] === 'string') return record[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The validation messages in an error response body. Understands lists of
+ * `{ field, message }` objects, `{ field: message | messages }` maps and a
+ * top-level `error`/`message` string (returned without a field).
+ */
+export function parseFieldErrors(body: unknown): FieldError[] {
+  if (typeof body === 'string') return body.trim() ? [{ message: body.trim() }] : [];
+  if (!body || typeof body !== 'object') return [];
+  const record = body as Record<string, unknown>;
+  const errors = record.errors ?? record.fieldErrors ?? record.field_errors;
+
+  if (Array.isArray(errors)) {
+    return errors.flatMap((entry): FieldError[] => {
+      const message = messageOf(entry);
+      if (!message) return [];
+      const field = entry && typeof entry === 'object' ? (entry as Record<string, unknown>).field : undefined;
+      return typeof field === 'string' ? [{ field, message }] : [{ message }];
+    });
+  }
+  if (errors && typeof errors === 'object') {
+    return Object.entries(errors).flatMap(([field, value]) =>
+      (Array.isArray(value) ? value : [value])
+        .map(messageOf)
+        .filter((message): message is string => message !== undefined)
+        .map((message) => ({ field, message })),
+    );
+  }
+
+  const message = messageOf(record);
+  return message ? [{ message }] : [];
+}
+
+
+
+
+/**
+ * An `ApiError` thrown as an exception, by `client.unwrap()` methods and
+ * `unwrap()`. `error` holds the original union member, so narrowing on `kind`
+ * works the same as with a `Result`.
+ *
+ * @example
+ * try {
+ *   await client.unwrap().activities.get(id);
+ * } catch (e) {
+ *   if (e instanceof IntervalsApiError && e.error.kind === 'NotFound') return undefined;
+ *   throw e;
+ * }
+ */
+export class IntervalsApiError<E extends ApiError = ApiError> extends Error {
+  readonly error: E;
+  readonly kind: E['kind'];
+  /** HTTP status, for errors that came from a response */
+  readonly status: number | undefined;
+
+  constructor(error: E) {
+    super(error.message, 'cause' in error && error.cause !== undefined ? { cause: error.cause } : undefined);
+    this.name = 'IntervalsApiError';
+    this.error = error;
+    this.kind = error.kind;
+    this.status = 'status' in error ? error.status : undefined;
+  }
+}
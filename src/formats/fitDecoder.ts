@@ -0,0 +1,466 @@
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import {
+  FIT_BASE_TYPES,
+  FIT_EPOCH_OFFSET,
+  FIT_MESG,
+  FIT_MESSAGES,
+  SEMICIRCLES_TO_DEGREES,
+  fitCrc,
+  type FitBaseType,
+  type FitFieldDef,
+} from "./fitProfile";
+import type { ActivityRecord } from "./records";
+import { isZip, unzip } from "./zip";
+
+/**
+ * Error decoding a FIT file. `offset` is the byte position the error was detected at.
+ */
+export type FitDecodeError = {
+  message: string;
+  offset?: number;
+  /** Archive entry name, when decoding a zip of FIT files */
+  entry?: string;
+};
+
+export type FitDecodeOptions = {
+  /** Verify the header and file CRCs (default: true) */
+  verifyCrc?: boolean;
+};
+
+export type FitHeader = {
+  protocolVersion: number;
+  profileVersion: number;
+  dataSize: number;
+};
+
+export type FitFileId = {
+  type?: string | number;
+  manufacturer?: number;
+  product?: number;
+  serialNumber?: number;
+  timeCreated?: Date;
+  number?: number;
+  productName?: string;
+};
+
+/**
+ * One sample of the activity; enhanced altitude and speed fields are preferred.
+ */
+export type FitRecord = ActivityRecord;
+
+/** Totals shared by laps and sessions. Times are in seconds. */
+type FitSummary = {
+  messageIndex?: number;
+  timestamp?: Date;
+  event?: string | number;
+  eventType?: string | number;
+  startTime?: Date;
+  startPositionLat?: number;
+  startPositionLong?: number;
+  sport?: string | number;
+  totalElapsedTime?: number;
+  totalTimerTime?: number;
+  totalDistance?: number;
+  totalCalories?: number;
+  avgSpeed?: number;
+  maxSpeed?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  avgCadence?: number;
+  maxCadence?: number;
+  avgPower?: number;
+  maxPower?: number;
+  normalizedPower?: number;
+  totalAscent?: number;
+  totalDescent?: number;
+};
+
+export type FitLap = FitSummary & {
+  endPositionLat?: number;
+  endPositionLong?: number;
+  lapTrigger?: string | number;
+};
+
+export type FitSession = FitSummary & {
+  subSport?: number;
+  firstLapIndex?: number;
+  numLaps?: number;
+  trainingStressScore?: number;
+  intensityFactor?: number;
+};
+
+export type FitEvent = {
+  timestamp?: Date;
+  event?: string | number;
+  eventType?: string | number;
+  data?: number;
+  eventGroup?: number;
+};
+
+export type FitDeviceInfo = {
+  timestamp?: Date;
+  deviceIndex?: number;
+  deviceType?: number;
+  manufacturer?: number;
+  serialNumber?: number;
+  product?: number;
+  softwareVersion?: number;
+  hardwareVersion?: number;
+  batteryVoltage?: number;
+  batteryStatus?: number;
+  productName?: string;
+};
+
+export type FitActivity = {
+  timestamp?: Date;
+  totalTimerTime?: number;
+  numSessions?: number;
+  type?: string | number;
+  event?: string | number;
+  eventType?: string | number;
+};
+
+export type FitValue = number | bigint | string | (number | bigint)[];
+
+/**
+ * A message without a typed profile, with raw field values keyed by field number.
+ */
+export type FitRawMessage = {
+  globalMessageNumber: number;
+  fields: Record<number, FitValue>;
+};
+
+export type FitFile = {
+  header: FitHeader;
+  fileId?: FitFileId;
+  sessions: FitSession[];
+  laps: FitLap[];
+  records: FitRecord[];
+  events: FitEvent[];
+  deviceInfos: FitDeviceInfo[];
+  activity?: FitActivity;
+  /** Messages outside the typed subset (developer fields are skipped) */
+  other: FitRawMessage[];
+};
+
+type FieldDefinition = { num: number; size: number; baseType: FitBaseType };
+
+type MessageDefinition = {
+  littleEndian: boolean;
+  globalMessageNumber: number;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+};
+
+class FitError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number
+  ) {
+    super(message);
+  }
+}
+
+const TIMESTAMP_FIELD = 253;
+
+function readValue(
+  view: DataView,
+  offset: number,
+  type: FitBaseType,
+  littleEndian: boolean
+): number | bigint {
+  switch (type.size) {
+    case 1:
+      return type.signed ? view.getInt8(offset) : view.getUint8(offset);
+    case 2:
+      return type.signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+    case 4:
+      if (type.float) {
+        return view.getUint32(offset, littleEndian) === type.invalid
+          ? type.invalid
+          : view.getFloat32(offset, littleEndian);
+      }
+      return type.signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+    default:
+      if (type.float) {
+        return view.getBigUint64(offset, littleEndian) === type.invalid
+          ? type.invalid
+          : view.getFloat64(offset, littleEndian);
+      }
+      return type.signed
+        ? view.getBigInt64(offset, littleEndian)
+        : view.getBigUint64(offset, littleEndian);
+  }
+}
+
+function readField(
+  bytes: Uint8Array,
+  view: DataView,
+  offset: number,
+  field: FieldDefinition,
+  littleEndian: boolean
+): FitValue | undefined {
+  const { baseType, size } = field;
+  if (baseType.string) {
+    const raw = bytes.subarray(offset, offset + size);
+    const end = raw.indexOf(0);
+    const text = new TextDecoder().decode(end === -1 ? raw : raw.subarray(0, end));
+    return text || undefined;
+  }
+
+  const count = Math.floor(size / baseType.size);
+  const values: (number | bigint)[] = [];
+  for (let i = 0; i < count; i++) {
+    values.push(readValue(view, offset + i * baseType.size, baseType, littleEndian));
+  }
+  if (count === 1) {
+    const value = values[0]!;
+    return value === baseType.invalid ? undefined : value;
+  }
+  return values.every((v) => v === baseType.invalid) ? undefined : values;
+}
+
+function toProfileValue(def: FitFieldDef, raw: FitValue): unknown {
+  if (typeof raw === "string") return raw;
+  if (Array.isArray(raw) || typeof raw === "bigint") return raw;
+
+  if (def.kind === "date") return new Date((raw + FIT_EPOCH_OFFSET) * 1000);
+  if (def.kind === "semicircles") return raw * SEMICIRCLES_TO_DEGREES;
+  if (def.values) return def.values[raw] ?? raw;
+  if (def.scale !== undefined || def.offset !== undefined) {
+    return raw / (def.scale ?? 1) - (def.offset ?? 0);
+  }
+  return raw;
+}
+
+function toMessage(
+  globalMessageNumber: number,
+  fields: Record<number, FitValue>
+): Record<string, unknown> | undefined {
+  const profile = FIT_MESSAGES[globalMessageNumber];
+  if (!profile) return undefined;
+
+  const message: Record<string, unknown> = {};
+  for (const [num, raw] of Object.entries(fields)) {
+    const def = profile[Number(num)];
+    if (!def) continue;
+    if (!def.enhanced && message[def.name] !== undefined) continue;
+    message[def.name] = toProfileValue(def, raw);
+  }
+  return message;
+}
+
+type DecodedFile = { file: FitFile; end: number };
+
+function decodeOne(bytes: Uint8Array, start: number, verifyCrc: boolean): DecodedFile {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (start + 12 > bytes.length) throw new FitError("File is too short for a FIT header", start);
+
+  const headerSize = bytes[start]!;
+  if (headerSize !== 12 && headerSize !== 14) {
+    throw new FitError(`Invalid FIT header size ${headerSize}`, start);
+  }
+  const signature = String.fromCharCode(...bytes.subarray(start + 8, start + 12));
+  if (signature !== ".FIT") throw new FitError("Missing .FIT signature", start + 8);
+
+  const header: FitHeader = {
+    protocolVersion: bytes[start + 1]!,
+    profileVersion: view.getUint16(start + 2, true),
+    dataSize: view.getUint32(start + 4, true),
+  };
+  if (verifyCrc && headerSize === 14) {
+    const headerCrc = view.getUint16(start + 12, true);
+    if (headerCrc !== 0 && headerCrc !== fitCrc(bytes, start, start + 12)) {
+      throw new FitError("Header CRC mismatch", start + 12);
+    }
+  }
+
+  const dataStart = start + headerSize;
+  const dataEnd = dataStart + header.dataSize;
+  if (dataEnd + 2 > bytes.length) throw new FitError("File is truncated", bytes.length);
+  if (verifyCrc && view.getUint16(dataEnd, true) !== fitCrc(bytes, start, dataEnd)) {
+    throw new FitError("File CRC mismatch", dataEnd);
+  }
+
+  const file: FitFile = {
+    header,
+    sessions: [],
+    laps: [],
+    records: [],
+    events: [],
+    deviceInfos: [],
+    other: [],
+  };
+  const definitions = new Map<number, MessageDefinition>();
+  let lastTimestamp = 0;
+  let offset = dataStart;
+
+  while (offset < dataEnd) {
+    const recordHeader = bytes[offset]!;
+    const headerOffset = offset;
+    offset += 1;
+
+    let localType: number;
+    let timeOffset: number | undefined;
+    if (recordHeader & 0x80) {
+      // Compressed timestamp header: local type in bits 5-6, time offset in bits 0-4
+      localType = (recordHeader >> 5) & 0x03;
+      timeOffset = recordHeader & 0x1f;
+    } else {
+      localType = recordHeader & 0x0f;
+      if (recordHeader & 0x40) {
+        if (offset + 5 > dataEnd) throw new FitError("Truncated definition message", headerOffset);
+        const littleEndian = bytes[offset + 1] === 0;
+        const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = bytes[offset + 4]!;
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          if (offset + 3 > dataEnd) throw new FitError("Truncated field definition", offset);
+          const baseType = FIT_BASE_TYPES[bytes[offset + 2]! & 0x1f];
+          if (!baseType) {
+            throw new FitError(`Unknown base type 0x${bytes[offset + 2]!.toString(16)}`, offset + 2);
+          }
+          fields.push({ num: bytes[offset]!, size: bytes[offset + 1]!, baseType });
+          offset += 3;
+        }
+
+        let developerDataSize = 0;
+        if (recordHeader & 0x20) {
+          const developerFieldCount = bytes[offset]!;
+          offset += 1;
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += bytes[offset + 1]!;
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, { littleEndian, globalMessageNumber, fields, developerDataSize });
+        continue;
+      }
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new FitError(`Data message for undefined local type ${localType}`, headerOffset);
+    }
+
+    const fields: Record<number, FitValue> = {};
+    for (const field of definition.fields) {
+      if (offset + field.size > dataEnd) throw new FitError("Truncated data message", offset);
+      const value = readField(bytes, view, offset, field, definition.littleEndian);
+      if (value !== undefined) fields[field.num] = value;
+      offset += field.size;
+    }
+    offset += definition.developerDataSize;
+
+    if (timeOffset !== undefined) {
+      const base = lastTimestamp & ~0x1f;
+      lastTimestamp =
+        timeOffset >= (lastTimestamp & 0x1f) ? base + timeOffset : base + timeOffset + 0x20;
+      fields[TIMESTAMP_FIELD] = lastTimestamp;
+    } else if (typeof fields[TIMESTAMP_FIELD] === "number") {
+      lastTimestamp = fields[TIMESTAMP_FIELD];
+    }
+
+    const message = toMessage(definition.globalMessageNumber, fields);
+    switch (definition.globalMessageNumber) {
+      case FIT_MESG.fileId:
+        file.fileId = message as FitFileId;
+        break;
+      case FIT_MESG.record:
+        file.records.push(message as FitRecord);
+        break;
+      case FIT_MESG.lap:
+        file.laps.push(message as FitLap);
+        break;
+      case FIT_MESG.session:
+        file.sessions.push(message as FitSession);
+        break;
+      case FIT_MESG.event:
+        file.events.push(message as FitEvent);
+        break;
+      case FIT_MESG.deviceInfo:
+        file.deviceInfos.push(message as FitDeviceInfo);
+        break;
+      case FIT_MESG.activity:
+        file.activity = message as FitActivity;
+        break;
+      default:
+        file.other.push({ globalMessageNumber: definition.globalMessageNumber, fields });
+    }
+  }
+
+  return { file, end: dataEnd + 2 };
+}
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/**
+ * Decode a FIT file (e.g. from `ActivitiesResource.downloadFitFile`) into typed
+ * file-id, session, lap, record, event and device-info messages.
+ * Chained FIT files are decoded one after another and returned in order.
+ */
+export function decodeFitFiles(
+  data: ArrayBuffer | Uint8Array,
+  options: FitDecodeOptions = {}
+): Result<FitFile[], FitDecodeError> {
+  const bytes = toBytes(data);
+  const files: FitFile[] = [];
+  try {
+    let offset = 0;
+    while (offset < bytes.length) {
+      const decoded = decodeOne(bytes, offset, options.verifyCrc ?? true);
+      files.push(decoded.file);
+      offset = decoded.end;
+    }
+  } catch (e) {
+    if (e instanceof FitError) return err({ message: e.message, offset: e.offset });
+    return err({ message: e instanceof Error ? e.message : String(e) });
+  }
+  if (files.length === 0) return err({ message: "File is empty", offset: 0 });
+  return ok(files);
+}
+
+/**
+ * Decode a single FIT file. For chained files only the first one is returned;
+ * use `decodeFitFiles` to get all of them.
+ */
+export function decodeFit(
+  data: ArrayBuffer | Uint8Array,
+  options: FitDecodeOptions = {}
+): Result<FitFile, FitDecodeError> {
+  const result = decodeFitFiles(data, options);
+  return result.ok ? ok(result.value[0]!) : result;
+}
+
+/**
+ * Decode every `.fit` entry of a zip archive (e.g. from
+ * `ActivitiesResource.downloadFitFiles`) in memory. A plain FIT file is
+ * returned as a single entry named `activity.fit`.
+ */
+export function decodeFitArchive(
+  data: ArrayBuffer | Uint8Array,
+  options: FitDecodeOptions = {}
+): Result<{ name: string; fit: FitFile }[], FitDecodeError> {
+  if (!isZip(data)) {
+    const result = decodeFit(data, options);
+    return result.ok ? ok([{ name: "activity.fit", fit: result.value }]) : result;
+  }
+
+  const entries = unzip(data);
+  if (!entries.ok) return entries;
+
+  const files: { name: string; fit: FitFile }[] = [];
+  for (const entry of entries.value) {
+    if (!entry.name.toLowerCase().endsWith(".fit")) continue;
+    const result = decodeFit(entry.data, options);
+    if (!result.ok) return err({ ...result.error, entry: entry.name });
+    files.push({ name: entry.name, fit: result.value });
+  }
+  return ok(files);
+}
@@ -0,0 +1,280 @@
+import type {
+  FitDeviceInfo,
+  FitFileId,
+  FitLap,
+  FitSession,
+} from "./fitDecoder";
+import { err, ok, type Result } from "../result";
+import {
+  assertTimedRecords,
+  RecordError,
+  splitRecordsByLap,
+  summarizeRecords,
+  withoutUndefined,
+  type TimedActivityRecord,
+} from "./records";
+import {
+  FIT_BASE_TYPES,
+  FIT_EPOCH_OFFSET,
+  FIT_MESG,
+  FIT_MESSAGES,
+  FIT_SPORT,
+  SEMICIRCLES_TO_DEGREES,
+  fitCrc,
+  type FitFieldDef,
+} from "./fitProfile";
+
+/**
+ * Input for `encodeFit`. Only `records` is required; file id, laps, session and
+ * activity messages are derived from the records when not given.
+ */
+export type FitEncodeInput = {
+  /** Samples in time order; every record needs a timestamp */
+  records: TimedActivityRecord[];
+  /**
+   * Laps by start time. Each lap ends where the next one starts (the last one at
+   * the final record); totals not given are computed from the records.
+   * Default: one lap covering the whole activity.
+   */
+  laps?: (FitLap & { startTime: Date })[];
+  /** Session overrides; totals not given are computed from the records */
+  session?: FitSession;
+  /** Sport name (`cycling`, `running`, ...) or FIT sport number (default: cycling) */
+  sport?: string | number;
+  /** File id overrides (default manufacturer: 255, development) */
+  fileId?: FitFileId;
+  deviceInfos?: FitDeviceInfo[];
+};
+
+/**
+ * Input `encodeFit` cannot write. `path` points at the offending record or field,
+ * e.g. `records[12].power`.
+ */
+export type FitEncodeError = {
+  message: string;
+  path?: string;
+};
+
+class FitEncoderError extends Error {
+  constructor(
+    message: string,
+    readonly path?: string
+  ) {
+    super(message);
+  }
+}
+
+type Message = Record<string, unknown>;
+
+const LOCAL_TYPES: Record<number, number> = {
+  [FIT_MESG.fileId]: 0,
+  [FIT_MESG.deviceInfo]: 1,
+  [FIT_MESG.event]: 2,
+  [FIT_MESG.record]: 3,
+  [FIT_MESG.lap]: 4,
+  [FIT_MESG.session]: 5,
+  [FIT_MESG.activity]: 6,
+};
+
+type EncodedField = { num: number; def: FitFieldDef; value: number | string; size: number };
+
+function rangeOf(def: FitFieldDef): [number, number] {
+  const base = FIT_BASE_TYPES[def.type]!;
+  const bits = base.size * 8;
+  if (base.signed) return [-(2 ** (bits - 1)), 2 ** (bits - 1) - 2];
+  // uintNz types reserve 0 as invalid, other unsigned types reserve the max value
+  return base.invalid === 0 ? [1, 2 ** bits - 1] : [0, 2 ** bits - 2];
+}
+
+function toRaw(def: FitFieldDef, value: unknown, path: string): number | string {
+  if (def.kind === "string") {
+    if (typeof value !== "string") throw new FitEncoderError(`${path} must be a string`, path);
+    return value;
+  }
+  if (def.kind === "date") {
+    if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+      throw new FitEncoderError(`${path} must be a valid Date`, path);
+    }
+    return Math.round(value.getTime() / 1000) - FIT_EPOCH_OFFSET;
+  }
+  if (typeof value === "string" && def.values) {
+    const entry = Object.entries(def.values).find(([, name]) => name === value);
+    if (!entry) throw new FitEncoderError(`${path}: unknown value "${value}"`, path);
+    return Number(entry[0]);
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new FitEncoderError(`${path} must be a finite number`, path);
+  }
+  if (def.kind === "semicircles") return Math.round(value / SEMICIRCLES_TO_DEGREES);
+  return Math.round((value + (def.offset ?? 0)) * (def.scale ?? 1));
+}
+
+function encodeFields(global: number, message: Message, name: string): EncodedField[] {
+  const profile = FIT_MESSAGES[global]!;
+  const fields: EncodedField[] = [];
+
+  for (const [num, def] of Object.entries(profile)) {
+    const value = message[def.name];
+    if (value === undefined || value === null) continue;
+
+    const raw = toRaw(def, value, `${name}.${def.name}`);
+    if (typeof raw === "string") {
+      const size = Math.min(new TextEncoder().encode(raw).length + 1, 255);
+      fields.push({ num: Number(num), def, value: raw, size });
+      continue;
+    }
+
+    const [min, max] = rangeOf(def);
+    if (raw < min || raw > max) {
+      const hasEnhanced = Object.values(profile).some((d) => d.enhanced && d.name === def.name);
+      // The enhanced twin carries values the legacy field cannot hold
+      if (!def.enhanced && hasEnhanced) continue;
+      throw new FitEncoderError(`${name}.${def.name}: ${String(value)} is out of range`, `${name}.${def.name}`);
+    }
+    fields.push({ num: Number(num), def, value: raw, size: FIT_BASE_TYPES[def.type]!.size });
+  }
+  return fields;
+}
+
+class FitWriter {
+  private bytes: number[] = [];
+  private readonly scratch = new DataView(new ArrayBuffer(8));
+  private readonly definitions = new Map<number, string>();
+
+  message(global: number, message: Message, name: string): void {
+    const local = LOCAL_TYPES[global]!;
+    const fields = encodeFields(global, message, name);
+    if (fields.length === 0) return;
+
+    const signature = `${global}:${fields.map((f) => `${f.num}/${f.size}`).join(",")}`;
+    if (this.definitions.get(local) !== signature) {
+      this.definitions.set(local, signature);
+      this.bytes.push(0x40 | local, 0, 0, global & 0xff, global >> 8, fields.length);
+      for (const field of fields) {
+        this.bytes.push(field.num, field.size, FIT_BASE_TYPES[field.def.type]!.id);
+      }
+    }
+
+    this.bytes.push(local);
+    for (const field of fields) this.value(field);
+  }
+
+  private value(field: EncodedField): void {
+    if (typeof field.value === "string") {
+      const encoded = new TextEncoder().encode(field.value).subarray(0, field.size - 1);
+      this.bytes.push(...encoded, ...new Array<number>(field.size - encoded.length).fill(0));
+      return;
+    }
+
+    const base = FIT_BASE_TYPES[field.def.type]!;
+    const view = this.scratch;
+    if (base.size === 1) view.setUint8(0, field.value & 0xff);
+    else if (base.size === 2) view.setUint16(0, field.value & 0xffff, true);
+    else if (base.signed) view.setInt32(0, field.value, true);
+    else view.setUint32(0, field.value, true);
+    for (let i = 0; i < base.size; i++) this.bytes.push(view.getUint8(i));
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    const dataSize = this.bytes.length;
+    const file = new Uint8Array(14 + dataSize + 2);
+    const view = new DataView(file.buffer);
+
+    file[0] = 14;
+    file[1] = 0x20; // protocol 2.0
+    view.setUint16(2, 2132, true); // profile 21.32
+    view.setUint32(4, dataSize, true);
+    file.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, fitCrc(file, 0, 12), true);
+    file.set(this.bytes, 14);
+    view.setUint16(14 + dataSize, fitCrc(file, 0, 14 + dataSize), true);
+    return file;
+  }
+}
+
+/**
+ * Build a FIT activity file from typed records, e.g. to upload a manually logged
+ * session or a repaired recording with `ActivitiesResource.uploadActivity`.
+ * Writes file id, device info, timer events, records, laps, a session and an
+ * activity message, with valid header and file CRCs. Returns an error if records
+ * are missing, out of order, lack a timestamp, or hold values the FIT types
+ * cannot represent.
+ */
+export function encodeFit(input: FitEncodeInput): Result<Uint8Array<ArrayBuffer>, FitEncodeError> {
+  try {
+    return ok(writeFit(input));
+  } catch (e) {
+    const error: FitEncodeError = { message: e instanceof Error ? e.message : String(e) };
+    if ((e instanceof FitEncoderError || e instanceof RecordError) && e.path) error.path = e.path;
+    return err(error);
+  }
+}
+
+function writeFit(input: FitEncodeInput): Uint8Array<ArrayBuffer> {
+  const { records } = input;
+  if (records.length === 0) throw new FitEncoderError("FIT activity needs at least one record", "records");
+  assertTimedRecords(records);
+
+  const start = records[0]!.timestamp;
+  const end = records[records.length - 1]!.timestamp;
+  const sport = input.sport ?? "cycling";
+  if (typeof sport === "string" && !Object.values(FIT_SPORT).includes(sport)) {
+    throw new FitEncoderError(`Unknown sport "${sport}"`, "sport");
+  }
+
+  const writer = new FitWriter();
+  writer.message(
+    FIT_MESG.fileId,
+    { type: "activity", manufacturer: 255, product: 0, timeCreated: start, ...input.fileId },
+    "fileId"
+  );
+  for (const [i, device] of (input.deviceInfos ?? []).entries()) {
+    writer.message(FIT_MESG.deviceInfo, { timestamp: start, ...device }, `deviceInfos[${i}]`);
+  }
+  writer.message(FIT_MESG.event, { timestamp: start, event: "timer", eventType: "start" }, "event");
+  records.forEach((record, i) => writer.message(FIT_MESG.record, record, `records[${i}]`));
+  writer.message(FIT_MESG.event, { timestamp: end, event: "timer", eventType: "stop_all" }, "event");
+
+  const laps = splitRecordsByLap(records, input.laps ?? [{ startTime: start }]);
+  laps.forEach(({ lap, end: lapEnd, records: lapRecords }, i) => {
+    writer.message(
+      FIT_MESG.lap,
+      {
+        messageIndex: i,
+        event: "lap",
+        eventType: "stop",
+        lapTrigger: i === laps.length - 1 ? "session_end" : "manual",
+        sport,
+        ...summarizeRecords(lapRecords, lap.startTime, lapEnd),
+        ...withoutUndefined(lap),
+      },
+      `laps[${i}]`
+    );
+  });
+
+  const session: Message = {
+    messageIndex: 0,
+    event: "session",
+    eventType: "stop",
+    sport,
+    firstLapIndex: 0,
+    numLaps: laps.length,
+    ...summarizeRecords(records, start, end),
+    ...withoutUndefined(input.session ?? {}),
+  };
+  writer.message(FIT_MESG.session, session, "session");
+  writer.message(
+    FIT_MESG.activity,
+    {
+      timestamp: end,
+      totalTimerTime: session.totalTimerTime,
+      numSessions: 1,
+      type: "manual",
+      event: "activity",
+      eventType: "stop",
+    },
+    "activity"
+  );
+
+  return writer.finish();
+}
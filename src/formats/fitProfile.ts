@@ -0,0 +1,303 @@
+/**
+ * Subset of the FIT SDK profile used by the FIT decoder and encoder:
+ * base types, the CRC, and field definitions for the messages we type.
+ */
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+export const FIT_EPOCH_OFFSET = 631065600;
+
+/** Semicircles to degrees: 180 / 2^31 */
+export const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+export type FitBaseType = {
+  id: number;
+  size: number;
+  invalid: number | bigint;
+  signed?: boolean;
+  float?: boolean;
+  string?: boolean;
+};
+
+/** Base types keyed by the base type number (low 5 bits of the base type byte) */
+export const FIT_BASE_TYPES: Record<number, FitBaseType> = {
+  0x00: { id: 0x00, size: 1, invalid: 0xff }, // enum
+  0x01: { id: 0x01, size: 1, invalid: 0x7f, signed: true }, // sint8
+  0x02: { id: 0x02, size: 1, invalid: 0xff }, // uint8
+  0x03: { id: 0x83, size: 2, invalid: 0x7fff, signed: true }, // sint16
+  0x04: { id: 0x84, size: 2, invalid: 0xffff }, // uint16
+  0x05: { id: 0x85, size: 4, invalid: 0x7fffffff, signed: true }, // sint32
+  0x06: { id: 0x86, size: 4, invalid: 0xffffffff }, // uint32
+  0x07: { id: 0x07, size: 1, invalid: 0x00, string: true }, // string
+  0x08: { id: 0x88, size: 4, invalid: 0xffffffff, float: true }, // float32
+  0x09: { id: 0x89, size: 8, invalid: 0xffffffffffffffffn, float: true }, // float64
+  0x0a: { id: 0x0a, size: 1, invalid: 0x00 }, // uint8z
+  0x0b: { id: 0x8b, size: 2, invalid: 0x0000 }, // uint16z
+  0x0c: { id: 0x8c, size: 4, invalid: 0x00000000 }, // uint32z
+  0x0d: { id: 0x0d, size: 1, invalid: 0xff }, // byte
+  0x0e: { id: 0x8e, size: 8, invalid: 0x7fffffffffffffffn, signed: true }, // sint64
+  0x0f: { id: 0x8f, size: 8, invalid: 0xffffffffffffffffn }, // uint64
+  0x10: { id: 0x90, size: 8, invalid: 0x0000000000000000n }, // uint64z
+};
+
+export const FIT_TYPE = {
+  enum: 0x00,
+  sint8: 0x01,
+  uint8: 0x02,
+  sint16: 0x03,
+  uint16: 0x04,
+  sint32: 0x05,
+  uint32: 0x06,
+  string: 0x07,
+  uint32z: 0x0c,
+} as const;
+
+export const FIT_MESG = {
+  fileId: 0,
+  session: 18,
+  lap: 19,
+  record: 20,
+  event: 21,
+  deviceInfo: 23,
+  activity: 34,
+} as const;
+
+export type FitFieldKind = "date" | "semicircles" | "string";
+
+/**
+ * Profile field: base type, scale/offset (`value = raw / scale - offset`) and
+ * how to present it. `enhanced` fields overwrite their non-enhanced twin.
+ */
+export type FitFieldDef = {
+  name: string;
+  type: number;
+  scale?: number;
+  offset?: number;
+  kind?: FitFieldKind;
+  values?: Record<number, string>;
+  enhanced?: boolean;
+};
+
+export const FIT_SPORT: Record<number, string> = {
+  0: "generic",
+  1: "running",
+  2: "cycling",
+  3: "transition",
+  4: "fitness_equipment",
+  5: "swimming",
+  10: "training",
+  11: "walking",
+  12: "cross_country_skiing",
+  13: "alpine_skiing",
+  15: "rowing",
+  17: "hiking",
+  19: "paddling",
+  21: "e_biking",
+  37: "stand_up_paddleboarding",
+  41: "kayaking",
+};
+
+export const FIT_EVENT: Record<number, string> = {
+  0: "timer",
+  3: "workout",
+  4: "workout_step",
+  5: "power_down",
+  6: "power_up",
+  7: "off_course",
+  8: "session",
+  9: "lap",
+  10: "course_point",
+  11: "battery",
+  26: "activity",
+  27: "fitness_equipment",
+  28: "length",
+  32: "user_marker",
+  33: "sport_point",
+  36: "calibration",
+  42: "front_gear_change",
+  43: "rear_gear_change",
+};
+
+export const FIT_EVENT_TYPE: Record<number, string> = {
+  0: "start",
+  1: "stop",
+  2: "consecutive_depreciated",
+  3: "marker",
+  4: "stop_all",
+  5: "begin_depreciated",
+  6: "end_depreciated",
+  7: "end_all_depreciated",
+  8: "stop_disable",
+  9: "stop_disable_all",
+};
+
+export const FIT_LAP_TRIGGER: Record<number, string> = {
+  0: "manual",
+  1: "time",
+  2: "distance",
+  3: "position_start",
+  4: "position_lap",
+  5: "position_waypoint",
+  6: "position_marked",
+  7: "session_end",
+  8: "fitness_equipment",
+};
+
+export const FIT_ACTIVITY_TYPE: Record<number, string> = {
+  0: "manual",
+  1: "auto_multi_sport",
+};
+
+export const FIT_FILE_TYPE: Record<number, string> = {
+  1: "device",
+  2: "settings",
+  3: "sport",
+  4: "activity",
+  5: "workout",
+  6: "course",
+};
+
+const T = FIT_TYPE;
+
+const timestamp: FitFieldDef = { name: "timestamp", type: T.uint32, kind: "date" };
+const messageIndex: FitFieldDef = { name: "messageIndex", type: T.uint16 };
+const event: FitFieldDef = { name: "event", type: T.enum, values: FIT_EVENT };
+const eventType: FitFieldDef = { name: "eventType", type: T.enum, values: FIT_EVENT_TYPE };
+
+/** Field definitions by global message number and field number */
+export const FIT_MESSAGES: Record<number, Record<number, FitFieldDef>> = {
+  [FIT_MESG.fileId]: {
+    0: { name: "type", type: T.enum, values: FIT_FILE_TYPE },
+    1: { name: "manufacturer", type: T.uint16 },
+    2: { name: "product", type: T.uint16 },
+    3: { name: "serialNumber", type: T.uint32z },
+    4: { name: "timeCreated", type: T.uint32, kind: "date" },
+    5: { name: "number", type: T.uint16 },
+    8: { name: "productName", type: T.string, kind: "string" },
+  },
+  [FIT_MESG.record]: {
+    253: timestamp,
+    0: { name: "positionLat", type: T.sint32, kind: "semicircles" },
+    1: { name: "positionLong", type: T.sint32, kind: "semicircles" },
+    2: { name: "altitude", type: T.uint16, scale: 5, offset: 500 },
+    3: { name: "heartRate", type: T.uint8 },
+    4: { name: "cadence", type: T.uint8 },
+    5: { name: "distance", type: T.uint32, scale: 100 },
+    6: { name: "speed", type: T.uint16, scale: 1000 },
+    7: { name: "power", type: T.uint16 },
+    13: { name: "temperature", type: T.sint8 },
+    53: { name: "fractionalCadence", type: T.uint8, scale: 128 },
+    73: { name: "speed", type: T.uint32, scale: 1000, enhanced: true },
+    78: { name: "altitude", type: T.uint32, scale: 5, offset: 500, enhanced: true },
+  },
+  [FIT_MESG.lap]: {
+    254: messageIndex,
+    253: timestamp,
+    0: event,
+    1: eventType,
+    2: { name: "startTime", type: T.uint32, kind: "date" },
+    3: { name: "startPositionLat", type: T.sint32, kind: "semicircles" },
+    4: { name: "startPositionLong", type: T.sint32, kind: "semicircles" },
+    5: { name: "endPositionLat", type: T.sint32, kind: "semicircles" },
+    6: { name: "endPositionLong", type: T.sint32, kind: "semicircles" },
+    7: { name: "totalElapsedTime", type: T.uint32, scale: 1000 },
+    8: { name: "totalTimerTime", type: T.uint32, scale: 1000 },
+    9: { name: "totalDistance", type: T.uint32, scale: 100 },
+    11: { name: "totalCalories", type: T.uint16 },
+    13: { name: "avgSpeed", type: T.uint16, scale: 1000 },
+    14: { name: "maxSpeed", type: T.uint16, scale: 1000 },
+    15: { name: "avgHeartRate", type: T.uint8 },
+    16: { name: "maxHeartRate", type: T.uint8 },
+    17: { name: "avgCadence", type: T.uint8 },
+    18: { name: "maxCadence", type: T.uint8 },
+    19: { name: "avgPower", type: T.uint16 },
+    20: { name: "maxPower", type: T.uint16 },
+    21: { name: "totalAscent", type: T.uint16 },
+    22: { name: "totalDescent", type: T.uint16 },
+    24: { name: "lapTrigger", type: T.enum, values: FIT_LAP_TRIGGER },
+    25: { name: "sport", type: T.enum, values: FIT_SPORT },
+    33: { name: "normalizedPower", type: T.uint16 },
+    110: { name: "avgSpeed", type: T.uint32, scale: 1000, enhanced: true },
+    111: { name: "maxSpeed", type: T.uint32, scale: 1000, enhanced: true },
+  },
+  [FIT_MESG.session]: {
+    254: messageIndex,
+    253: timestamp,
+    0: event,
+    1: eventType,
+    2: { name: "startTime", type: T.uint32, kind: "date" },
+    3: { name: "startPositionLat", type: T.sint32, kind: "semicircles" },
+    4: { name: "startPositionLong", type: T.sint32, kind: "semicircles" },
+    5: { name: "sport", type: T.enum, values: FIT_SPORT },
+    6: { name: "subSport", type: T.enum },
+    7: { name: "totalElapsedTime", type: T.uint32, scale: 1000 },
+    8: { name: "totalTimerTime", type: T.uint32, scale: 1000 },
+    9: { name: "totalDistance", type: T.uint32, scale: 100 },
+    11: { name: "totalCalories", type: T.uint16 },
+    14: { name: "avgSpeed", type: T.uint16, scale: 1000 },
+    15: { name: "maxSpeed", type: T.uint16, scale: 1000 },
+    16: { name: "avgHeartRate", type: T.uint8 },
+    17: { name: "maxHeartRate", type: T.uint8 },
+    18: { name: "avgCadence", type: T.uint8 },
+    19: { name: "maxCadence", type: T.uint8 },
+    20: { name: "avgPower", type: T.uint16 },
+    21: { name: "maxPower", type: T.uint16 },
+    22: { name: "totalAscent", type: T.uint16 },
+    23: { name: "totalDescent", type: T.uint16 },
+    25: { name: "firstLapIndex", type: T.uint16 },
+    26: { name: "numLaps", type: T.uint16 },
+    34: { name: "normalizedPower", type: T.uint16 },
+    35: { name: "trainingStressScore", type: T.uint16, scale: 10 },
+    36: { name: "intensityFactor", type: T.uint16, scale: 1000 },
+    124: { name: "avgSpeed", type: T.uint32, scale: 1000, enhanced: true },
+    125: { name: "maxSpeed", type: T.uint32, scale: 1000, enhanced: true },
+  },
+  [FIT_MESG.event]: {
+    253: timestamp,
+    0: event,
+    1: eventType,
+    3: { name: "data", type: T.uint32 },
+    4: { name: "eventGroup", type: T.uint8 },
+  },
+  [FIT_MESG.deviceInfo]: {
+    253: timestamp,
+    0: { name: "deviceIndex", type: T.uint8 },
+    1: { name: "deviceType", type: T.uint8 },
+    2: { name: "manufacturer", type: T.uint16 },
+    3: { name: "serialNumber", type: T.uint32z },
+    4: { name: "product", type: T.uint16 },
+    5: { name: "softwareVersion", type: T.uint16, scale: 100 },
+    6: { name: "hardwareVersion", type: T.uint8 },
+    10: { name: "batteryVoltage", type: T.uint16, scale: 256 },
+    11: { name: "batteryStatus", type: T.uint8 },
+    27: { name: "productName", type: T.string, kind: "string" },
+  },
+  [FIT_MESG.activity]: {
+    253: timestamp,
+    0: { name: "totalTimerTime", type: T.uint32, scale: 1000 },
+    1: { name: "numSessions", type: T.uint16 },
+    2: { name: "type", type: T.enum, values: FIT_ACTIVITY_TYPE },
+    3: event,
+    4: eventType,
+  },
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800,
+  0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 over `bytes[start, end)`, continuing from `crc`.
+ */
+export function fitCrc(bytes: Uint8Array, start = 0, end = bytes.length, crc = 0): number {
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i]!;
+    let tmp = CRC_TABLE[crc & 0xf]!;
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf]!;
+    tmp = CRC_TABLE[crc & 0xf]!;
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf]!;
+  }
+  return crc;
+}
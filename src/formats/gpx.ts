@@ -0,0 +1,239 @@
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import type { ActivityFileError, ActivityRecord } from "./records";
+import { child, childrenNamed, escapeXml, localName, parseXml, type XmlElement } from "./xml";
+
+export type GpxTrack = {
+  name?: string;
+  type?: string;
+  /** Track segments; points are in file order */
+  segments: ActivityRecord[][];
+};
+
+export type GpxRoute = {
+  name?: string;
+  points: ActivityRecord[];
+};
+
+export type GpxFile = {
+  creator?: string;
+  name?: string;
+  description?: string;
+  time?: Date;
+  tracks: GpxTrack[];
+  routes: GpxRoute[];
+};
+
+export type GpxWriteInput = {
+  records: ActivityRecord[];
+  name?: string;
+  /** Track type, e.g. `cycling` */
+  type?: string;
+  /** Default: `@kuranov/intervals-client` */
+  creator?: string;
+};
+
+class GpxError extends Error {
+  constructor(
+    message: string,
+    readonly path?: string
+  ) {
+    super(message);
+  }
+}
+
+function text(element: XmlElement, name: string): string | undefined {
+  return child(element, name)?.text || undefined;
+}
+
+function parseNumber(value: string | undefined, what: string, path: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new GpxError(`Invalid ${what} "${value}"`, path);
+  return n;
+}
+
+function parseDate(value: string | undefined, path: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new GpxError(`Invalid time "${value}"`, path);
+  return date;
+}
+
+/** Depth-first search by local name, so any extension namespace prefix matches. */
+function findDescendant(element: XmlElement, names: string[]): XmlElement | undefined {
+  for (const c of element.children) {
+    if (names.includes(localName(c))) return c;
+    const found = findDescendant(c, names);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function readPoint(element: XmlElement, path: string): ActivityRecord {
+  const lat = parseNumber(element.attributes.lat, "lat", path);
+  const lon = parseNumber(element.attributes.lon, "lon", path);
+  if (lat === undefined || lon === undefined) throw new GpxError("Missing lat/lon", path);
+  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+    throw new GpxError(`Position ${lat},${lon} is out of range`, path);
+  }
+
+  const record: ActivityRecord = { positionLat: lat, positionLong: lon };
+  const altitude = parseNumber(text(element, "ele"), "ele", path);
+  if (altitude !== undefined) record.altitude = altitude;
+  const timestamp = parseDate(text(element, "time"), path);
+  if (timestamp) record.timestamp = timestamp;
+
+  const extensions = child(element, "extensions");
+  if (extensions) {
+    const read = (names: string[], what: string) =>
+      parseNumber(findDescendant(extensions, names)?.text, what, path);
+    const heartRate = read(["hr"], "hr");
+    const cadence = read(["cad"], "cadence");
+    const temperature = read(["atemp"], "temperature");
+    const power = read(["power", "PowerInWatts"], "power");
+    const speed = read(["speed"], "speed");
+    if (heartRate !== undefined) record.heartRate = heartRate;
+    if (cadence !== undefined) record.cadence = cadence;
+    if (temperature !== undefined) record.temperature = temperature;
+    if (power !== undefined) record.power = power;
+    if (speed !== undefined) record.speed = speed;
+  }
+  return record;
+}
+
+/**
+ * Parse a GPX 1.1 (or 1.0) file, e.g. from `ActivitiesResource.downloadGpxFile` or a
+ * route planner. Power, heart rate, cadence, temperature and speed are read from
+ * `<extensions>` (Garmin TrackPointExtension v1/v2 and the common `<power>` element).
+ * Returns an error for malformed XML, missing or out-of-range positions and
+ * unparseable numbers or times.
+ */
+export function parseGpx(source: string | ArrayBuffer | Uint8Array): Result<GpxFile, ActivityFileError> {
+  try {
+    const xml = typeof source === "string" ? source : new TextDecoder().decode(source);
+    const root = parseXml(xml);
+    if (localName(root) !== "gpx") throw new GpxError("Expected <gpx> root element");
+
+    const metadata = child(root, "metadata");
+    const gpx: GpxFile = { tracks: [], routes: [] };
+    if (root.attributes.creator) gpx.creator = root.attributes.creator;
+    const name = metadata ? text(metadata, "name") : text(root, "name");
+    if (name) gpx.name = name;
+    const description = metadata ? text(metadata, "desc") : text(root, "desc");
+    if (description) gpx.description = description;
+    const time = parseDate(metadata ? text(metadata, "time") : text(root, "time"), "metadata");
+    if (time) gpx.time = time;
+
+    childrenNamed(root, "trk").forEach((trk, t) => {
+      const track: GpxTrack = {
+        segments: childrenNamed(trk, "trkseg").map((seg, s) =>
+          childrenNamed(seg, "trkpt").map((pt, p) => readPoint(pt, `trk[${t}].trkseg[${s}].trkpt[${p}]`))
+        ),
+      };
+      const trackName = text(trk, "name");
+      if (trackName) track.name = trackName;
+      const type = text(trk, "type");
+      if (type) track.type = type;
+      gpx.tracks.push(track);
+    });
+
+    childrenNamed(root, "rte").forEach((rte, r) => {
+      const route: GpxRoute = {
+        points: childrenNamed(rte, "rtept").map((pt, p) => readPoint(pt, `rte[${r}].rtept[${p}]`)),
+      };
+      const routeName = text(rte, "name");
+      if (routeName) route.name = routeName;
+      gpx.routes.push(route);
+    });
+
+    return ok(gpx);
+  } catch (e) {
+    const error: ActivityFileError = { format: "gpx", message: e instanceof Error ? e.message : String(e) };
+    if (e instanceof GpxError && e.path) error.path = e.path;
+    return err(error);
+  }
+}
+
+/**
+ * All track points of a GPX file in order, falling back to route points when
+ * the file has no tracks (e.g. a planned route).
+ */
+export function gpxRecords(gpx: GpxFile): ActivityRecord[] {
+  const points = gpx.tracks.flatMap((track) => track.segments.flat());
+  return points.length ? points : gpx.routes.flatMap((route) => route.points);
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().replace(/\.000Z$/, "Z");
+}
+
+function coordinate(value: number): string {
+  return Number(value.toFixed(7)).toString();
+}
+
+/**
+ * Write records as a single-track GPX 1.1 file with Garmin TrackPointExtension
+ * (heart rate, cadence, temperature) and a `<power>` extension element.
+ * Returns an error if a record has no position (GPX track points require one;
+ * use TCX for indoor activities).
+ */
+export function formatGpx(input: GpxWriteInput): Result<string, ActivityFileError> {
+  try {
+    return ok(writeGpx(input));
+  } catch (e) {
+    const error: ActivityFileError = { format: "gpx", message: e instanceof Error ? e.message : String(e) };
+    if (e instanceof GpxError && e.path) error.path = e.path;
+    return err(error);
+  }
+}
+
+function writeGpx(input: GpxWriteInput): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(input.creator ?? "@kuranov/intervals-client")}" ` +
+      'xmlns="http://www.topografix.com/GPX/1/1" ' +
+      'xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+  ];
+
+  const firstTime = input.records.find((r) => r.timestamp)?.timestamp;
+  if (input.name || firstTime) {
+    lines.push("  <metadata>");
+    if (input.name) lines.push(`    <name>${escapeXml(input.name)}</name>`);
+    if (firstTime) lines.push(`    <time>${formatTime(firstTime)}</time>`);
+    lines.push("  </metadata>");
+  }
+
+  lines.push("  <trk>");
+  if (input.name) lines.push(`    <name>${escapeXml(input.name)}</name>`);
+  if (input.type) lines.push(`    <type>${escapeXml(input.type)}</type>`);
+  lines.push("    <trkseg>");
+
+  input.records.forEach((record, i) => {
+    if (record.positionLat === undefined || record.positionLong === undefined) {
+      throw new GpxError("Record has no position; GPX track points require lat/lon", `records[${i}]`);
+    }
+    lines.push(`      <trkpt lat="${coordinate(record.positionLat)}" lon="${coordinate(record.positionLong)}">`);
+    if (record.altitude !== undefined) lines.push(`        <ele>${record.altitude}</ele>`);
+    if (record.timestamp) lines.push(`        <time>${formatTime(record.timestamp)}</time>`);
+
+    const tpx: string[] = [];
+    if (record.temperature !== undefined) tpx.push(`<gpxtpx:atemp>${record.temperature}</gpxtpx:atemp>`);
+    if (record.heartRate !== undefined) tpx.push(`<gpxtpx:hr>${Math.round(record.heartRate)}</gpxtpx:hr>`);
+    if (record.cadence !== undefined) tpx.push(`<gpxtpx:cad>${Math.round(record.cadence)}</gpxtpx:cad>`);
+    if (record.power !== undefined || tpx.length) {
+      lines.push("        <extensions>");
+      if (record.power !== undefined) lines.push(`          <power>${Math.round(record.power)}</power>`);
+      if (tpx.length) {
+        lines.push("          <gpxtpx:TrackPointExtension>");
+        lines.push(...tpx.map((t) => `            ${t}`));
+        lines.push("          </gpxtpx:TrackPointExtension>");
+      }
+      lines.push("        </extensions>");
+    }
+    lines.push("      </trkpt>");
+  });
+
+  lines.push("    </trkseg>", "  </trk>", "</gpx>");
+  return lines.join("\n") + "\n";
+}
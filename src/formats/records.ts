@@ -0,0 +1,214 @@
+import type { StreamSeries, TypedActivityStreams } from "../schemas/activity";
+
+/**
+ * One sample of a recorded activity, shared by the FIT, GPX and TCX readers and
+ * writers. Positions are in degrees, altitude and distance in meters, speed in
+ * m/s and temperature in °C.
+ */
+export type ActivityRecord = {
+  timestamp?: Date;
+  positionLat?: number;
+  positionLong?: number;
+  altitude?: number;
+  heartRate?: number;
+  cadence?: number;
+  fractionalCadence?: number;
+  distance?: number;
+  speed?: number;
+  power?: number;
+  temperature?: number;
+};
+
+/** An `ActivityRecord` with the timestamp the activity writers require */
+export type TimedActivityRecord = ActivityRecord & { timestamp: Date };
+
+/**
+ * Lap totals computed from records. Names match the FIT lap message so the
+ * result can be merged into `FitLap` or written as a TCX lap.
+ */
+export type RecordSummary = {
+  startTime: Date;
+  timestamp: Date;
+  totalElapsedTime: number;
+  totalTimerTime: number;
+  totalDistance?: number;
+  avgSpeed?: number;
+  maxSpeed?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  avgCadence?: number;
+  maxCadence?: number;
+  avgPower?: number;
+  maxPower?: number;
+  startPositionLat?: number;
+  startPositionLong?: number;
+  endPositionLat?: number;
+  endPositionLong?: number;
+};
+
+function average(values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length ? defined.reduce((a, b) => a + b, 0) / defined.length : undefined;
+}
+
+function maximum(values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length ? defined.reduce((a, b) => Math.max(a, b)) : undefined;
+}
+
+function round(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value);
+}
+
+/** `value` without its undefined keys, so spreading it can't unset anything */
+export function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * Totals for a span of records. Elapsed and timer time are equal since records
+ * carry no pause information. Fields without data are omitted.
+ */
+export function summarizeRecords(
+  records: ActivityRecord[],
+  start: Date,
+  end: Date
+): RecordSummary {
+  const first = records[0];
+  const last = records[records.length - 1];
+  const elapsed = (end.getTime() - start.getTime()) / 1000;
+  const distances = records.map((r) => r.distance).filter((d): d is number => d !== undefined);
+  const totalDistance = distances.length ? distances[distances.length - 1]! - distances[0]! : undefined;
+
+  return withoutUndefined({
+    startTime: start,
+    timestamp: end,
+    totalElapsedTime: elapsed,
+    totalTimerTime: elapsed,
+    totalDistance,
+    avgSpeed:
+      totalDistance !== undefined && elapsed > 0
+        ? totalDistance / elapsed
+        : average(records.map((r) => r.speed)),
+    maxSpeed: maximum(records.map((r) => r.speed)),
+    avgHeartRate: round(average(records.map((r) => r.heartRate))),
+    maxHeartRate: maximum(records.map((r) => r.heartRate)),
+    avgCadence: round(average(records.map((r) => r.cadence))),
+    maxCadence: maximum(records.map((r) => r.cadence)),
+    avgPower: round(average(records.map((r) => r.power))),
+    maxPower: maximum(records.map((r) => r.power)),
+    startPositionLat: first?.positionLat,
+    startPositionLong: first?.positionLong,
+    endPositionLat: last?.positionLat,
+    endPositionLong: last?.positionLong,
+  }) as RecordSummary;
+}
+
+/**
+ * Check that records have timestamps in non-decreasing order.
+ * @throws Error naming the first offending record
+ */
+/** A record the activity writers can't use; `path` points at the offending field */
+export class RecordError extends Error {
+  constructor(
+    message: string,
+    readonly path: string
+  ) {
+    super(message);
+  }
+}
+
+export function assertTimedRecords(
+  records: ActivityRecord[]
+): asserts records is TimedActivityRecord[] {
+  records.forEach((record, i) => {
+    if (!(record.timestamp instanceof Date) || Number.isNaN(record.timestamp.getTime())) {
+      throw new RecordError(`records[${i}].timestamp must be a Date`, `records[${i}].timestamp`);
+    }
+    const previous = records[i - 1]?.timestamp;
+    if (previous && record.timestamp < previous) {
+      throw new RecordError(`records[${i}].timestamp is before the previous record`, `records[${i}].timestamp`);
+    }
+  });
+}
+
+/**
+ * Split records into laps by start time. Each lap ends where the next one starts;
+ * the last lap runs to (and includes) the final record.
+ */
+export function splitRecordsByLap<L extends { startTime: Date }>(
+  records: TimedActivityRecord[],
+  laps: L[]
+): { lap: L; end: Date; records: TimedActivityRecord[] }[] {
+  const sorted = [...laps].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const end = records[records.length - 1]?.timestamp ?? sorted[sorted.length - 1]?.startTime;
+
+  return sorted.map((lap, i) => {
+    const next = sorted[i + 1]?.startTime;
+    const lapEnd = next ?? end ?? lap.startTime;
+    return {
+      lap,
+      end: lapEnd,
+      records: records.filter(
+        (r) => r.timestamp >= lap.startTime && (next ? r.timestamp < next : r.timestamp <= lapEnd)
+      ),
+    };
+  });
+}
+
+function series<T>(type: string, data: T[]): StreamSeries<T> {
+  return { type, data, anomalies: [], allNull: data.every((v) => v == null), custom: false };
+}
+
+/**
+ * Convert records to the typed stream model used by `getTypedStreams`, so
+ * `alignStreams` and `sliceStreams` work on downloaded or parsed files. `time`
+ * is seconds since the first timestamped record (the index when there are no
+ * timestamps); streams with no values are omitted.
+ */
+export function recordsToStreams(records: ActivityRecord[]): TypedActivityStreams {
+  const streams: TypedActivityStreams = { others: {} };
+  if (records.length === 0) return streams;
+
+  const start = records.find((r) => r.timestamp)?.timestamp?.getTime();
+  streams.time = series(
+    "time",
+    records.map((r, i) =>
+      start !== undefined && r.timestamp ? Math.round((r.timestamp.getTime() - start) / 1000) : i
+    )
+  );
+
+  const pick = (get: (r: ActivityRecord) => number | undefined) => records.map((r) => get(r) ?? null);
+  const add = (
+    key: "watts" | "heartrate" | "cadence" | "distance" | "altitude" | "velocitySmooth" | "temp",
+    type: string,
+    data: (number | null)[]
+  ) => {
+    if (data.some((v) => v !== null)) streams[key] = series(type, data);
+  };
+
+  add("watts", "watts", pick((r) => r.power));
+  add("heartrate", "heartrate", pick((r) => r.heartRate));
+  add("cadence", "cadence", pick((r) => r.cadence));
+  add("distance", "distance", pick((r) => r.distance));
+  add("altitude", "altitude", pick((r) => r.altitude));
+  add("velocitySmooth", "velocity_smooth", pick((r) => r.speed));
+  add("temp", "temp", pick((r) => r.temperature));
+
+  const latlng = records.map((r): [number, number] | null =>
+    r.positionLat !== undefined && r.positionLong !== undefined ? [r.positionLat, r.positionLong] : null
+  );
+  if (latlng.some((v) => v !== null)) streams.latlng = series("latlng", latlng);
+
+  return streams;
+}
+
+/**
+ * Error reading a GPX or TCX file. `path` points at the offending element,
+ * e.g. `trk[0].trkseg[0].trkpt[12]`.
+ */
+export type ActivityFileError = {
+  format: "gpx" | "tcx";
+  message: string;
+  path?: string;
+};
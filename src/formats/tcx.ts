@@ -0,0 +1,297 @@
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import {
+  assertTimedRecords,
+  splitRecordsByLap,
+  summarizeRecords,
+  withoutUndefined,
+  type ActivityFileError,
+  type ActivityRecord,
+  type TimedActivityRecord,
+} from "./records";
+import { child, childrenNamed, escapeXml, localName, parseXml, type XmlElement } from "./xml";
+
+/**
+ * A TCX lap. Totals use the FIT lap field names, so a lap can be passed to
+ * `encodeFit` as-is.
+ */
+export type TcxLap = {
+  startTime: Date;
+  totalTimerTime?: number;
+  totalDistance?: number;
+  maxSpeed?: number;
+  totalCalories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  avgCadence?: number;
+  avgSpeed?: number;
+  avgPower?: number;
+  maxPower?: number;
+  /** `Active` or `Resting` */
+  intensity?: string;
+  /** `Manual`, `Distance`, `Location`, `Time` or `HeartRate` */
+  triggerMethod?: string;
+  records: ActivityRecord[];
+};
+
+export type TcxActivity = {
+  /** `Biking`, `Running` or `Other` */
+  sport: string;
+  id?: Date;
+  laps: TcxLap[];
+};
+
+export type TcxFile = {
+  activities: TcxActivity[];
+};
+
+export type TcxWriteInput = {
+  records: TimedActivityRecord[];
+  /** Default: `Biking` */
+  sport?: "Biking" | "Running" | "Other";
+  /** Lap start times and optional totals; default: one lap. Totals not given are computed. */
+  laps?: (Partial<Omit<TcxLap, "records">> & { startTime: Date })[];
+};
+
+const TCX_NS = "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2";
+const ACTIVITY_EXTENSION_NS = "http://www.garmin.com/xmlschemas/ActivityExtension/v2";
+
+class TcxError extends Error {
+  constructor(
+    message: string,
+    readonly path?: string
+  ) {
+    super(message);
+  }
+}
+
+function text(element: XmlElement | undefined, ...names: string[]): string | undefined {
+  let current = element;
+  for (const name of names) current = current && child(current, name);
+  return current?.text || undefined;
+}
+
+function parseNumber(value: string | undefined, what: string, path: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new TcxError(`Invalid ${what} "${value}"`, path);
+  return n;
+}
+
+function parseDate(value: string | undefined, path: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new TcxError(`Invalid time "${value}"`, path);
+  return date;
+}
+
+function readTrackpoint(element: XmlElement, path: string): ActivityRecord {
+  const record: ActivityRecord = {};
+  const set = <K extends keyof ActivityRecord>(key: K, value: ActivityRecord[K] | undefined) => {
+    if (value !== undefined) record[key] = value;
+  };
+
+  set("timestamp", parseDate(text(element, "Time"), path));
+  const position = child(element, "Position");
+  if (position) {
+    const lat = parseNumber(text(position, "LatitudeDegrees"), "latitude", path);
+    const lon = parseNumber(text(position, "LongitudeDegrees"), "longitude", path);
+    if (lat === undefined || lon === undefined) throw new TcxError("Incomplete position", path);
+    if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+      throw new TcxError(`Position ${lat},${lon} is out of range`, path);
+    }
+    record.positionLat = lat;
+    record.positionLong = lon;
+  }
+  set("altitude", parseNumber(text(element, "AltitudeMeters"), "altitude", path));
+  set("distance", parseNumber(text(element, "DistanceMeters"), "distance", path));
+  set("heartRate", parseNumber(text(element, "HeartRateBpm", "Value"), "heart rate", path));
+  set("cadence", parseNumber(text(element, "Cadence"), "cadence", path));
+
+  const extensions = child(element, "Extensions");
+  const tpx = extensions && child(extensions, "TPX");
+  if (tpx) {
+    set("speed", parseNumber(text(tpx, "Speed"), "speed", path));
+    set("power", parseNumber(text(tpx, "Watts"), "power", path));
+    if (record.cadence === undefined) {
+      set("cadence", parseNumber(text(tpx, "RunCadence"), "cadence", path));
+    }
+  }
+  return record;
+}
+
+function readLap(element: XmlElement, path: string): TcxLap {
+  const startTime = parseDate(element.attributes.StartTime, path);
+  if (!startTime) throw new TcxError("Lap is missing StartTime", path);
+
+  const lap: TcxLap = { startTime, records: [] };
+  const set = <K extends keyof TcxLap>(key: K, value: TcxLap[K] | undefined) => {
+    if (value !== undefined) lap[key] = value;
+  };
+  set("totalTimerTime", parseNumber(text(element, "TotalTimeSeconds"), "TotalTimeSeconds", path));
+  set("totalDistance", parseNumber(text(element, "DistanceMeters"), "DistanceMeters", path));
+  set("maxSpeed", parseNumber(text(element, "MaximumSpeed"), "MaximumSpeed", path));
+  set("totalCalories", parseNumber(text(element, "Calories"), "Calories", path));
+  set("avgHeartRate", parseNumber(text(element, "AverageHeartRateBpm", "Value"), "AverageHeartRateBpm", path));
+  set("maxHeartRate", parseNumber(text(element, "MaximumHeartRateBpm", "Value"), "MaximumHeartRateBpm", path));
+  set("avgCadence", parseNumber(text(element, "Cadence"), "Cadence", path));
+  set("intensity", text(element, "Intensity"));
+  set("triggerMethod", text(element, "TriggerMethod"));
+
+  const extensions = child(element, "Extensions");
+  const lapExtension = extensions && child(extensions, "LX");
+  if (lapExtension) {
+    set("avgSpeed", parseNumber(text(lapExtension, "AvgSpeed"), "AvgSpeed", path));
+    set("avgPower", parseNumber(text(lapExtension, "AvgWatts"), "AvgWatts", path));
+    set("maxPower", parseNumber(text(lapExtension, "MaxWatts"), "MaxWatts", path));
+  }
+
+  childrenNamed(element, "Track").forEach((track, t) => {
+    childrenNamed(track, "Trackpoint").forEach((point, p) => {
+      lap.records.push(readTrackpoint(point, `${path}.Track[${t}].Trackpoint[${p}]`));
+    });
+  });
+  return lap;
+}
+
+/**
+ * Parse a TCX (Training Center XML) file into activities, laps and records.
+ * Speed, power and run cadence are read from the `ActivityExtension/v2` TPX
+ * element; lap power from LX.
+ */
+export function parseTcx(source: string | ArrayBuffer | Uint8Array): Result<TcxFile, ActivityFileError> {
+  try {
+    const xml = typeof source === "string" ? source : new TextDecoder().decode(source);
+    const root = parseXml(xml);
+    if (localName(root) !== "TrainingCenterDatabase") {
+      throw new TcxError("Expected <TrainingCenterDatabase> root element");
+    }
+
+    const activities = child(root, "Activities");
+    const file: TcxFile = { activities: [] };
+    childrenNamed(activities ?? root, "Activity").forEach((element, a) => {
+      const path = `Activity[${a}]`;
+      const activity: TcxActivity = {
+        sport: element.attributes.Sport ?? "Other",
+        laps: childrenNamed(element, "Lap").map((lap, l) => readLap(lap, `${path}.Lap[${l}]`)),
+      };
+      const id = parseDate(text(element, "Id"), path);
+      if (id) activity.id = id;
+      file.activities.push(activity);
+    });
+    return ok(file);
+  } catch (e) {
+    const error: ActivityFileError = { format: "tcx", message: e instanceof Error ? e.message : String(e) };
+    if (e instanceof TcxError && e.path) error.path = e.path;
+    return err(error);
+  }
+}
+
+/**
+ * All records of a TCX file in order.
+ */
+export function tcxRecords(tcx: TcxFile): ActivityRecord[] {
+  return tcx.activities.flatMap((activity) => activity.laps.flatMap((lap) => lap.records));
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().replace(/\.000Z$/, "Z");
+}
+
+function num(value: number, digits = 2): string {
+  return Number(value.toFixed(digits)).toString();
+}
+
+/**
+ * Write records as a single-activity TCX file with per-lap totals and
+ * `ActivityExtension/v2` speed and power. Unlike GPX, positions are optional,
+ * so indoor activities can be written too. Returns an error if there are no
+ * records, or a record is missing its timestamp or is out of order.
+ */
+export function formatTcx(input: TcxWriteInput): Result<string, ActivityFileError> {
+  try {
+    return ok(writeTcx(input));
+  } catch (e) {
+    const error: ActivityFileError = { format: "tcx", message: e instanceof Error ? e.message : String(e) };
+    if (e instanceof TcxError && e.path) error.path = e.path;
+    return err(error);
+  }
+}
+
+function writeTcx(input: TcxWriteInput): string {
+  const { records } = input;
+  if (records.length === 0) throw new TcxError("TCX activity needs at least one record");
+  assertTimedRecords(records);
+
+  const start = records[0]!.timestamp;
+  const laps = splitRecordsByLap(records, input.laps ?? [{ startTime: start }]);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<TrainingCenterDatabase xmlns="${TCX_NS}" xmlns:ns3="${ACTIVITY_EXTENSION_NS}">`,
+    "  <Activities>",
+    `    <Activity Sport="${input.sport ?? "Biking"}">`,
+    `      <Id>${formatTime(start)}</Id>`,
+  ];
+
+  laps.forEach(({ lap, end, records: lapRecords }) => {
+    const totals = { ...summarizeRecords(lapRecords, lap.startTime, end), ...withoutUndefined(lap) };
+    const indent = "        ";
+    lines.push(`      <Lap StartTime="${formatTime(lap.startTime)}">`);
+    lines.push(`${indent}<TotalTimeSeconds>${num(totals.totalTimerTime)}</TotalTimeSeconds>`);
+    if (totals.totalDistance !== undefined) {
+      lines.push(`${indent}<DistanceMeters>${num(totals.totalDistance)}</DistanceMeters>`);
+    }
+    if (totals.maxSpeed !== undefined) lines.push(`${indent}<MaximumSpeed>${num(totals.maxSpeed, 3)}</MaximumSpeed>`);
+    lines.push(`${indent}<Calories>${Math.round(lap.totalCalories ?? 0)}</Calories>`);
+    if (totals.avgHeartRate !== undefined) {
+      lines.push(`${indent}<AverageHeartRateBpm><Value>${Math.round(totals.avgHeartRate)}</Value></AverageHeartRateBpm>`);
+    }
+    if (totals.maxHeartRate !== undefined) {
+      lines.push(`${indent}<MaximumHeartRateBpm><Value>${Math.round(totals.maxHeartRate)}</Value></MaximumHeartRateBpm>`);
+    }
+    lines.push(`${indent}<Intensity>${escapeXml(lap.intensity ?? "Active")}</Intensity>`);
+    if (totals.avgCadence !== undefined) lines.push(`${indent}<Cadence>${Math.round(totals.avgCadence)}</Cadence>`);
+    lines.push(`${indent}<TriggerMethod>${escapeXml(lap.triggerMethod ?? "Manual")}</TriggerMethod>`);
+
+    lines.push(`${indent}<Track>`);
+    for (const record of lapRecords) lines.push(...trackpoint(record, `${indent}  `));
+    lines.push(`${indent}</Track>`);
+
+    const lx: string[] = [];
+    if (totals.avgSpeed !== undefined) lx.push(`<ns3:AvgSpeed>${num(totals.avgSpeed, 3)}</ns3:AvgSpeed>`);
+    if (totals.avgPower !== undefined) lx.push(`<ns3:AvgWatts>${Math.round(totals.avgPower)}</ns3:AvgWatts>`);
+    if (totals.maxPower !== undefined) lx.push(`<ns3:MaxWatts>${Math.round(totals.maxPower)}</ns3:MaxWatts>`);
+    if (lx.length) {
+      lines.push(`${indent}<Extensions><ns3:LX>${lx.join("")}</ns3:LX></Extensions>`);
+    }
+    lines.push("      </Lap>");
+  });
+
+  lines.push("    </Activity>", "  </Activities>", "</TrainingCenterDatabase>");
+  return lines.join("\n") + "\n";
+}
+
+function trackpoint(record: TimedActivityRecord, indent: string): string[] {
+  const inner = `${indent}  `;
+  const lines = [`${indent}<Trackpoint>`, `${inner}<Time>${formatTime(record.timestamp)}</Time>`];
+  if (record.positionLat !== undefined && record.positionLong !== undefined) {
+    lines.push(
+      `${inner}<Position><LatitudeDegrees>${num(record.positionLat, 7)}</LatitudeDegrees>` +
+        `<LongitudeDegrees>${num(record.positionLong, 7)}</LongitudeDegrees></Position>`
+    );
+  }
+  if (record.altitude !== undefined) lines.push(`${inner}<AltitudeMeters>${num(record.altitude)}</AltitudeMeters>`);
+  if (record.distance !== undefined) lines.push(`${inner}<DistanceMeters>${num(record.distance)}</DistanceMeters>`);
+  if (record.heartRate !== undefined) {
+    lines.push(`${inner}<HeartRateBpm><Value>${Math.round(record.heartRate)}</Value></HeartRateBpm>`);
+  }
+  if (record.cadence !== undefined) lines.push(`${inner}<Cadence>${Math.round(record.cadence)}</Cadence>`);
+
+  const tpx: string[] = [];
+  if (record.speed !== undefined) tpx.push(`<ns3:Speed>${num(record.speed, 3)}</ns3:Speed>`);
+  if (record.power !== undefined) tpx.push(`<ns3:Watts>${Math.round(record.power)}</ns3:Watts>`);
+  if (tpx.length) lines.push(`${inner}<Extensions><ns3:TPX>${tpx.join("")}</ns3:TPX></Extensions>`);
+
+  lines.push(`${indent}</Trackpoint>`);
+  return lines;
+}
@@ -0,0 +1,475 @@
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import type {
+  WorkoutDoc,
+  WorkoutStep,
+  WorkoutTarget,
+} from "../schemas/workout";
+import { isWorkoutRepeat } from "../schemas/workout";
+import { child, escapeXml, parseXml, type XmlElement } from "./xml";
+
+export type WorkoutFileFormat = "zwo" | "mrc" | "erg";
+
+/**
+ * Error reading or writing a workout file. `line` is set when reading the
+ * line-based MRC/ERG formats.
+ */
+export type WorkoutFileError = {
+  format: WorkoutFileFormat;
+  message: string;
+  line?: number;
+};
+
+export type WorkoutFileOptions = {
+  /**
+   * Athlete FTP in watts (e.g. `ftp` from `AthletesResource.getProfile`).
+   * Needed to convert between absolute watts and % of FTP; falls back to `doc.ftp`.
+   */
+  ftp?: number;
+  /** Workout name written to the file (ZWO `<name>`, MRC/ERG `FILE NAME`) */
+  name?: string;
+  /** ZWO `<author>` */
+  author?: string;
+  /** ZWO `<sportType>` (default: bike) */
+  sportType?: "bike" | "run";
+};
+
+type Segment = {
+  step: WorkoutStep;
+  duration: number;
+  /** Power at the start and end of the segment as % of FTP */
+  from: number;
+  to: number;
+};
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function stepLabel(step: WorkoutStep): string {
+  return step.text ? `"${step.text}"` : "step";
+}
+
+function requireDuration(step: WorkoutStep): number {
+  if (step.duration == null) {
+    throw new Error(`Cannot convert ${stepLabel(step)}: trainer files need a duration, not a distance`);
+  }
+  return step.duration;
+}
+
+function toPercentFtp(
+  value: number,
+  target: WorkoutTarget,
+  step: WorkoutStep,
+  ftp: number | undefined
+): number {
+  if (target.units === "%ftp") return value;
+  if (target.units === "w") {
+    if (!ftp) throw new Error(`Cannot convert watts in ${stepLabel(step)} without an FTP`);
+    return (value / ftp) * 100;
+  }
+  throw new Error(
+    `Cannot convert ${stepLabel(step)}: power units "${String(target.units)}" are not supported`
+  );
+}
+
+/**
+ * Resolve a step's power target to a start/end pair in % of FTP.
+ * Ranges on non-ramp steps resolve to their midpoint.
+ */
+function powerRange(
+  step: WorkoutStep,
+  ftp: number | undefined
+): { from: number; to: number } | undefined {
+  const target = step.power;
+  if (!target) return undefined;
+
+  if (target.start != null && target.end != null) {
+    const from = toPercentFtp(target.start, target, step, ftp);
+    const to = toPercentFtp(target.end, target, step, ftp);
+    return step.ramp ? { from, to } : { from: (from + to) / 2, to: (from + to) / 2 };
+  }
+  const value = target.value ?? target.start ?? target.end;
+  if (value == null) return undefined;
+  const pct = toPercentFtp(value, target, step, ftp);
+  return { from: pct, to: pct };
+}
+
+function flatten(steps: WorkoutStep[]): WorkoutStep[] {
+  return steps.flatMap((step) =>
+    isWorkoutRepeat(step)
+      ? Array.from({ length: step.reps }, () => flatten(step.steps)).flat()
+      : [step]
+  );
+}
+
+/** Run a writer that throws on workouts the format can't express, as a Result */
+function writeFile(format: WorkoutFileFormat, write: () => string): Result<string, WorkoutFileError> {
+  try {
+    return ok(write());
+  } catch (e) {
+    return err({ format, message: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+function toSegments(doc: WorkoutDoc, ftp: number | undefined): Segment[] {
+  return flatten(doc.steps ?? []).map((step) => {
+    const duration = requireDuration(step);
+    const power = powerRange(step, ftp);
+    if (!power) {
+      throw new Error(`Cannot convert ${stepLabel(step)}: MRC/ERG steps need a power target`);
+    }
+    return { step, duration, ...power };
+  });
+}
+
+// ============================================================================
+// ZWO (Zwift workout XML)
+// ============================================================================
+
+function ratio(pct: number): string {
+  return round(pct / 100, 4).toString();
+}
+
+function cadenceAttr(step: WorkoutStep, name = "Cadence"): string {
+  const cadence = step.cadence?.value ?? step.cadence?.start;
+  return cadence != null ? ` ${name}="${cadence}"` : "";
+}
+
+function textEvents(step: WorkoutStep, indent: string): string[] {
+  return step.text
+    ? [`${indent}<textevent timeoffset="0" message="${escapeXml(step.text)}"/>`]
+    : [];
+}
+
+function zwoElement(tag: string, attrs: string, step: WorkoutStep, indent: string): string {
+  const events = textEvents(step, `${indent}    `);
+  return events.length
+    ? [`${indent}<${tag} ${attrs}>`, ...events, `${indent}</${tag}>`].join("\n")
+    : `${indent}<${tag} ${attrs}/>`;
+}
+
+function zwoStep(step: WorkoutStep, ftp: number | undefined, indent: string): string[] {
+  if (isWorkoutRepeat(step)) {
+    const [on, off] = step.steps;
+    if (step.steps.length === 2 && on && off && !isWorkoutRepeat(on) && !isWorkoutRepeat(off)) {
+      const onPower = powerRange(on, ftp);
+      const offPower = powerRange(off, ftp);
+      if (onPower && offPower && !on.ramp && !off.ramp) {
+        const attrs =
+          `Repeat="${step.reps}" OnDuration="${requireDuration(on)}" OffDuration="${requireDuration(off)}" ` +
+          `OnPower="${ratio(onPower.from)}" OffPower="${ratio(offPower.from)}"` +
+          cadenceAttr(on) +
+          cadenceAttr(off, "CadenceResting");
+        return [zwoElement("IntervalsT", attrs, { text: step.text ?? on.text }, indent)];
+      }
+    }
+    return Array.from({ length: step.reps }, () =>
+      step.steps.flatMap((s) => zwoStep(s, ftp, indent))
+    ).flat();
+  }
+
+  const duration = requireDuration(step);
+  if (step.freeride) {
+    return [zwoElement("FreeRide", `Duration="${duration}" FlatRoad="1"${cadenceAttr(step)}`, step, indent)];
+  }
+  if (step.maxeffort) {
+    return [zwoElement("MaxEffort", `Duration="${duration}"`, step, indent)];
+  }
+
+  const power = powerRange(step, ftp);
+  if (!power) {
+    throw new Error(`Cannot convert ${stepLabel(step)}: ZWO steps need a power target`);
+  }
+  if (step.ramp || step.warmup || step.cooldown) {
+    const tag = step.warmup ? "Warmup" : step.cooldown ? "Cooldown" : "Ramp";
+    const attrs = `Duration="${duration}" PowerLow="${ratio(power.from)}" PowerHigh="${ratio(power.to)}"${cadenceAttr(step)}`;
+    return [zwoElement(tag, attrs, step, indent)];
+  }
+  return [
+    zwoElement("SteadyState", `Duration="${duration}" Power="${ratio(power.from)}"${cadenceAttr(step)}`, step, indent),
+  ];
+}
+
+/**
+ * Write a structured workout as a Zwift `.zwo` file.
+ * Power targets are written as a fraction of FTP; repeats of exactly two
+ * steady steps become `IntervalsT`, other repeats are unrolled. Returns an
+ * error if a step has no duration, no power target, or uses watts without an FTP.
+ */
+export function formatZwo(doc: WorkoutDoc, options: WorkoutFileOptions = {}): Result<string, WorkoutFileError> {
+  return writeFile("zwo", () => writeZwo(doc, options));
+}
+
+function writeZwo(doc: WorkoutDoc, options: WorkoutFileOptions): string {
+  const ftp = options.ftp ?? doc.ftp ?? undefined;
+  const lines = ["<workout_file>"];
+  if (options.author) lines.push(`    <author>${escapeXml(options.author)}</author>`);
+  lines.push(`    <name>${escapeXml(options.name ?? "")}</name>`);
+  lines.push(`    <description>${escapeXml(doc.description ?? "")}</description>`);
+  lines.push(`    <sportType>${options.sportType ?? "bike"}</sportType>`);
+  lines.push("    <workout>");
+  for (const step of doc.steps ?? []) lines.push(...zwoStep(step, ftp, "        "));
+  lines.push("    </workout>");
+  lines.push("</workout_file>");
+  return lines.join("\n") + "\n";
+}
+
+function numberAttr(element: XmlElement, name: string): number | undefined {
+  const value = element.attributes[name];
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new Error(`<${element.name}> ${name}="${value}" is not a number`);
+  return n;
+}
+
+function requiredAttr(element: XmlElement, name: string): number {
+  const n = numberAttr(element, name);
+  if (n === undefined) throw new Error(`<${element.name}> is missing ${name}`);
+  return n;
+}
+
+function pct(value: number): number {
+  return round(value * 100);
+}
+
+function withCadence(step: WorkoutStep, cadence: number | undefined): WorkoutStep {
+  return cadence !== undefined ? { ...step, cadence: { value: cadence, units: "rpm" } } : step;
+}
+
+function withText(step: WorkoutStep, element: XmlElement): WorkoutStep {
+  const message = element.children.find((c) => c.name === "textevent")?.attributes.message;
+  return message ? { text: message, ...step } : step;
+}
+
+function readZwoElement(element: XmlElement): WorkoutStep {
+  const cadence = numberAttr(element, "Cadence");
+  switch (element.name) {
+    case "SteadyState":
+      return withText(
+        withCadence(
+          { duration: requiredAttr(element, "Duration"), power: { value: pct(requiredAttr(element, "Power")), units: "%ftp" } },
+          cadence
+        ),
+        element
+      );
+    case "Warmup":
+    case "Cooldown":
+    case "Ramp": {
+      const step: WorkoutStep = {
+        duration: requiredAttr(element, "Duration"),
+        ramp: true,
+        power: {
+          start: pct(requiredAttr(element, "PowerLow")),
+          end: pct(requiredAttr(element, "PowerHigh")),
+          units: "%ftp",
+        },
+      };
+      if (element.name === "Warmup") step.warmup = true;
+      if (element.name === "Cooldown") step.cooldown = true;
+      return withText(withCadence(step, cadence), element);
+    }
+    case "IntervalsT": {
+      const on = withCadence(
+        { duration: requiredAttr(element, "OnDuration"), power: { value: pct(requiredAttr(element, "OnPower")), units: "%ftp" } },
+        cadence
+      );
+      const off = withCadence(
+        { duration: requiredAttr(element, "OffDuration"), power: { value: pct(requiredAttr(element, "OffPower")), units: "%ftp" } },
+        numberAttr(element, "CadenceResting")
+      );
+      return { reps: requiredAttr(element, "Repeat"), steps: [withText(on, element), off] };
+    }
+    case "FreeRide":
+      return withText(withCadence({ duration: requiredAttr(element, "Duration"), freeride: true }, cadence), element);
+    case "MaxEffort":
+      return withText({ duration: requiredAttr(element, "Duration"), maxeffort: true }, element);
+    default:
+      throw new Error(`Unsupported ZWO element <${element.name}>`);
+  }
+}
+
+/**
+ * Read a Zwift `.zwo` file into a structured workout with power as % of FTP.
+ */
+export function parseZwo(xml: string): Result<WorkoutDoc, WorkoutFileError> {
+  try {
+    const root = parseXml(xml);
+    if (root.name !== "workout_file") throw new Error("Expected <workout_file> root element");
+    const workout = child(root, "workout");
+    if (!workout) throw new Error("Missing <workout> element");
+
+    const doc: WorkoutDoc = { steps: workout.children.map(readZwoElement) };
+    const description = child(root, "description")?.text;
+    if (description) doc.description = description;
+    return ok(doc);
+  } catch (e) {
+    return err({ format: "zwo", message: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+// ============================================================================
+// MRC / ERG (course files: minutes vs % of FTP or watts)
+// ============================================================================
+
+function formatCourse(
+  doc: WorkoutDoc,
+  options: WorkoutFileOptions,
+  format: "mrc" | "erg"
+): string {
+  const ftp = options.ftp ?? doc.ftp ?? undefined;
+  if (format === "erg" && !ftp) throw new Error("ERG files need an FTP");
+  const segments = toSegments(doc, ftp);
+  const value = (p: number) => (format === "erg" ? Math.round((p * ftp!) / 100).toString() : round(p).toFixed(2));
+
+  const lines = [
+    "[COURSE HEADER]",
+    "VERSION = 2",
+    "UNITS = ENGLISH",
+    `DESCRIPTION = ${(doc.description ?? "").replace(/\r?\n/g, " ")}`,
+    `FILE NAME = ${options.name ?? ""}`,
+  ];
+  if (format === "erg") lines.push(`FTP = ${ftp}`);
+  lines.push(format === "erg" ? "MINUTES WATTS" : "MINUTES PERCENT", "[END COURSE HEADER]", "[COURSE DATA]");
+
+  const texts: string[] = [];
+  let elapsed = 0;
+  for (const segment of segments) {
+    if (segment.step.text) texts.push(`${elapsed}\t${segment.step.text}\t10`);
+    lines.push(`${(elapsed / 60).toFixed(2)}\t${value(segment.from)}`);
+    elapsed += segment.duration;
+    lines.push(`${(elapsed / 60).toFixed(2)}\t${value(segment.to)}`);
+  }
+  lines.push("[END COURSE DATA]");
+
+  if (texts.length) lines.push("[COURSE TEXT]", ...texts, "[END COURSE TEXT]");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write a structured workout as an `.mrc` file (minutes vs % of FTP).
+ * Repeats are unrolled; ranges on non-ramp steps use their midpoint. Returns an
+ * error if a step has no duration, no power target, or uses watts without an FTP.
+ */
+export function formatMrc(doc: WorkoutDoc, options: WorkoutFileOptions = {}): Result<string, WorkoutFileError> {
+  return writeFile("mrc", () => formatCourse(doc, options, "mrc"));
+}
+
+/**
+ * Write a structured workout as an `.erg` file (minutes vs watts). Returns an
+ * error if no FTP is available, or a step has no duration or power target.
+ */
+export function formatErg(doc: WorkoutDoc, options: WorkoutFileOptions = {}): Result<string, WorkoutFileError> {
+  return writeFile("erg", () => formatCourse(doc, options, "erg"));
+}
+
+function parseCourse(
+  text: string,
+  format: "mrc" | "erg"
+): Result<WorkoutDoc, WorkoutFileError> {
+  const points: { line: number; seconds: number; value: number }[] = [];
+  const texts = new Map<number, string>();
+  const doc: WorkoutDoc = { steps: [] };
+  let section: string | undefined;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    if (!line) continue;
+
+    const sectionMatch = /^\[(END )?([A-Z ]+)\]$/i.exec(line);
+    if (sectionMatch) {
+      section = sectionMatch[1] ? undefined : sectionMatch[2]!.toUpperCase();
+      continue;
+    }
+
+    if (section === "COURSE HEADER") {
+      const [key, ...rest] = line.split("=");
+      const value = rest.join("=").trim();
+      const name = key!.trim().toUpperCase();
+      if (name === "DESCRIPTION" && value) doc.description = value;
+      if (name === "FTP" && value) doc.ftp = Number(value);
+    } else if (section === "COURSE DATA") {
+      const [minutes, value] = line.split(/\s+/).map(Number);
+      if (minutes === undefined || value === undefined || !Number.isFinite(minutes) || !Number.isFinite(value)) {
+        return err({ format, message: `Invalid course data "${line}"`, line: i + 1 });
+      }
+      const seconds = Math.round(minutes * 60);
+      const previous = points[points.length - 1];
+      if (previous && seconds < previous.seconds) {
+        return err({ format, message: "Course data times must not decrease", line: i + 1 });
+      }
+      points.push({ line: i + 1, seconds, value });
+    } else if (section === "COURSE TEXT") {
+      const [offset, message] = line.split("\t");
+      if (offset !== undefined && message) texts.set(Number(offset), message);
+    }
+  }
+
+  if (points.length < 2) {
+    return err({ format, message: "Course data needs at least two points" });
+  }
+
+  const units = format === "erg" ? "w" : "%ftp";
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!;
+    const b = points[i]!;
+    if (b.seconds === a.seconds) continue;
+
+    const step: WorkoutStep =
+      a.value === b.value
+        ? { duration: b.seconds - a.seconds, power: { value: a.value, units } }
+        : { duration: b.seconds - a.seconds, ramp: true, power: { start: a.value, end: b.value, units } };
+    const message = texts.get(a.seconds);
+    doc.steps!.push(message ? { text: message, ...step } : step);
+  }
+
+  return ok(doc);
+}
+
+/**
+ * Read an `.mrc` file into a structured workout with power as % of FTP.
+ */
+export function parseMrc(text: string): Result<WorkoutDoc, WorkoutFileError> {
+  return parseCourse(text, "mrc");
+}
+
+/**
+ * Read an `.erg` file into a structured workout with absolute watt targets.
+ * The file's `FTP` header, if present, is kept as `doc.ftp`.
+ */
+export function parseErg(text: string): Result<WorkoutDoc, WorkoutFileError> {
+  return parseCourse(text, "erg");
+}
+
+// ============================================================================
+// Dispatch by format
+// ============================================================================
+
+/**
+ * Write a structured workout in the given trainer file format. The result can be
+ * sent as `fileContents` in `EventInput` or a library workout. Returns an error if
+ * the workout cannot be expressed in the format (see `formatZwo`, `formatMrc`, `formatErg`).
+ */
+export function formatWorkoutFile(
+  doc: WorkoutDoc,
+  format: WorkoutFileFormat,
+  options: WorkoutFileOptions = {}
+): Result<string, WorkoutFileError> {
+  if (format === "zwo") return formatZwo(doc, options);
+  if (format === "mrc") return formatMrc(doc, options);
+  return formatErg(doc, options);
+}
+
+/**
+ * Read a trainer file (e.g. `fileContents` of an event) into a structured workout.
+ */
+export function parseWorkoutFile(
+  contents: string,
+  format: WorkoutFileFormat
+): Result<WorkoutDoc, WorkoutFileError> {
+  if (format === "zwo") return parseZwo(contents);
+  if (format === "mrc") return parseMrc(contents);
+  return parseErg(contents);
+}
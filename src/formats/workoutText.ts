@@ -0,0 +1,508 @@
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import type {
+  WorkoutDoc,
+  WorkoutStep,
+  WorkoutTarget,
+} from "../schemas/workout";
+import { isWorkoutRepeat } from "../schemas/workout";
+
+/**
+ * Syntax error in an Intervals.icu text workout. `line` and `column` are 1-based.
+ */
+export type WorkoutSyntaxError = {
+  line: number;
+  column: number;
+  message: string;
+};
+
+/**
+ * Syntax error for one item of a batch (e.g. the events passed to `createMultiple`).
+ */
+export type IndexedWorkoutSyntaxError = WorkoutSyntaxError & { index: number };
+
+/**
+ * A workout document that the text format cannot express, e.g. a target in units
+ * it has no syntax for.
+ */
+export type WorkoutFormatError = {
+  message: string;
+};
+
+type Token = { text: string; column: number };
+
+type TargetKind = "power" | "hr" | "pace" | "cadence";
+
+type ParsedTarget = { kind: TargetKind; target: WorkoutTarget; consumed: number };
+
+const NUM = String.raw`\d+(?:\.\d+)?`;
+const DURATION_RE = /^(?:(\d+)h)?(?:(\d+)(?:m|'))?(?:(\d+)(?:s|"))?$/i;
+const DISTANCE_RE = new RegExp(`^(${NUM})(km|mtr|mi|yd)$`, "i");
+const PERCENT_RE = new RegExp(`^(${NUM})(?:-(${NUM}))?%$`);
+const WATTS_RE = new RegExp(`^(${NUM})(?:-(${NUM}))?w$`, "i");
+const BPM_RE = new RegExp(`^(${NUM})(?:-(${NUM}))?bpm$`, "i");
+const RPM_RE = new RegExp(`^(${NUM})(?:-(${NUM}))?rpm$`, "i");
+const ZONE_RE = /^z(\d)(?:-z?(\d))?$/i;
+const PACE_RE = /^(\d+):(\d{2})(?:-(\d+):(\d{2}))?\/(km|mi|100m)$/i;
+const REPEAT_RE = /^(\d+)x$/i;
+const HEADER_REPEAT_RE = /(?:^|\s)(\d+)x\s*$/i;
+const WARMUP_RE = /^warm\s*-?\s*up$/i;
+const COOLDOWN_RE = /^cool\s*-?\s*down$/i;
+
+const DISTANCE_METERS: Record<string, number> = {
+  km: 1000,
+  mtr: 1,
+  mi: 1609.344,
+  yd: 0.9144,
+};
+
+const PACE_UNITS: Record<string, string> = {
+  km: "secs/km",
+  mi: "secs/mile",
+  "100m": "secs/100m",
+};
+
+function tokenize(line: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  const re = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(line)) !== null) {
+    tokens.push({ text: match[0], column: offset + match.index + 1 });
+  }
+  return tokens;
+}
+
+function range(lo: string, hi: string | undefined): WorkoutTarget {
+  return hi === undefined
+    ? { value: Number(lo) }
+    : { start: Number(lo), end: Number(hi) };
+}
+
+function parseDuration(text: string): number | undefined {
+  const match = DURATION_RE.exec(text);
+  if (!match || (!match[1] && !match[2] && !match[3])) return undefined;
+  return (
+    Number(match[1] ?? 0) * 3600 +
+    Number(match[2] ?? 0) * 60 +
+    Number(match[3] ?? 0)
+  );
+}
+
+function parseDistance(text: string): number | undefined {
+  const match = DISTANCE_RE.exec(text);
+  if (!match) return undefined;
+  const factor = DISTANCE_METERS[match[2]!.toLowerCase()]!;
+  return Math.round(Number(match[1]) * factor * 100) / 100;
+}
+
+function parseTarget(tokens: Token[], i: number): ParsedTarget | undefined {
+  const text = tokens[i]!.text;
+  const suffix = tokens[i + 1]?.text.toLowerCase();
+
+  let match = PERCENT_RE.exec(text);
+  if (match) {
+    const target = range(match[1]!, match[2]);
+    if (suffix === "lthr")
+      return { kind: "hr", target: { ...target, units: "%lthr" }, consumed: 2 };
+    if (suffix === "hr")
+      return { kind: "hr", target: { ...target, units: "%hr" }, consumed: 2 };
+    if (suffix === "pace")
+      return { kind: "pace", target: { ...target, units: "%pace" }, consumed: 2 };
+    return { kind: "power", target: { ...target, units: "%ftp" }, consumed: 1 };
+  }
+
+  match = ZONE_RE.exec(text);
+  if (match) {
+    const target = range(match[1]!, match[2]);
+    if (suffix === "hr")
+      return { kind: "hr", target: { ...target, units: "hr_zone" }, consumed: 2 };
+    if (suffix === "pace")
+      return { kind: "pace", target: { ...target, units: "pace_zone" }, consumed: 2 };
+    return { kind: "power", target: { ...target, units: "power_zone" }, consumed: 1 };
+  }
+
+  match = WATTS_RE.exec(text);
+  if (match)
+    return { kind: "power", target: { ...range(match[1]!, match[2]), units: "w" }, consumed: 1 };
+
+  match = BPM_RE.exec(text);
+  if (match)
+    return { kind: "hr", target: { ...range(match[1]!, match[2]), units: "bpm" }, consumed: 1 };
+
+  match = RPM_RE.exec(text);
+  if (match)
+    return { kind: "cadence", target: { ...range(match[1]!, match[2]), units: "rpm" }, consumed: 1 };
+
+  match = PACE_RE.exec(text);
+  if (match) {
+    const lo = String(Number(match[1]) * 60 + Number(match[2]));
+    const hi =
+      match[3] !== undefined
+        ? String(Number(match[3]) * 60 + Number(match[4]))
+        : undefined;
+    return {
+      kind: "pace",
+      target: { ...range(lo, hi), units: PACE_UNITS[match[5]!.toLowerCase()]! },
+      consumed: suffix === "pace" ? 2 : 1,
+    };
+  }
+
+  return undefined;
+}
+
+function isFlag(text: string): text is "ramp" | "freeride" | "maxeffort" {
+  return text === "ramp" || text === "freeride" || text === "maxeffort";
+}
+
+/**
+ * A `- ...` line without a duration, distance, target or flag: a markdown
+ * bullet in the notes rather than a step.
+ */
+function isNote(tokens: Token[]): boolean {
+  return tokens.every(
+    (token, i) =>
+      !(i === 0 && REPEAT_RE.test(token.text)) &&
+      parseDuration(token.text) === undefined &&
+      parseDistance(token.text) === undefined &&
+      parseTarget(tokens, i) === undefined &&
+      !isFlag(token.text.toLowerCase())
+  );
+}
+
+/**
+ * Whether the lines from `start` up to the next non-`-` line include a step,
+ * i.e. whether a header above them has steps to repeat.
+ */
+function hasStepLines(lines: string[], start: number): boolean {
+  for (const raw of lines.slice(start)) {
+    if (!raw.trim().startsWith("-")) return false;
+    const dash = raw.indexOf("-");
+    const tokens = tokenize(raw.slice(dash + 1), dash + 1);
+    if (!tokens.length || !isNote(tokens)) return true;
+  }
+  return false;
+}
+
+/**
+ * Parse the tokens of a single `- ...` step line. Words that aren't part of the
+ * step's duration, targets or flags, before or after them, are its text.
+ */
+function parseStep(
+  tokens: Token[],
+  line: number,
+  errors: WorkoutSyntaxError[]
+): WorkoutStep | undefined {
+  const step: WorkoutStep = {};
+  const text: string[] = [];
+  let i = 0;
+
+  const fail = (token: Token, message: string) => {
+    errors.push({ line, column: token.column, message });
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i]!;
+    const lower = token.text.toLowerCase();
+
+    const duration = parseDuration(token.text);
+    const distance = duration === undefined ? parseDistance(token.text) : undefined;
+    const target = duration === undefined && distance === undefined
+      ? parseTarget(tokens, i)
+      : undefined;
+
+    if (duration !== undefined || distance !== undefined) {
+      if (step.duration != null || step.distance != null) {
+        fail(token, `Step already has a ${step.duration != null ? "duration" : "distance"}`);
+        return undefined;
+      }
+      if (duration !== undefined) step.duration = duration;
+      else step.distance = distance;
+      i++;
+    } else if (target) {
+      if (step[target.kind] != null) {
+        fail(token, `Step already has a ${target.kind === "hr" ? "heart rate" : target.kind} target`);
+        return undefined;
+      }
+      step[target.kind] = target.target;
+      i += target.consumed;
+    } else if (isFlag(lower)) {
+      step[lower] = true;
+      i++;
+    } else {
+      text.push(token.text);
+      i++;
+    }
+  }
+
+  if (step.duration == null && step.distance == null) {
+    errors.push({
+      line,
+      column: tokens[0]?.column ?? 1,
+      message: "Step is missing a duration or distance",
+    });
+    return undefined;
+  }
+
+  return text.length ? { text: text.join(" "), ...step } : step;
+}
+
+/**
+ * Parse an Intervals.icu text workout (the `description` of a workout event or
+ * library workout) into a structured workout document.
+ *
+ * Lines starting with `-` are steps (`- 10m ramp 50-75%`, `- 5m 95-105% 90rpm`,
+ * `- 3m 55% easy spin`), unless they have no duration, distance, target or flag:
+ * those are notes (markdown bullets) and don't end the block they are in.
+ * A line ending in `Nx` (`Main set 3x`) above step lines, or a bare `Nx` line,
+ * opens a repeat block that lasts until the next blank line or header; `- 3x 5m 100%` repeats a single step. `Warmup` and
+ * `Cooldown` headers flag the steps below them. Notes and other lines are kept as
+ * the workout `description`.
+ */
+export function parseWorkoutText(
+  text: string
+): Result<WorkoutDoc, WorkoutSyntaxError[]> {
+  const errors: WorkoutSyntaxError[] = [];
+  const steps: WorkoutStep[] = [];
+  const description: string[] = [];
+
+  const repeatHeaders = new Map<WorkoutStep, WorkoutSyntaxError>();
+  let repeat: WorkoutStep | undefined;
+  let section: "warmup" | "cooldown" | undefined;
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+
+    if (!trimmed) {
+      repeat = undefined;
+      section = undefined;
+      return;
+    }
+
+    if (trimmed.startsWith("-")) {
+      const dash = raw.indexOf("-");
+      const tokens = tokenize(raw.slice(dash + 1), dash + 1);
+      if (tokens.length && isNote(tokens)) {
+        description.push(trimmed);
+        return;
+      }
+
+      // The block has a step line; if it fails to parse, that error is enough.
+      if (repeat) repeatHeaders.delete(repeat);
+      if (!tokens.length) {
+        errors.push({ line, column: dash + 1, message: "Empty step" });
+        return;
+      }
+
+      let reps: number | undefined;
+      const repeatMatch = REPEAT_RE.exec(tokens[0]!.text);
+      if (repeatMatch) {
+        reps = Number(repeatMatch[1]);
+        if (reps < 1) {
+          errors.push({ line, column: tokens[0]!.column, message: "Repeat count must be at least 1" });
+          return;
+        }
+        if (repeat) {
+          errors.push({ line, column: tokens[0]!.column, message: "Nested repeats are not supported" });
+          return;
+        }
+        tokens.shift();
+      }
+
+      const step = parseStep(tokens, line, errors);
+      if (!step) return;
+      if (section) step[section] = true;
+
+      const node: WorkoutStep = reps !== undefined ? { reps, steps: [step] } : step;
+      (repeat?.steps ?? steps).push(node);
+      return;
+    }
+
+    repeat = undefined;
+    section = undefined;
+
+    const headerMatch = HEADER_REPEAT_RE.exec(trimmed);
+    if (headerMatch && (REPEAT_RE.test(trimmed) || hasStepLines(lines, index + 1))) {
+      const reps = Number(headerMatch[1]);
+      if (reps < 1) {
+        errors.push({
+          line,
+          column: raw.indexOf(headerMatch[1]!) + 1,
+          message: "Repeat count must be at least 1",
+        });
+        return;
+      }
+      const label = trimmed.slice(0, trimmed.length - headerMatch[0].length).trim();
+      repeat = label ? { text: label, reps, steps: [] } : { reps, steps: [] };
+      repeatHeaders.set(repeat, {
+        line,
+        column: raw.search(/\S/) + 1,
+        message: "Repeat block has no steps",
+      });
+      steps.push(repeat);
+      return;
+    }
+
+    if (WARMUP_RE.test(trimmed)) section = "warmup";
+    else if (COOLDOWN_RE.test(trimmed)) section = "cooldown";
+    else description.push(trimmed);
+  });
+
+  for (const [block, header] of repeatHeaders) {
+    if (!block.steps?.length) errors.push(header);
+  }
+
+  if (errors.length) {
+    errors.sort((a, b) => a.line - b.line || a.column - b.column);
+    return err(errors);
+  }
+
+  const doc: WorkoutDoc = { steps };
+  if (description.length) doc.description = description.join("\n");
+  return ok(doc);
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatRange(target: WorkoutTarget, format: (n: number) => string): string {
+  if (target.start != null && target.end != null)
+    return `${format(target.start)}-${format(target.end)}`;
+  return format(target.value ?? target.start ?? target.end ?? 0);
+}
+
+function formatPace(secs: number): string {
+  const rounded = Math.round(secs);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+function formatDuration(secs: number): string {
+  const h = Math.floor(secs / 3600);
+  const m = Math.floor((secs % 3600) / 60);
+  const s = Math.round(secs % 60);
+  return `${h ? `${h}h` : ""}${m ? `${m}m` : ""}${s || (!h && !m) ? `${s}s` : ""}`;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${formatNumber(meters / 1000)}km` : `${formatNumber(meters)}mtr`;
+}
+
+/** Thrown while formatting and returned as a `WorkoutFormatError` */
+class TextFormatError extends Error {}
+
+function formatTarget(kind: TargetKind, target: WorkoutTarget): string {
+  switch (target.units) {
+    case "%ftp":
+      return `${formatRange(target, formatNumber)}%`;
+    case "w":
+      return `${formatRange(target, formatNumber)}w`;
+    case "power_zone":
+      return `Z${formatRange(target, formatNumber)}`;
+    case "%lthr":
+      return `${formatRange(target, formatNumber)}% LTHR`;
+    case "%hr":
+      return `${formatRange(target, formatNumber)}% HR`;
+    case "bpm":
+      return `${formatRange(target, formatNumber)}bpm`;
+    case "hr_zone":
+      return `Z${formatRange(target, formatNumber)} HR`;
+    case "%pace":
+      return `${formatRange(target, formatNumber)}% Pace`;
+    case "pace_zone":
+      return `Z${formatRange(target, formatNumber)} Pace`;
+    case "secs/km":
+      return `${formatRange(target, formatPace)}/km Pace`;
+    case "secs/mile":
+      return `${formatRange(target, formatPace)}/mi Pace`;
+    case "secs/100m":
+      return `${formatRange(target, formatPace)}/100m Pace`;
+    case "rpm":
+      return `${formatRange(target, formatNumber)}rpm`;
+    default:
+      throw new TextFormatError(`Cannot format ${kind} target with units "${String(target.units)}"`);
+  }
+}
+
+function formatStep(step: WorkoutStep): string {
+  const parts: string[] = [];
+  if (step.text) parts.push(step.text);
+  if (step.duration != null) parts.push(formatDuration(step.duration));
+  else if (step.distance != null) parts.push(formatDistance(step.distance));
+  if (step.ramp) parts.push("ramp");
+  if (step.freeride) parts.push("freeride");
+  if (step.maxeffort) parts.push("maxeffort");
+  for (const kind of ["power", "hr", "pace", "cadence"] as const) {
+    const target = step[kind];
+    if (target) parts.push(formatTarget(kind, target));
+  }
+  return `- ${parts.join(" ")}`;
+}
+
+function expandNested(steps: WorkoutStep[]): WorkoutStep[] {
+  return steps.flatMap((step) =>
+    isWorkoutRepeat(step)
+      ? Array.from({ length: step.reps }, () => expandNested(step.steps)).flat()
+      : [step]
+  );
+}
+
+/**
+ * Serialize a structured workout document to Intervals.icu text workout syntax.
+ * Repeat blocks nested inside other repeats are unrolled, since the text format
+ * only supports one level of repeats. Returns an error if a step target uses
+ * units the text format cannot express.
+ */
+export function formatWorkoutText(doc: WorkoutDoc): Result<string, WorkoutFormatError> {
+  try {
+    return ok(formatBlocks(doc));
+  } catch (e) {
+    if (e instanceof TextFormatError) return err({ message: e.message });
+    throw e;
+  }
+}
+
+function formatBlocks(doc: WorkoutDoc): string {
+  const blocks: string[][] = [];
+  let current: string[] | undefined;
+  let currentSection: "warmup" | "cooldown" | undefined;
+
+  const sectionOf = (step: WorkoutStep) =>
+    step.warmup ? "warmup" : step.cooldown ? "cooldown" : undefined;
+
+  for (const step of doc.steps ?? []) {
+    if (isWorkoutRepeat(step)) {
+      const header = `${step.text ? `${step.text} ` : ""}${step.reps}x`;
+      blocks.push([header, ...expandNested(step.steps).map(formatStep)]);
+      current = undefined;
+      continue;
+    }
+
+    const section = sectionOf(step);
+    if (!current || section !== currentSection) {
+      current = section ? [section === "warmup" ? "Warmup" : "Cooldown"] : [];
+      currentSection = section;
+      blocks.push(current);
+    }
+    current.push(formatStep(step));
+  }
+
+  if (doc.description) blocks.unshift([doc.description]);
+  return blocks.map((block) => block.join("\n")).join("\n\n");
+}
+
+/**
+ * Check the `description` of each item (events or library workouts) and collect
+ * syntax errors, tagged with the item's index. Items without step lines
+ * (notes, plain descriptions) are always valid.
+ */
+export function findWorkoutSyntaxErrors(
+  items: readonly { description?: string | null | undefined }[]
+): IndexedWorkoutSyntaxError[] {
+  return items.flatMap((item, index) => {
+    if (!item.description) return [];
+    const result = parseWorkoutText(item.description);
+    return result.ok ? [] : result.error.map((e) => ({ ...e, index }));
+  });
+}
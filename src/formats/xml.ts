@@ -0,0 +1,122 @@
+/**
+ * Minimal XML reader/writer helpers for the file formats in this package
+ * (ZWO, GPX, TCX). Supports elements, attributes, text and CDATA; ignores
+ * the prolog, comments, processing instructions and DOCTYPE.
+ */
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const re = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(source)) !== null) {
+    attributes[match[1]!] = unescapeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML document and return its root element.
+ * @throws Error if the document is not well-formed
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const re =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(source)) !== null) {
+    const current = stack[stack.length - 1]!;
+    const [, cdata, closing, name, attrs, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += unescapeXml(text);
+    } else if (name === undefined) {
+      continue; // comment, processing instruction or doctype
+    } else if (closing) {
+      if (current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>, expected </${current.name}>`);
+      }
+      current.text = current.text.trim();
+      stack.pop();
+    } else {
+      const element: XmlElement = {
+        name,
+        attributes: parseAttributes(attrs ?? ""),
+        children: [],
+        text: "",
+      };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1]!.name}>`);
+  }
+  const element = root.children[0];
+  if (!element || root.children.length > 1) {
+    throw new Error("Expected a single root element");
+  }
+  return element;
+}
+
+/**
+ * Local name of an element, without its namespace prefix (`ns3:TPX` → `TPX`).
+ */
+export function localName(element: XmlElement): string {
+  const i = element.name.indexOf(":");
+  return i === -1 ? element.name : element.name.slice(i + 1);
+}
+
+/**
+ * First child with the given local name.
+ */
+export function child(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((c) => localName(c) === name);
+}
+
+/**
+ * All children with the given local name.
+ */
+export function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((c) => localName(c) === name);
+}
@@ -0,0 +1,326 @@
+import type { Result } from "../result";
+import { err, ok } from "../result";
+
+/**
+ * A file extracted from a zip archive.
+ */
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+export type ZipError = {
+  message: string;
+  /** Entry the error relates to, if any */
+  entry?: string;
+};
+
+// ============================================================================
+// Inflate (RFC 1951)
+// ============================================================================
+
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115,
+  131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537,
+  2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13,
+  13,
+];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]!]!++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1]! + counts[len - 1]!;
+  for (let i = 0; i < lengths.length; i++) {
+    const len = lengths[i]!;
+    if (len) symbols[offsets[len]!++] = i;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array<number>(30).fill(5));
+
+class Inflater {
+  private pos = 0;
+  private bitBuf = 0;
+  private bitCount = 0;
+  private out: Uint8Array;
+  private outLen = 0;
+
+  constructor(
+    private readonly input: Uint8Array,
+    sizeHint: number
+  ) {
+    this.out = new Uint8Array(Math.max(sizeHint, 1024));
+  }
+
+  private bits(n: number): number {
+    while (this.bitCount < n) {
+      if (this.pos >= this.input.length) throw new Error("Unexpected end of compressed data");
+      this.bitBuf |= this.input[this.pos++]! << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuf & ((1 << n) - 1);
+    this.bitBuf >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  private decode(h: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = h.counts[len]!;
+      if (code - first < count) return h.symbols[index + code - first]!;
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid Huffman code");
+  }
+
+  private ensure(extra: number): void {
+    if (this.outLen + extra <= this.out.length) return;
+    let size = this.out.length * 2;
+    while (size < this.outLen + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.out.subarray(0, this.outLen));
+    this.out = next;
+  }
+
+  private stored(): void {
+    this.bitBuf = 0;
+    this.bitCount = 0;
+    if (this.pos + 4 > this.input.length) throw new Error("Unexpected end of compressed data");
+    const len = this.input[this.pos]! | (this.input[this.pos + 1]! << 8);
+    const nlen = this.input[this.pos + 2]! | (this.input[this.pos + 3]! << 8);
+    if ((len ^ 0xffff) !== nlen) throw new Error("Invalid stored block length");
+    this.pos += 4;
+    if (this.pos + len > this.input.length) throw new Error("Unexpected end of compressed data");
+    this.ensure(len);
+    this.out.set(this.input.subarray(this.pos, this.pos + len), this.outLen);
+    this.outLen += len;
+    this.pos += len;
+  }
+
+  private codes(literals: Huffman, distances: Huffman): void {
+    for (;;) {
+      const symbol = this.decode(literals);
+      if (symbol < 256) {
+        this.ensure(1);
+        this.out[this.outLen++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const li = symbol - 257;
+        if (li >= LENGTH_BASE.length) throw new Error("Invalid length code");
+        const length = LENGTH_BASE[li]! + this.bits(LENGTH_EXTRA[li]!);
+        const di = this.decode(distances);
+        if (di >= DIST_BASE.length) throw new Error("Invalid distance code");
+        const distance = DIST_BASE[di]! + this.bits(DIST_EXTRA[di]!);
+        if (distance > this.outLen) throw new Error("Distance too far back");
+
+        this.ensure(length);
+        for (let i = 0; i < length; i++) {
+          this.out[this.outLen] = this.out[this.outLen - distance]!;
+          this.outLen++;
+        }
+      }
+    }
+  }
+
+  private dynamic(): void {
+    const nlen = this.bits(5) + 257;
+    const ndist = this.bits(5) + 1;
+    const ncode = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < ncode; i++) codeLengths[CODE_LENGTH_ORDER[i]!] = this.bits(3);
+    const lencode = buildHuffman(codeLengths);
+
+    const lengths = new Uint8Array(nlen + ndist);
+    for (let i = 0; i < nlen + ndist; ) {
+      const symbol = this.decode(lencode);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let value = 0;
+      let repeat: number;
+      if (symbol === 16) {
+        if (i === 0) throw new Error("Repeat with no previous length");
+        value = lengths[i - 1]!;
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (i + repeat > nlen + ndist) throw new Error("Too many code lengths");
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    this.codes(buildHuffman(lengths.subarray(0, nlen)), buildHuffman(lengths.subarray(nlen)));
+  }
+
+  run(): Uint8Array {
+    let last: number;
+    do {
+      last = this.bits(1);
+      const type = this.bits(2);
+      if (type === 0) this.stored();
+      else if (type === 1) this.codes(FIXED_LITERALS, FIXED_DISTANCES);
+      else if (type === 2) this.dynamic();
+      else throw new Error("Invalid block type");
+    } while (!last);
+    return this.out.slice(0, this.outLen);
+  }
+}
+
+/**
+ * Decompress a raw DEFLATE stream.
+ * @throws Error if the data is not valid DEFLATE
+ */
+export function inflateRaw(data: Uint8Array, sizeHint = data.length * 4): Uint8Array {
+  return new Inflater(data, sizeHint).run();
+}
+
+// ============================================================================
+// CRC-32 (zip)
+// ============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// Zip archives
+// ============================================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+function toBytes(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/**
+ * Whether the data starts with a zip local file header (`PK\x03\x04`).
+ */
+export function isZip(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = toBytes(data);
+  return bytes.length >= 4 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === LOCAL_SIGNATURE;
+}
+
+/**
+ * Extract all files from a zip archive in memory (stored and deflated entries).
+ * Directory entries are skipped. ZIP64 and encrypted archives are not supported.
+ */
+export function unzip(data: ArrayBuffer | Uint8Array): Result<ZipEntry[], ZipError> {
+  const bytes = toBytes(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is at least 22 bytes and may be followed by a comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return err({ message: "Not a zip archive: end of central directory not found" });
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    return err({ message: "ZIP64 archives are not supported" });
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      return err({ message: "Invalid central directory" });
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) return err({ message: "Encrypted entries are not supported", entry: name });
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+      return err({ message: "Invalid local file header", entry: name });
+    }
+
+    const start =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > bytes.length) {
+      return err({ message: "Entry data is truncated", entry: name });
+    }
+    const raw = bytes.subarray(start, start + compressedSize);
+
+    let content: Uint8Array;
+    if (method === 0) {
+      content = raw.slice();
+    } else if (method === 8) {
+      try {
+        content = inflateRaw(raw, size);
+      } catch (e) {
+        return err({ message: e instanceof Error ? e.message : String(e), entry: name });
+      }
+    } else {
+      return err({ message: `Unsupported compression method ${method}`, entry: name });
+    }
+
+    if (content.length !== size || crc32(content) !== crc) {
+      return err({ message: "Entry checksum mismatch", entry: name });
+    }
+    entries.push({ name, data: content });
+  }
+
+  return ok(entries);
+}
@@ -0,0 +1,253 @@
+/**
+ * A cached response body with the metadata needed to serve or revalidate it.
+ * Plain data, so storages can serialize it as JSON.
+ */
+export type CacheEntry = {
+  /** Response body as text (only JSON and text responses are cached) */
+  body: string;
+  contentType: string;
+  /** Milliseconds since the epoch after which the entry must be revalidated */
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+};
+
+/**
+ * Persistence for cached responses. Keys start with the request path followed
+ * by `?`, so `deleteByPrefix` can drop every variant of a path. Implement this
+ * over Redis, files, etc. to share a cache between processes; keys never
+ * contain credentials.
+ */
+export interface CacheStorage {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Delete every entry whose key starts with `prefix` */
+  deleteByPrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Process-local `CacheStorage` that evicts the least recently used entry once
+ * `maxEntries` is reached.
+ */
+export class MemoryCacheStorage implements CacheStorage {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {
+    if (!(maxEntries >= 1)) throw new RangeError("MemoryCacheStorage requires maxEntries >= 1");
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map keeps insertion order, so re-inserting marks the entry as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+export type CacheTtlOverride = {
+  /**
+   * Request path without the base URL, e.g. `athlete/0/folders`. A string
+   * matches whole segments, with `*` standing for any one segment
+   * (`activity/*` matches `activity/i42` but not `activity/i42/map`);
+   * a RegExp is tested against the path.
+   */
+  path: string | RegExp;
+  /** Freshness for matching responses, used instead of the server's Cache-Control */
+  ttlMs: number;
+};
+
+export type CacheConfig = {
+  /**
+   * Where entries are kept.
+   * Default: `new MemoryCacheStorage(500)`
+   */
+  storage?: CacheStorage;
+  /**
+   * Freshness for responses without `Cache-Control: max-age` or `Expires`.
+   * With 0 such responses are stored only if they carry an ETag or
+   * Last-Modified, and are revalidated on every request.
+   * Default: 0
+   */
+  defaultTtlMs?: number;
+  /**
+   * Per-resource freshness, checked in order; the first match wins.
+   * Responses with `Cache-Control: no-store` are never stored.
+   */
+  ttlOverrides?: CacheTtlOverride[];
+};
+
+/** Result of a cache lookup: an entry and whether it can be served without a request. */
+export type CacheLookup = { entry: CacheEntry; fresh: boolean };
+
+type CacheDirectives = { noStore: boolean; noCache: boolean; maxAgeSeconds: number | undefined };
+
+function parseCacheControl(header: string | null): CacheDirectives {
+  const directives: CacheDirectives = { noStore: false, noCache: false, maxAgeSeconds: undefined };
+  for (const part of (header ?? "").split(",")) {
+    const [name = "", value] = part.trim().toLowerCase().split("=");
+    if (name === "no-store") directives.noStore = true;
+    else if (name === "no-cache") directives.noCache = true;
+    else if (name === "max-age" && value !== undefined) {
+      const seconds = Number(value.replace(/"/g, ""));
+      if (Number.isFinite(seconds) && seconds >= 0) directives.maxAgeSeconds = seconds;
+    }
+  }
+  return directives;
+}
+
+function matchesPath(pattern: string | RegExp, path: string): boolean {
+  if (pattern instanceof RegExp) return pattern.test(path);
+  const want = pattern.replace(/^\/|\/$/g, "").split("/");
+  const have = path.split("/");
+  return want.length === have.length && want.every((segment, i) => segment === "*" || segment === have[i]);
+}
+
+/**
+ * Short, stable fingerprint of the Authorization header so entries are kept
+ * per credential without writing the credential itself to the storage.
+ * (cyrb53; not cryptographic, but 53 bits keep accidental collisions out of reach.)
+ */
+export function fingerprint(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * HTTP cache used by `IntervalsHttpClient` when `IntervalsClientConfig.cache`
+ * is set. Storage failures are treated as misses so a broken cache never
+ * fails a request.
+ */
+export class HttpCache {
+  private readonly storage: CacheStorage;
+  private readonly defaultTtlMs: number;
+  private readonly ttlOverrides: CacheTtlOverride[];
+
+  constructor(config: CacheConfig) {
+    this.storage = config.storage ?? new MemoryCacheStorage();
+    this.defaultTtlMs = config.defaultTtlMs ?? 0;
+    this.ttlOverrides = config.ttlOverrides ?? [];
+  }
+
+  /** `query` is the canonical (sorted) query string */
+  key(path: string, query: string, authorization: string): string {
+    return `${path}?${query}#${fingerprint(authorization)}`;
+  }
+
+  async lookup(key: string): Promise<CacheLookup | undefined> {
+    const entry = await this.storage.get(key).catch(() => undefined);
+    return entry ? { entry, fresh: entry.expiresAt > Date.now() } : undefined;
+  }
+
+  /** Request headers that let the server answer 304 for `entry` */
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers["if-none-match"] = entry.etag;
+    if (entry.lastModified) headers["if-modified-since"] = entry.lastModified;
+    return headers;
+  }
+
+  /** Store a 200 response if its headers allow it. Reads a clone, leaving `res` unread. */
+  async store(key: string, path: string, res: Response): Promise<void> {
+    const contentType = res.headers.get("content-type") ?? "";
+    if (!contentType.includes("json") && !contentType.startsWith("text/")) return;
+
+    const ttlMs = this.ttlFor(path, res.headers);
+    const etag = res.headers.get("etag") ?? undefined;
+    const lastModified = res.headers.get("last-modified") ?? undefined;
+    if (ttlMs === undefined || (ttlMs <= 0 && !etag && !lastModified)) return;
+
+    try {
+      const body = await res.clone().text();
+      await this.storage.set(key, {
+        body,
+        contentType,
+        expiresAt: Date.now() + ttlMs,
+        ...(etag ? { etag } : {}),
+        ...(lastModified ? { lastModified } : {}),
+      });
+    } catch {
+      // Best effort
+    }
+  }
+
+  /** Extend `entry` after a 304 and return it */
+  async revalidated(key: string, path: string, entry: CacheEntry, res: Response): Promise<CacheEntry> {
+    const ttlMs = this.ttlFor(path, res.headers) ?? 0;
+    const etag = res.headers.get("etag") ?? entry.etag;
+    const lastModified = res.headers.get("last-modified") ?? entry.lastModified;
+    const updated: CacheEntry = {
+      ...entry,
+      expiresAt: Date.now() + ttlMs,
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {}),
+    };
+    await this.storage.set(key, updated).catch(() => undefined);
+    return updated;
+  }
+
+  /** Drop every cached variant of `path`, e.g. after a mutation */
+  async invalidate(path: string): Promise<void> {
+    await this.storage.deleteByPrefix(`${path}?`).catch(() => undefined);
+  }
+
+  /** Rebuild a Response for the client's body readers */
+  toResponse(entry: CacheEntry): Response {
+    return new Response(entry.body, { status: 200, headers: { "content-type": entry.contentType } });
+  }
+
+  /** Freshness in ms, or `undefined` when the response must not be stored */
+  private ttlFor(path: string, headers: Headers): number | undefined {
+    const directives = parseCacheControl(headers.get("cache-control"));
+    if (directives.noStore) return undefined;
+
+    const override = this.ttlOverrides.find((o) => matchesPath(o.path, path));
+    if (override) return override.ttlMs;
+    if (directives.noCache) return 0;
+    if (directives.maxAgeSeconds !== undefined) return directives.maxAgeSeconds * 1000;
+
+    const expires = headers.get("expires");
+    if (expires) {
+      const expiresAt = Date.parse(expires);
+      const date = Date.parse(headers.get("date") ?? "");
+      if (Number.isFinite(expiresAt)) {
+        return Math.max(0, expiresAt - (Number.isFinite(date) ? date : Date.now()));
+      }
+    }
+    return this.defaultTtlMs;
+  }
+}
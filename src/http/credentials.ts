@@ -0,0 +1,71 @@
+import {
+  buildAuthorizationHeader,
+  type IntervalsAuth,
+  type ProvidedCredentials,
+} from "../config";
+
+type CachedHeader = { header: string; expiresAt: number };
+
+/**
+ * Turns any `IntervalsAuth` into Authorization headers for the HTTP client.
+ * Static credentials are encoded once; OAuth tokens and credential providers
+ * are resolved per request, with provider results cached per client.
+ */
+export class AuthorizationResolver {
+  private readonly staticHeader: string | undefined;
+  private cached: CachedHeader | undefined;
+  private pending: Promise<string> | undefined;
+
+  constructor(private readonly auth: IntervalsAuth) {
+    this.staticHeader =
+      auth.type === "apiKey" || auth.type === "accessToken"
+        ? buildAuthorizationHeader(auth)
+        : undefined;
+  }
+
+  /** Header for the next request */
+  async header(): Promise<string> {
+    if (this.staticHeader !== undefined) return this.staticHeader;
+    if (this.auth.type === "oauth") {
+      return `Bearer ${await this.auth.tokens.getAccessToken()}`;
+    }
+    if (this.cached && this.cached.expiresAt > Date.now()) return this.cached.header;
+    return this.fetchFromProvider(false);
+  }
+
+  /**
+   * Called after the API answered 401 to `rejected`. Resolves to a different
+   * header to replay the request with, or `undefined` if there is none.
+   */
+  async refresh(rejected: string): Promise<string | undefined> {
+    if (this.auth.type === "oauth") {
+      const token = await this.auth.tokens.refreshAccessToken(rejected.replace(/^Bearer /, ""));
+      return token ? `Bearer ${token}` : undefined;
+    }
+    if (this.auth.type !== "provider") return undefined;
+
+    // Another request may already have fetched new credentials.
+    if (this.cached && this.cached.header !== rejected) return this.cached.header;
+    this.cached = undefined;
+    const header = await this.fetchFromProvider(true);
+    return header !== rejected ? header : undefined;
+  }
+
+  private fetchFromProvider(forceRefresh: boolean): Promise<string> {
+    if (this.auth.type !== "provider") throw new Error("No credential provider configured");
+    if (this.pending) return this.pending;
+
+    const { getCredentials, cacheTtlMs = 300_000 } = this.auth;
+    this.pending = getCredentials({ forceRefresh })
+      .then((credentials: ProvidedCredentials) => {
+        const header = buildAuthorizationHeader(credentials);
+        const expiresAt = Math.min(Date.now() + cacheTtlMs, credentials.expiresAt ?? Infinity);
+        this.cached = { header, expiresAt };
+        return header;
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+    return this.pending;
+  }
+}
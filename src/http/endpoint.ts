@@ -0,0 +1,34 @@
+/** Names of the `{placeholders}` in a route template */
+type RouteParamNames<R extends string> = R extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | RouteParamNames<Rest>
+  : never;
+
+export type RouteParams<R extends string> = Record<RouteParamNames<R>, string | number>;
+
+/**
+ * What a resource method requests: its operation name (e.g.
+ * `activities.getStreams`), its route template (e.g. `activity/{id}/streams.json`)
+ * and the path with the placeholders filled in. Hooks, middleware and
+ * telemetry get the first two, which don't contain athlete or activity IDs.
+ */
+export type Endpoint = {
+  operation: string;
+  route: string;
+  path: string;
+};
+
+/**
+ * Declare a resource method's endpoint.
+ *
+ * @example
+ * endpoint("wellness.get", "athlete/{id}/wellness/{date}", { id: athleteId, date })
+ */
+export function endpoint<R extends string>(
+  operation: string,
+  route: R,
+  ...[params]: RouteParamNames<R> extends never ? [] : [RouteParams<R>]
+): Endpoint {
+  const values = (params ?? {}) as Record<string, string | number>;
+  const path = route.replace(/\{(\w+)\}/g, (_, name: string) => String(values[name]));
+  return { operation, route, path };
+}
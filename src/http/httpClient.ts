@@ -1,16 +1,57 @@
 import ky, { type KyInstance, type Options as KyOptions } from "ky";
 
 import {
-  buildAuthorizationHeader,
   DEFAULT_BASE_URL,
   type IntervalsClientConfig,
+  type RequestHooks,
+  type RequestRetryOptions,
+  type RetryableErrorKind,
 } from "../config";
-import type { ApiError } from "../errors";
-import { networkError, timeoutError, unknownError } from "../errors";
+import type { ApiError, ErrorRequestInfo } from "../errors";
+import {
+  abortedError,
+  networkError,
+  parseFieldErrors,
+  timeoutError,
+  unknownError,
+} from "../errors";
+import type { RedactionPolicy } from "../redaction";
+import type { DecodeOptions, SchemaMode } from "../schemas/drift";
 import type { Result } from "../result";
 import { err, ok } from "../result";
+import { fingerprint, HttpCache } from "./cache";
+import { AuthorizationResolver } from "./credentials";
+import type { Endpoint } from "./endpoint";
+import { InFlightRequests } from "./inFlight";
+import {
+  type AttemptOutcome,
+  composeMiddleware,
+  hooksMiddleware,
+  type MiddlewareNext,
+  type MiddlewareRequest,
+  type MiddlewareResponse,
+  type MiddlewareResult,
+  type ResponseType,
+} from "./middleware";
+import { RateLimiter, type ReleaseSlot } from "./rateLimiter";
+
+export type Decoder<T> = (data: unknown, options?: DecodeOptions) => T;
 
-export type Decoder<T> = (data: unknown) => T;
+/**
+ * Per-call options, accepted as the optional last argument of every resource method.
+ */
+export type RequestOverrides = {
+  /** Cancels the request, including queued attempts and retry delays */
+  signal?: AbortSignal;
+  /** Timeout per attempt, instead of `IntervalsClientConfig.timeoutMs` */
+  timeoutMs?: number;
+  /** Extra headers, applied over the method's own headers */
+  headers?: Record<string, string>;
+  /** Retry overrides for this call, or `false` to disable retries */
+  retry?: RequestRetryOptions | false;
+  /** Caller data passed to every hook for this request (e.g. a trace or tenant ID) */
+  context?: Record<string, unknown>;
+};
 
 export type RequestOptions = {
   method?: KyOptions["method"];
@@ -18,6 +59,10 @@ export type RequestOptions = {
   headers?: KyOptions["headers"];
   json?: KyOptions["json"];
   body?: KyOptions["body"];
+  /** Per-request retry overrides, or `false` to disable retries */
+  retry?: RequestRetryOptions | false;
+  /** Overrides passed by the caller of the resource method */
+  overrides?: RequestOverrides | undefined;
 };
 
 type NormalizedConfig = Required<
@@ -26,8 +71,17 @@ type NormalizedConfig = Required<
   auth: IntervalsClientConfig["auth"];
   retry: Required<NonNullable<IntervalsClientConfig["retry"]>>;
   hooks: IntervalsClientConfig["hooks"];
+  middleware: NonNullable<IntervalsClientConfig["middleware"]>;
+  rateLimiter: RateLimiter | undefined;
+  cache: HttpCache | undefined;
+  dedupe: boolean;
+  redaction: RedactionPolicy | false;
+  schemaMode: SchemaMode;
+  onSchemaDrift: IntervalsClientConfig["onSchemaDrift"];
 };
 
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
 function normalizeConfig(config: IntervalsClientConfig): NormalizedConfig {
   return {
     auth: config.auth,
@@ -39,13 +93,39 @@ function normalizeConfig(config: IntervalsClientConfig): NormalizedConfig {
       maxDelayMs: config.retry?.maxDelayMs ?? 8_000,
       jitter: config.retry?.jitter ?? true,
       jitterFactor: config.retry?.jitterFactor ?? 0.2,
+      statusCodes: config.retry?.statusCodes ?? [502, 503, 504],
+      errorKinds: config.retry?.errorKinds ?? ["Network", "Timeout"],
+      methods: config.retry?.methods ?? IDEMPOTENT_METHODS,
     },
     hooks: config.hooks,
+    middleware: config.middleware ?? [],
+    rateLimiter:
+      config.rateLimit instanceof RateLimiter
+        ? config.rateLimit
+        : config.rateLimit
+          ? new RateLimiter(config.rateLimit)
+          : undefined,
+    cache: config.cache ? new HttpCache(config.cache) : undefined,
+    dedupe: config.dedupe ?? false,
+    redaction: config.redaction ?? {},
+    schemaMode: config.schemaMode ?? "loose",
+    onSchemaDrift: config.onSchemaDrift,
   };
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
@@ -60,27 +140,258 @@ function applyJitter(delayMs: number, jitterFactor: number): number {
   return Math.max(0, Math.round(delayMs + jitter));
 }
 
+type RetryPolicy = NormalizedConfig["retry"] & { idempotent: boolean };
+
+function resolveRetryPolicy(
+  retry: NormalizedConfig["retry"],
+  method: string,
+  overrides: RequestOptions["retry"][]
+): RetryPolicy {
+  if (overrides.includes(false)) return { ...retry, limit: 0, idempotent: false };
+  const merged = { ...retry };
+  let idempotent: boolean | undefined;
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const [key, value] of Object.entries(override)) {
+      if (value !== undefined && key !== "idempotent") {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+    idempotent = override.idempotent ?? idempotent;
+  }
+  return {
+    ...merged,
+    idempotent:
+      idempotent ?? merged.methods.some((m) => m.toUpperCase() === method.toUpperCase()),
+  };
+}
+
+/**
+ * Delay before the next attempt: Retry-After when the server sent it (without
+ * jitter), otherwise exponential backoff with optional jitter.
+ */
+function retryDelayMs(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterSeconds: number | undefined
+): number {
+  if (retryAfterSeconds !== undefined) return retryAfterSeconds * 1000;
+  const fallbackDelay = Math.min(
+    policy.initialDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  return policy.jitter
+    ? applyJitter(fallbackDelay, policy.jitterFactor)
+    : fallbackDelay;
+}
+
+function errorKindOf(
+  e: unknown,
+  signal: AbortSignal | undefined
+): RetryableErrorKind | "Aborted" | "Unknown" {
+  if (signal?.aborted) return "Aborted";
+  if (e instanceof Error && e.name === "TimeoutError") return "Timeout";
+  if (e instanceof Error) return "Network";
+  return "Unknown";
+}
+
 function normalizePath(path: string): string {
   return path.startsWith("/") ? path.slice(1) : path;
 }
 
-function toKyOptions(options: RequestOptions): KyOptions {
-  const reqOptions: KyOptions = {};
-  if (options.method) reqOptions.method = options.method;
-  if (options.headers) reqOptions.headers = options.headers;
-  if (options.searchParams) reqOptions.searchParams = options.searchParams;
-  if (options.json !== undefined) reqOptions.json = options.json;
-  if (options.body !== undefined) reqOptions.body = options.body;
+/**
+ * Route template for a path without a declared `Endpoint`: dates become
+ * `{date}` and other segments with a digit (athlete, activity and event IDs)
+ * become `{id}`.
+ */
+function routeTemplate(path: string): string {
+  return path
+    .split("/")
+    .map((segment) =>
+      /^\d{4}-\d{2}-\d{2}/.test(segment) ? "{date}" : /\d/.test(segment) ? "{id}" : segment
+    )
+    .join("/");
+}
+
+/**
+ * Tell the request's onAttempt listener that an attempt is being sent and
+ * return the function that reports its outcome. Listener errors are ignored
+ * so observers can't fail a request.
+ */
+function startAttempt(
+  request: MiddlewareRequest,
+  attempt: number
+): (outcome: Omit<AttemptOutcome, "durationMs">) => void {
+  const startTime = Date.now();
+  let end: ((outcome: AttemptOutcome) => void) | void;
+  try {
+    end = request.onAttempt?.({
+      method: request.method,
+      path: request.path,
+      route: request.route,
+      ...(request.operation ? { operation: request.operation } : {}),
+      attempt,
+      ...(request.context ? { context: request.context } : {}),
+    });
+  } catch {
+    end = undefined;
+  }
+  return (outcome) => {
+    try {
+      end?.({ ...outcome, durationMs: Date.now() - startTime });
+    } catch {
+      // Ignored, see startAttempt
+    }
+  };
+}
+
+/** Everything a resource method passed, as the request the middleware chain sees */
+function toMiddlewareRequest(
+  target: string | Endpoint,
+  options: RequestOptions,
+  responseType: ResponseType
+): MiddlewareRequest {
+  const overrides = options.overrides;
+  const headers: Record<string, string> = {};
+  mergeHeaders(options.headers, overrides?.headers).forEach((value, key) => {
+    headers[key] = value;
+  });
+  const retry =
+    options.retry === false || overrides?.retry === false
+      ? false
+      : options.retry || overrides?.retry
+        ? { ...options.retry, ...overrides?.retry }
+        : undefined;
+
+  const path = normalizePath(typeof target === "string" ? target : target.path);
+  const request: MiddlewareRequest = {
+    method: (options.method ?? "GET").toUpperCase(),
+    path,
+    route: typeof target === "string" ? routeTemplate(path) : normalizePath(target.route),
+    headers,
+    responseType,
+  };
+  if (typeof target !== "string") request.operation = target.operation;
+  if (options.searchParams !== undefined) request.searchParams = options.searchParams;
+  if (options.json !== undefined) request.json = options.json;
+  if (options.body !== undefined) request.body = options.body;
+  if (retry !== undefined) request.retry = retry;
+  if (overrides?.timeoutMs !== undefined) request.timeoutMs = overrides.timeoutMs;
+  if (overrides?.signal) request.signal = overrides.signal;
+  if (overrides?.context) request.context = overrides.context;
+  return request;
+}
+
+function toKyOptions(request: MiddlewareRequest): KyOptions {
+  const reqOptions: KyOptions = { method: request.method, headers: request.headers };
+  if (request.searchParams !== undefined) reqOptions.searchParams = request.searchParams;
+  if (request.json !== undefined) reqOptions.json = request.json;
+  if (request.body !== undefined) reqOptions.body = request.body;
+  if (request.signal) reqOptions.signal = request.signal;
+  if (request.timeoutMs !== undefined) reqOptions.timeout = request.timeoutMs;
   return reqOptions;
 }
 
-function extractIssues(e: unknown): unknown | undefined {
+function readBody(res: Response, responseType: ResponseType): Promise<unknown> {
+  if (responseType === "text") return res.text();
+  if (responseType === "arrayBuffer") return res.arrayBuffer();
+  return readBodyBestEffort(res);
+}
+
+/** A response that failed to decode, as an error */
+function schemaError(
+  e: unknown,
+  request: MiddlewareRequest,
+  response: MiddlewareResponse,
+  durationMs: number
+): ApiError {
+  return {
+    kind: "Schema",
+    message: "Response validation failed",
+    issues: extractIssues(e),
+    cause: e,
+    request: errorRequestInfo(request, response.attempts ?? 0, durationMs, response.headers),
+  };
+}
+
+/** Attempts sent so far and the headers of the last response */
+type SendProgress = { sent: number; headers: Headers | undefined };
+
+function errorRequestInfo(
+  request: MiddlewareRequest,
+  attempt: number,
+  durationMs: number,
+  headers: Headers | undefined
+): ErrorRequestInfo {
+  const info: ErrorRequestInfo = {
+    method: request.method,
+    path: request.path,
+    route: request.route,
+    attempt,
+    durationMs,
+  };
+  if (request.operation) info.operation = request.operation;
+  if (headers) {
+    const record: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+    info.headers = record;
+    const requestId = headers.get("x-request-id");
+    if (requestId) info.requestId = requestId;
+  }
+  return info;
+}
+
+/** A separate copy of a shared response for each coalesced caller */
+function copyResponse(response: MiddlewareResponse): MiddlewareResponse {
+  return { ...response, headers: new Headers(response.headers), body: structuredClone(response.body) };
+}
+
+/** Query string with keys sorted, so equal parameters give equal cache and dedupe keys */
+function canonicalQuery(searchParams: KyOptions["searchParams"]): string {
+  if (searchParams === undefined) return "";
+  const params =
+    searchParams instanceof URLSearchParams || typeof searchParams === "string"
+      ? new URLSearchParams(searchParams)
+      : new URLSearchParams(
+          (Array.isArray(searchParams) ? searchParams : Object.entries(searchParams))
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [String(key), String(value)])
+        );
+  params.sort();
+  return params.toString();
+}
+
+function headerKey(headers: KyOptions["headers"]): string {
+  const lines: string[] = [];
+  mergeHeaders(headers).forEach((value, key) => lines.push(`${key}: ${value}`));
+  return lines.sort().join("\n");
+}
+
+/** Later header sets win; `undefined` values are skipped. */
+function mergeHeaders(...inits: KyOptions["headers"][]): Headers {
+  const headers = new Headers();
+  for (const init of inits) {
+    if (init instanceof Headers) {
+      init.forEach((v, key) => headers.set(key, v));
+      continue;
+    }
+    const entries = Array.isArray(init) ? init : Object.entries(init ?? {});
+    for (const [key, v] of entries) {
+      if (v !== undefined) headers.set(key, v);
+    }
+  }
+  return headers;
+}
+
+export function extractIssues(e: unknown): unknown | undefined {
   return typeof e === "object" && e !== null && "issues" in e
     ? (e as { issues?: unknown }).issues
     : undefined;
 }
 
-async function readBodyBestEffort(res: Response): Promise<unknown | undefined> {
+export async function readBodyBestEffort(res: Response): Promise<unknown | undefined> {
   const contentType = res.headers.get("content-type") ?? "";
   if (contentType.includes("application/json")) {
     try {
@@ -103,6 +414,15 @@ async function readBodyBestEffort(res: Response): Promise<unknown | undefined> {
   }
 }
 
+/**
+ * Free the connection of a response whose body won't be read, e.g. one that is
+ * retried. Not awaited: if something cloned the response, the cancellation
+ * only settles once every clone is read or cancelled too.
+ */
+function discardBody(res: Response): void {
+  res.body?.cancel().catch(() => undefined);
+}
+
 function parseRetryAfterSeconds(retryAfter: string | null): number | undefined {
   if (!retryAfter) return undefined;
   const seconds = Number(retryAfter);
@@ -110,15 +430,23 @@ function parseRetryAfterSeconds(retryAfter: string | null): number | undefined {
   return undefined;
 }
 
-function httpErrorFromStatus(
+export function httpErrorFromStatus(
   status: number,
   message: string,
   body?: unknown
 ): ApiError {
+  if (status === 400)
+    return { kind: "BadRequest", status: 400, message, fieldErrors: parseFieldErrors(body), body };
   if (status === 401)
     return { kind: "Unauthorized", status: 401, message, body };
   if (status === 403) return { kind: "Forbidden", status: 403, message, body };
   if (status === 404) return { kind: "NotFound", status: 404, message, body };
+  if (status === 409)
+    return { kind: "Conflict", status: 409, message, fieldErrors: parseFieldErrors(body), body };
+  if (status === 422) {
+    const fieldErrors = parseFieldErrors(body);
+    return { kind: "ValidationFailed", status: 422, message, fieldErrors, body };
+  }
   if (status === 429) return { kind: "RateLimit", status: 429, message, body };
   return { kind: "Http", status, message, body };
 }
@@ -126,20 +454,22 @@ function httpErrorFromStatus(
 export class IntervalsHttpClient {
   private readonly cfg: NormalizedConfig;
   private readonly client: KyInstance;
+  private readonly credentials: AuthorizationResolver;
+  private readonly inFlight = new InFlightRequests<MiddlewareResponse>(copyResponse);
+  private readonly pipeline: MiddlewareNext;
 
   constructor(config: IntervalsClientConfig) {
     this.cfg = normalizeConfig(config);
+    this.credentials = new AuthorizationResolver(this.cfg.auth);
     this.client = ky.create({
       prefixUrl: this.cfg.baseUrl,
       timeout: this.cfg.timeoutMs,
       throwHttpErrors: false,
+      // Retries are handled in requestWithRetry so they follow RetryConfig and call onRetry.
+      retry: 0,
       hooks: {
         beforeRequest: [
           (req) => {
-            req.headers.set(
-              "authorization",
-              buildAuthorizationHeader(this.cfg.auth)
-            );
             // Default to JSON, but allow per-request overrides (text/binary endpoints).
             if (!req.headers.has("accept")) {
               req.headers.set("accept", "application/json");
@@ -148,66 +478,215 @@ export class IntervalsHttpClient {
         ],
       },
     });
+    // Hooks run innermost, so they observe the request as sent and the response as received.
+    this.pipeline = composeMiddleware(
+      this.cfg.hooks
+        ? [...this.cfg.middleware, hooksMiddleware(this.cfg.hooks, this.cfg.redaction)]
+        : this.cfg.middleware,
+      (request) => this.requestWithRetry(request)
+    );
   }
 
-  private async requestWithRetry(
-    path: string,
-    options: RequestOptions,
-    readOk: (res: Response) => Promise<unknown>
-  ): Promise<Result<unknown, ApiError>> {
-    const attempts = 1 + this.cfg.retry.limit;
-    const normalizedPath = normalizePath(path);
-    const kyOptions = toKyOptions(options);
-    const method = options.method ?? "GET";
-    const startTime = Date.now();
+  /**
+   * Call the request's onRetry listener, then wait out the delay. Returns the
+   * error to fail with if the listener throws (which cancels the retry) or the
+   * caller aborts.
+   */
+  private async backoff(
+    request: MiddlewareRequest,
+    info: Parameters<NonNullable<RequestHooks["onRetry"]>>[0]
+  ): Promise<ApiError | undefined> {
+    try {
+      await request.onRetry?.(info);
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return unknownError(`Retry cancelled by onRetry hook: ${msg}`, e);
+    }
+    try {
+      await sleep(info.delayMs, request.signal);
+      return undefined;
+    } catch (e: unknown) {
+      return abortedError("Request aborted", e);
+    }
+  }
 
-    // Call onRequest hook
-    if (this.cfg.hooks?.onRequest) {
-      const hookInfo: { method: string; path: string; options?: Record<string, unknown> } = {
-        method,
-        path: normalizedPath,
-      };
-      if (options.searchParams) {
-        hookInfo.options = { searchParams: options.searchParams as unknown };
-      }
-      await this.cfg.hooks.onRequest(hookInfo);
+  /**
+   * Run a request through the middleware chain, sharing one run (including
+   * its retries and hooks) between identical GETs in flight on this client at
+   * the same time. Each caller gets its own copy of the response.
+   */
+  private async dispatch(request: MiddlewareRequest): Promise<MiddlewareResult> {
+    // Per-call timeouts, retries or hook context make a request its own.
+    const coalescible =
+      this.cfg.dedupe &&
+      request.method === "GET" &&
+      request.retry === undefined &&
+      request.timeoutMs === undefined &&
+      request.context === undefined;
+    if (!coalescible) return this.pipeline(request);
+
+    // Credentials can change between requests (providers, OAuth refresh), so
+    // only requests sent with the same ones are shared, as in the cache.
+    let authorization: string;
+    try {
+      authorization = await this.credentials.header();
+    } catch {
+      // Sent on its own, the request reports the failure.
+      return this.pipeline(request);
     }
+    const key = [
+      request.path,
+      canonicalQuery(request.searchParams),
+      headerKey(request.headers),
+      request.responseType,
+      fingerprint(authorization),
+    ].join("\n");
+    return this.inFlight.run(key, request.signal, (signal) => this.pipeline({ ...request, signal }));
+  }
+
+  /** Schema mode for decoding the response, with drift reports tagged with the request */
+  private decodeOptions(request: MiddlewareRequest): DecodeOptions {
+    const { schemaMode, onSchemaDrift } = this.cfg;
+    if (schemaMode !== "report" || !onSchemaDrift) return { schemaMode };
+    return {
+      schemaMode,
+      onSchemaDrift: (report) =>
+        onSchemaDrift({
+          ...report,
+          route: request.route,
+          ...(request.operation !== undefined && { operation: request.operation }),
+        }),
+    };
+  }
+
+  /**
+   * Send the request, with retries, and record on the outcome how many
+   * attempts it took: as `attempts` on a response, or as `request` info on an
+   * error.
+   */
+  private async requestWithRetry(request: MiddlewareRequest): Promise<MiddlewareResult> {
+    const startTime = Date.now();
+    const progress: SendProgress = { sent: 0, headers: undefined };
+    const result = await this.sendWithRetry(request, progress);
+    if (result.ok) return ok({ ...result.value, attempts: progress.sent });
+    const info = errorRequestInfo(request, progress.sent, Date.now() - startTime, progress.headers);
+    return err({ ...result.error, request: info });
+  }
+
+  private async sendWithRetry(
+    request: MiddlewareRequest,
+    progress: SendProgress
+  ): Promise<MiddlewareResult> {
+    const { method, path, signal } = request;
+    const policy = resolveRetryPolicy(this.cfg.retry, method, [request.retry]);
+    const attempts = 1 + policy.limit;
+    const kyOptions = toKyOptions(request);
+    const cache = this.cfg.cache;
+    const cacheable = cache !== undefined && method === "GET";
+    // Common fields of every onRetry call
+    const retryBase = {
+      method,
+      path,
+      route: request.route,
+      ...(request.operation ? { operation: request.operation } : {}),
+      ...(request.context ? { context: request.context } : {}),
+    };
+
+    let replayedAfterRefresh = false;
 
     for (let attempt = 1; attempt <= attempts; attempt++) {
+      let authorization: string;
+      try {
+        authorization = await this.credentials.header();
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return err(unknownError(`Failed to resolve credentials: ${msg}`, e));
+      }
+
+      // Fresh entries are served without a request; stale ones with validators are revalidated.
+      const cacheKey = cacheable
+        ? cache.key(path, canonicalQuery(request.searchParams), authorization)
+        : undefined;
+      const cached = cacheable && cacheKey ? await cache.lookup(cacheKey) : undefined;
+      if (cacheable && cached?.fresh) {
+        const res = cache.toResponse(cached.entry);
+        return ok({
+          status: 200,
+          headers: res.headers,
+          body: await readBody(res, request.responseType),
+          cache: "hit",
+        });
+      }
+
+      let release: ReleaseSlot | undefined;
+      let endAttempt: ReturnType<typeof startAttempt> | undefined;
+
       try {
-        const res = await this.client(normalizedPath, kyOptions);
-
-        if (res.status === 429 && attempt < attempts) {
-          const retryAfterSeconds = parseRetryAfterSeconds(
-            res.headers.get("retry-after")
-          );
-
-          let delayMs: number;
-          if (retryAfterSeconds !== undefined) {
-            // Respect Retry-After header exactly (don't apply jitter)
-            delayMs = retryAfterSeconds * 1000;
-          } else {
-            // Use exponential backoff with optional jitter
-            const fallbackDelay = Math.min(
-              this.cfg.retry.initialDelayMs * 2 ** (attempt - 1),
-              this.cfg.retry.maxDelayMs
-            );
-            delayMs = this.cfg.retry.jitter
-              ? applyJitter(fallbackDelay, this.cfg.retry.jitterFactor)
-              : fallbackDelay;
+        release = await this.cfg.rateLimiter?.acquire(signal);
+        const headers = mergeHeaders(
+          cacheable && cached ? cache.conditionalHeaders(cached.entry) : undefined,
+          kyOptions.headers,
+          { authorization }
+        );
+        endAttempt = startAttempt(request, ++progress.sent);
+        const res = await this.client(path, { ...kyOptions, headers });
+        progress.headers = res.headers;
+        endAttempt({
+          status: res.status,
+          ...(!res.ok && res.status !== 304
+            ? { errorKind: httpErrorFromStatus(res.status, "").kind }
+            : {}),
+        });
+        endAttempt = undefined;
+
+        if (cache && !cacheable) await cache.invalidate(path);
+
+        if (cacheable && cacheKey && cached && res.status === 304) {
+          const entry = await cache.revalidated(cacheKey, path, cached.entry, res);
+          const cachedRes = cache.toResponse(entry);
+          return ok({
+            status: 200,
+            headers: cachedRes.headers,
+            body: await readBody(cachedRes, request.responseType),
+            cache: "revalidated",
+          });
+        }
+
+        // Hold every request sharing the limiter, not just this one.
+        const retryAfterSeconds = parseRetryAfterSeconds(res.headers.get("retry-after"));
+        if (res.status === 429 && retryAfterSeconds !== undefined) {
+          this.cfg.rateLimiter?.pause(retryAfterSeconds * 1000);
+        }
+
+        // OAuth/provider auth: refresh credentials once and replay; the replay doesn't count as a retry.
+        if (res.status === 401 && !replayedAfterRefresh) {
+          replayedAfterRefresh = true;
+          const refreshed = await this.credentials
+            .refresh(authorization)
+            .catch(() => undefined);
+          if (refreshed) {
+            discardBody(res);
+            attempt--;
+            continue;
           }
+        }
 
-          // Call onRetry hook
-          await this.cfg.hooks?.onRetry?.({
-            method,
-            path: normalizedPath,
+        // 429 is retried for every method since the request wasn't processed;
+        // other statuses only for idempotent requests.
+        const retryStatus =
+          res.status === 429 ||
+          (policy.idempotent && policy.statusCodes.includes(res.status));
+        if (retryStatus && attempt < attempts) {
+          release?.();
+          discardBody(res);
+          const stopped = await this.backoff(request, {
+            ...retryBase,
             attempt,
             maxAttempts: attempts,
-            delayMs,
-            reason: "Rate limit (429)",
+            delayMs: retryDelayMs(policy, attempt, retryAfterSeconds),
+            reason: res.status === 429 ? "Rate limit (429)" : `HTTP ${res.status}`,
           });
-
-          await sleep(delayMs);
+          if (stopped) return err(stopped);
           continue;
         }
 
@@ -215,20 +694,8 @@ export class IntervalsHttpClient {
           const body = await readBodyBestEffort(res);
           const message = `HTTP ${res.status} ${res.statusText}`.trim();
           const base = httpErrorFromStatus(res.status, message, body);
-          const durationMs = Date.now() - startTime;
-
-          // Call onError hook
-          await this.cfg.hooks?.onError?.({
-            method,
-            path: normalizedPath,
-            error: new Error(message),
-            durationMs,
-          });
 
           if (base.kind === "RateLimit") {
-            const retryAfterSeconds = parseRetryAfterSeconds(
-              res.headers.get("retry-after")
-            );
             return err({
               ...base,
               ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}),
@@ -237,108 +704,96 @@ export class IntervalsHttpClient {
           return err(base);
         }
 
-        const durationMs = Date.now() - startTime;
+        if (cacheable && cacheKey && res.status === 200) {
+          await cache.store(cacheKey, path, res);
+        }
 
-        // Call onResponse hook
-        await this.cfg.hooks?.onResponse?.({
-          method,
-          path: normalizedPath,
+        return ok({
           status: res.status,
-          durationMs,
+          headers: res.headers,
+          body: await readBody(res, request.responseType),
         });
-
-        return ok(await readOk(res));
       } catch (e: unknown) {
         const msg = e instanceof Error ? e.message : "Request failed";
-        const durationMs = Date.now() - startTime;
-
-        // Call onError hook
-        await this.cfg.hooks?.onError?.({
-          method,
-          path: normalizedPath,
-          error: e,
-          durationMs,
-        });
+        const kind = errorKindOf(e, signal);
+        endAttempt?.({ errorKind: kind });
+
+        if (
+          (kind === "Network" || kind === "Timeout") &&
+          policy.idempotent &&
+          policy.errorKinds.includes(kind) &&
+          attempt < attempts
+        ) {
+          release?.();
+          const stopped = await this.backoff(request, {
+            ...retryBase,
+            attempt,
+            maxAttempts: attempts,
+            delayMs: retryDelayMs(policy, attempt, undefined),
+            reason: kind === "Timeout" ? "Timeout" : `Network error: ${msg}`,
+          });
+          if (stopped) return err(stopped);
+          continue;
+        }
 
-        if (e instanceof Error && e.name === "TimeoutError")
-          return err(timeoutError(msg, e));
-        if (e instanceof Error) return err(networkError(msg, e));
+        if (kind === "Aborted") return err(abortedError("Request aborted", e));
+        if (kind === "Timeout") return err(timeoutError(msg, e));
+        if (kind === "Network") return err(networkError(msg, e));
         return err(unknownError(msg, e));
+      } finally {
+        release?.();
       }
     }
 
-    const durationMs = Date.now() - startTime;
-    const error = unknownError("Request failed after retries");
-
-    // Call onError hook for final failure
-    await this.cfg.hooks?.onError?.({
-      method,
-      path: normalizedPath,
-      error: new Error(error.message),
-      durationMs,
-    });
-
-    return err(error);
+    return err(unknownError("Request failed after retries"));
   }
 
   async requestJson<T>(
-    path: string,
+    path: string | Endpoint,
     options: RequestOptions = {},
     decode?: Decoder<T>
   ): Promise<Result<T, ApiError>> {
-    const result = await this.requestWithRetry(path, options, async (res) => {
-      return (await readBodyBestEffort(res)) as unknown;
-    });
+    const startTime = Date.now();
+    const request = toMiddlewareRequest(path, options, "json");
+    const result = await this.dispatch(request);
     if (!result.ok) return result;
 
-    const data = result.value as unknown;
+    const data = result.value.body;
     if (!decode) return ok(data as T);
 
     try {
-      return ok(decode(data));
+      return ok(decode(data, this.decodeOptions(request)));
     } catch (e) {
-      return err({
-        kind: "Schema",
-        message: "Response validation failed",
-        issues: extractIssues(e),
-        cause: e,
-      });
+      return err(schemaError(e, request, result.value, Date.now() - startTime));
     }
   }
 
   async requestText<T = string>(
-    path: string,
+    path: string | Endpoint,
     options: RequestOptions = {},
     decode?: (text: string) => T
   ): Promise<Result<T, ApiError>> {
-    const result = await this.requestWithRetry(path, options, (res) =>
-      res.text()
-    );
+    const startTime = Date.now();
+    const request = toMiddlewareRequest(path, options, "text");
+    const result = await this.dispatch(request);
     if (!result.ok) return result;
 
-    const text = String(result.value);
+    const text = String(result.value.body);
     if (!decode) return ok(text as T);
 
     try {
       return ok(decode(text));
     } catch (e) {
-      return err({
-        kind: "Schema",
-        message: "Response validation failed",
-        issues: extractIssues(e),
-        cause: e,
-      });
+      return err(schemaError(e, request, result.value, Date.now() - startTime));
     }
   }
 
   async requestArrayBuffer(
-    path: string,
+    path: string | Endpoint,
     options: RequestOptions = {}
   ): Promise<Result<ArrayBuffer, ApiError>> {
-    const result = await this.requestWithRetry(path, options, (res) =>
-      res.arrayBuffer()
-    );
+    const result = await this.dispatch(toMiddlewareRequest(path, options, "arrayBuffer"));
     if (!result.ok) return result;
-    return ok(result.value as ArrayBuffer);
+    return ok(result.value.body as ArrayBuffer);
   }
 }
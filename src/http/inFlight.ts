@@ -0,0 +1,95 @@
+import type { ApiError } from "../errors";
+import { abortedError } from "../errors";
+import type { Result } from "../result";
+import { err, ok } from "../result";
+
+type SharedRequest<T> = {
+  promise: Promise<Result<T, ApiError>>;
+  controller: AbortController;
+  waiting: number;
+};
+
+/**
+ * Coalesces identical in-flight requests into one. Callers joining a request
+ * that is already running wait for its result instead of sending their own,
+ * and get it through `copy` so they can't see each other's changes.
+ *
+ * A caller's `signal` only detaches that caller; the shared request is
+ * cancelled once every caller waiting for it has aborted, and the last one
+ * gets the request's own (Aborted) result.
+ */
+export class InFlightRequests<T> {
+  private readonly requests = new Map<string, SharedRequest<T>>();
+
+  constructor(private readonly copy: (value: T) => T) {}
+
+  /** Requests currently shared */
+  get size(): number {
+    return this.requests.size;
+  }
+
+  run(
+    key: string,
+    signal: AbortSignal | undefined,
+    start: (signal: AbortSignal) => Promise<Result<T, ApiError>>
+  ): Promise<Result<T, ApiError>> {
+    const existing = this.requests.get(key);
+    if (existing) return this.join(key, existing, signal, true);
+
+    const controller = new AbortController();
+    const created: SharedRequest<T> = {
+      controller,
+      waiting: 0,
+      promise: start(controller.signal).finally(() => this.forget(key, created)),
+    };
+    this.requests.set(key, created);
+    return this.join(key, created, signal, false);
+  }
+
+  private join(
+    key: string,
+    shared: SharedRequest<T>,
+    signal: AbortSignal | undefined,
+    joined: boolean
+  ): Promise<Result<T, ApiError>> {
+    shared.waiting++;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        if (--shared.waiting === 0) {
+          // Last caller: cancel the request and report its outcome once its hooks have run.
+          this.forget(key, shared);
+          shared.controller.abort(signal?.reason);
+          return;
+        }
+        settled = true;
+        resolve(err(abortedError("Request aborted", signal?.reason)));
+      };
+      const settle = () => {
+        if (settled) return false;
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        return true;
+      };
+      shared.promise.then(
+        (result) => {
+          if (!settle()) return;
+          if (!joined) resolve(result);
+          else resolve(result.ok ? ok(this.copy(result.value)) : err({ ...result.error }));
+        },
+        (e: unknown) => {
+          // A throwing onRequest hook fails every caller, as it would a single request.
+          if (settle()) reject(e);
+        }
+      );
+
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private forget(key: string, shared: SharedRequest<T>): void {
+    if (this.requests.get(key) === shared) this.requests.delete(key);
+  }
+}
@@ -0,0 +1,177 @@
+import type { Options as KyOptions } from "ky";
+
+import type { RequestHooks, RequestRetryOptions } from "../config";
+import type { ApiError } from "../errors";
+import { networkError, timeoutError, unknownError } from "../errors";
+import { redactError, type RedactionPolicy } from "../redaction";
+import type { Result } from "../result";
+import { err } from "../result";
+
+/** How a successful response body is read */
+export type ResponseType = "json" | "text" | "arrayBuffer";
+
+/**
+ * A request as it passes through the middleware chain. Middleware rewrites it
+ * by passing a modified copy to `next`.
+ */
+export type MiddlewareRequest = {
+  method: string;
+  /** Path relative to `baseUrl`, without a leading slash */
+  path: string;
+  /**
+   * Route template of `path`, e.g. `athlete/{id}/activities`: the one the
+   * resource method declared, or one derived from the path for other requests
+   */
+  route: string;
+  /** Resource method that made the request, e.g. `activities.getStreams` */
+  operation?: string | undefined;
+  searchParams?: KyOptions["searchParams"] | undefined;
+  /** Request headers with lower-case names; Authorization is added per attempt */
+  headers: Record<string, string>;
+  json?: unknown;
+  body?: KyOptions["body"] | undefined;
+  responseType: ResponseType;
+  /** Retry overrides, or `false` to disable retries */
+  retry?: RequestRetryOptions | false | undefined;
+  /** Timeout per attempt */
+  timeoutMs?: number | undefined;
+  signal?: AbortSignal | undefined;
+  /** `context` from the caller's `RequestOverrides` */
+  context?: Record<string, unknown> | undefined;
+  /** Called before each retry; the `onRetry` hook is chained onto it */
+  onRetry?: RequestHooks["onRetry"] | undefined;
+  /** Called as each attempt is sent, including retries and the replay after a 401 refresh */
+  onAttempt?: AttemptListener | undefined;
+};
+
+export type AttemptInfo = {
+  method: string;
+  path: string;
+  route: string;
+  operation?: string;
+  /** 1 for the first attempt, 2 for the first resend, and so on */
+  attempt: number;
+  context?: Record<string, unknown>;
+};
+
+export type AttemptOutcome = {
+  /** Response status; absent when no response arrived */
+  status?: number;
+  /** What the attempt failed with on its own, whether or not it is retried */
+  errorKind?: ApiError["kind"];
+  durationMs: number;
+};
+
+/**
+ * Observes a single attempt on the wire. Returns a function to call with the
+ * attempt's outcome, if it wants one. Chain onto an existing listener rather
+ * than replacing it; fresh cache hits send nothing and produce no attempt.
+ */
+export type AttemptListener = (info: AttemptInfo) => ((outcome: AttemptOutcome) => void) | void;
+
+export type MiddlewareResponse = {
+  status: number;
+  headers: Headers;
+  /** Parsed JSON, text or ArrayBuffer, depending on the request's `responseType` */
+  body: unknown;
+  /** Set when the body came from the response cache */
+  cache?: "hit" | "revalidated";
+  /** Attempts sent, including retries; 0 for cache hits */
+  attempts?: number;
+};
+
+export type MiddlewareResult = Result<MiddlewareResponse, ApiError>;
+
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<MiddlewareResult>;
+
+/**
+ * One step around the request, including its retries. A middleware can
+ * rewrite the request before calling `next`, return a `Result` without
+ * calling `next` at all, or transform what `next` returns.
+ *
+ * @example
+ * const addTenant: Middleware = (request, next) =>
+ *   next({ ...request, headers: { ...request.headers, "x-tenant": "acme" } });
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<MiddlewareResult>;
+
+/** Chain `middleware` in order (the first one runs outermost) in front of `last`. */
+export function composeMiddleware(middleware: readonly Middleware[], last: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>((next, step) => (request) => step(request, next), last);
+}
+
+/**
+ * The error returned when onResponse throws: the hook runs as part of the
+ * request, so its error fails the request like a network error would.
+ */
+function hookError(e: unknown): ApiError {
+  const message = e instanceof Error ? e.message : "Request failed";
+  if (e instanceof Error && e.name === "TimeoutError") return timeoutError(message, e);
+  if (e instanceof Error) return networkError(message, e);
+  return unknownError(message, e);
+}
+
+/**
+ * `RequestHooks` as middleware: onRequest before the request, onResponse or
+ * onError once it finished, and onRetry chained onto the request's own.
+ * A throwing onResponse fails the request (and onError sees it); a throwing
+ * onError is ignored so it can't mask the original error.
+ */
+export function hooksMiddleware(hooks: RequestHooks, redaction: RedactionPolicy | false = {}): Middleware {
+  return async (request, next) => {
+    const base = {
+      method: request.method,
+      path: request.path,
+      route: request.route,
+      ...(request.operation ? { operation: request.operation } : {}),
+      ...(request.context ? { context: request.context } : {}),
+    };
+    const startTime = Date.now();
+
+    if (hooks.onRequest) {
+      const info: Parameters<NonNullable<RequestHooks["onRequest"]>>[0] = { ...base };
+      if (request.searchParams) info.options = { searchParams: request.searchParams as unknown };
+      await hooks.onRequest(info);
+    }
+
+    const { onRetry } = hooks;
+    const previous = request.onRetry;
+    const result = await next(
+      onRetry
+        ? {
+            ...request,
+            onRetry: async (info) => {
+              await previous?.(info);
+              await onRetry(info);
+            },
+          }
+        : request
+    );
+
+    let failure: ApiError;
+    if (result.ok) {
+      try {
+        await hooks.onResponse?.({
+          ...base,
+          status: result.value.status,
+          durationMs: Date.now() - startTime,
+          ...(result.value.cache ? { cache: result.value.cache } : {}),
+        });
+        return result;
+      } catch (e) {
+        failure = hookError(e);
+      }
+    } else {
+      failure = result.error;
+    }
+
+    const error = "cause" in failure && failure.cause !== undefined ? failure.cause : new Error(failure.message);
+    try {
+      const apiError = redaction === false ? failure : redactError(failure, redaction);
+      await hooks.onError?.({ ...base, error, apiError, durationMs: Date.now() - startTime });
+    } catch {
+      // Swallowed, see RequestHooks.onError
+    }
+    return result.ok ? err(failure) : result;
+  };
+}
@@ -0,0 +1,103 @@
+import type { ApiError } from "../errors";
+import type { Result } from "../result";
+import { unknownError } from "../errors";
+import { err, ok } from "../result";
+
+export type DateWindowOptions = {
+  /** Local ISO-8601 date (or date and time) to start iterating from */
+  oldest: string;
+  /** Local ISO-8601 date (or date and time) to stop at, inclusive (defaults to today) */
+  newest?: string;
+  /**
+   * Number of days requested per API call.
+   * Default: 90
+   */
+  windowDays?: number;
+};
+
+export type DateWindow = {
+  oldest: string;
+  newest: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are local calendar dates; they are counted as UTC days only so that
+// window arithmetic isn't shifted by time zones or DST.
+function parseLocalDate(value: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?$/.exec(value);
+  if (!match) throw new Error(`Invalid ISO-8601 date: ${value}`);
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function formatLocalDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function today(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Splits an inclusive date range into consecutive, non-overlapping windows
+ * of at most `windowDays` days, oldest first. A time of day on `oldest` or
+ * `newest` is kept on the first and last window; the boundaries in between
+ * are whole days.
+ */
+export function dateWindows(options: DateWindowOptions): DateWindow[] {
+  const windowDays = Math.max(1, Math.floor(options.windowDays ?? 90));
+  const newest = options.newest ?? today();
+  const start = parseLocalDate(options.oldest);
+  const end = parseLocalDate(newest);
+
+  const windows: DateWindow[] = [];
+  for (let from = start; from <= end; from += windowDays * DAY_MS) {
+    const to = Math.min(from + (windowDays - 1) * DAY_MS, end);
+    windows.push({ oldest: formatLocalDate(from), newest: formatLocalDate(to) });
+  }
+
+  const first = windows[0];
+  const last = windows[windows.length - 1];
+  if (first) first.oldest = options.oldest;
+  if (last) last.newest = newest;
+  return windows;
+}
+
+/**
+ * Walks a date range window by window, yielding one `Result` per item.
+ *
+ * Items already seen in a previous window (matched by `getId`) are skipped, so
+ * records straddling a window boundary are only yielded once. Iteration stops
+ * after yielding the first error.
+ */
+export async function* iterateDateWindows<T>(
+  options: DateWindowOptions,
+  fetchWindow: (window: DateWindow) => Promise<Result<T[], ApiError>>,
+  getId: (item: T) => string | number
+): AsyncGenerator<Result<T, ApiError>, void, undefined> {
+  let windows: DateWindow[];
+  try {
+    windows = dateWindows(options);
+  } catch (e) {
+    yield err(unknownError(e instanceof Error ? e.message : "Invalid date range", e));
+    return;
+  }
+
+  const seen = new Set<string | number>();
+  for (const window of windows) {
+    const page = await fetchWindow(window);
+    if (!page.ok) {
+      yield page;
+      return;
+    }
+
+    for (const item of page.value) {
+      const id = getId(item);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      yield ok(item);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+export type RateLimiterOptions = {
+  /**
+   * Requests allowed per `intervalMs` (token bucket refill rate).
+   * Default: unlimited
+   */
+  requestsPerInterval?: number;
+  /**
+   * Refill interval for `requestsPerInterval`.
+   * Default: 1000ms
+   */
+  intervalMs?: number;
+  /**
+   * Bucket size, i.e. how many requests may start back to back after an idle period.
+   * Default: `requestsPerInterval`
+   */
+  burst?: number;
+  /**
+   * Maximum number of requests in flight at once.
+   * Default: unlimited
+   */
+  maxConcurrent?: number;
+};
+
+/** Returned by `RateLimiter.acquire`; call it once the request has finished. Safe to call twice. */
+export type ReleaseSlot = () => void;
+
+/**
+ * Token-bucket rate limiter with a max-concurrency FIFO queue.
+ *
+ * Pass one instance as `rateLimit` to several `IntervalsClient`s to share the
+ * budget between them (e.g. batch jobs over many athletes with one API key).
+ * A 429 with `Retry-After` pauses the whole queue, not just the request that got it.
+ */
+export class RateLimiter {
+  private readonly ratePerMs: number;
+  private readonly capacity: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly queue: (() => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const perInterval = options.requestsPerInterval ?? Infinity;
+    this.ratePerMs = perInterval / (options.intervalMs ?? 1_000);
+    // Without a rate there is nothing to burst over.
+    this.capacity = options.requestsPerInterval === undefined ? Infinity : (options.burst ?? perInterval);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.tokens = this.capacity;
+
+    if (!(this.ratePerMs > 0) || !(this.capacity >= 1) || !(this.maxConcurrent >= 1)) {
+      throw new RangeError("RateLimiter requires positive requestsPerInterval, intervalMs, burst and maxConcurrent");
+    }
+  }
+
+  /** Requests waiting for a slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Requests holding a slot */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Wait until a request may start. Requests start in the order they asked.
+   * Aborting `signal` while queued gives up the place and rejects with its reason.
+   */
+  acquire(signal?: AbortSignal): Promise<ReleaseSlot> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        const index = this.queue.indexOf(start);
+        if (index !== -1) this.queue.splice(index, 1);
+        reject(signal?.reason);
+      };
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          this.active--;
+          this.drain();
+        });
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(start);
+      this.drain();
+    });
+  }
+
+  /**
+   * Hold all queued and new requests for `ms` (e.g. from a Retry-After header).
+   * Overlapping pauses extend to the latest end.
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  private refill(now: number): void {
+    if (this.tokens >= this.capacity) {
+      this.lastRefill = now;
+      return;
+    }
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.schedule(Math.ceil((1 - this.tokens) / this.ratePerMs));
+        return;
+      }
+      this.tokens -= 1;
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  private schedule(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(1, ms));
+  }
+}
@@ -1,23 +1,112 @@
 // Main client
+export type { UnwrappedIntervalsClient } from "./client";
 export { IntervalsClient } from "./client";
 
 // Configuration types
 export type {
   IntervalsClientConfig,
   IntervalsAuth,
+  IntervalsCredentials,
+  ProvidedCredentials,
+  CredentialProvider,
+  OAuthTokenProvider,
   RetryConfig,
+  RequestRetryOptions,
+  RetryableErrorKind,
 } from "./config";
+export type { RequestOverrides } from "./http/httpClient";
+export type {
+  AttemptInfo,
+  AttemptListener,
+  AttemptOutcome,
+  Middleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  MiddlewareResult,
+  ResponseType,
+} from "./http/middleware";
+
+// Rate limiting
+export type { RateLimiterOptions, ReleaseSlot } from "./http/rateLimiter";
+export { RateLimiter } from "./http/rateLimiter";
+
+// Telemetry
+export type {
+  OpenTelemetryOptions,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from "./telemetry/openTelemetry";
+export { openTelemetryMiddleware } from "./telemetry/openTelemetry";
+
+// Caching
+export type { CacheConfig, CacheEntry, CacheStorage, CacheTtlOverride } from "./http/cache";
+export { MemoryCacheStorage } from "./http/cache";
+
+// OAuth
+export type {
+  OAuthScope,
+  IntervalsOAuthConfig,
+  AuthorizeUrlOptions,
+} from "./oauth/oauth";
+export { IntervalsOAuth } from "./oauth/oauth";
+export type { OAuthTokens, TokenStore } from "./oauth/tokenStore";
+export { MemoryTokenStore } from "./oauth/tokenStore";
+export type { OAuthTokenResponse } from "./schemas/oauth";
+export { decodeOAuthTokenResponse } from "./schemas/oauth";
+
+// Pagination types
+export type { DateWindowOptions } from "./http/pagination";
 
 // Error types
-export type { ApiError } from "./errors";
+export type { ApiError, ErrorRequestInfo, FieldError } from "./errors";
+export { IntervalsApiError, isRetryable } from "./errors";
+
+// Redaction of logged error bodies
+export type { RedactionPolicy } from "./redaction";
+export { redact, redactError } from "./redaction";
+
+// Schema drift
+export type {
+  DecodeOptions,
+  SchemaDriftIssue,
+  SchemaDriftReport,
+  SchemaMode,
+} from "./schemas/drift";
+export { findSchemaDrift, SchemaDriftError } from "./schemas/drift";
+
+// Lenient list decoding
+export type {
+  LenientList,
+  LenientListOptions,
+  ListItemFailure,
+  ListResult,
+} from "./schemas/lenientList";
+export type { ModelKey, SelectFields, SelectFieldsWithId } from "./schemas/fields";
 
 // Result type and helpers
 export type { Result } from "./result";
-export { err, ok } from "./result";
+export {
+  all,
+  allSettled,
+  andThen,
+  AsyncResult,
+  chain,
+  err,
+  map,
+  mapErr,
+  match,
+  ok,
+  unwrapOr,
+} from "./result";
+export type { Unwrapped, UnwrappedIterateMethod, UnwrappedListMethod } from "./unwrap";
+export { unwrap, unwrapResource } from "./unwrap";
 
 // Data types - Activities
 export type {
   Activity,
+  ActivityField,
   Activities,
   Interval,
   IntervalsResponse,
@@ -25,25 +114,63 @@ export type {
   ActivityStream,
   ActivityStreams,
   Anomaly,
+  StreamValue,
+  StreamData,
+  StreamSeries,
+  KnownStreamValues,
+  KnownStreamType,
+  TypedActivityStreams,
   UpdateStreamsResponse,
   PowerCurve,
   PaceCurve,
   HRCurve,
+  ActivityMap,
+  ActivitySegment,
+  ActivitySegments,
+  WeatherSummary,
+  BestEffort,
+  BestEfforts,
+  HistogramBucket,
+  Histogram,
+  PowerVsHRBucket,
+  PowerVsHR,
+  TimeAtHR,
+  PowerSpikeModel,
+  HRLoadModel,
 } from "./schemas/activity";
 
 // Decoder functions for Activities (useful for webhook payload parsing)
 export {
   decodeActivity,
   decodeActivities,
+  decodeActivitiesLenient,
   decodeIntervalsResponse,
   decodeActivityId,
   decodeActivityStreams,
+  decodeActivityStreamsLenient,
+  decodeTypedActivityStreams,
+  toTypedActivityStreams,
   decodeUpdateStreamsResponse,
   decodePowerCurve,
   decodePaceCurve,
   decodeHRCurve,
+  decodeActivityMap,
+  decodeActivitySegments,
+  decodeActivitySegmentsLenient,
+  decodeWeatherSummary,
+  decodeBestEfforts,
+  decodeHistogram,
+  decodeHistogramLenient,
+  decodePowerVsHR,
+  decodeTimeAtHR,
+  decodePowerSpikeModel,
+  decodeHRLoadModel,
 } from "./schemas/activity";
 
+// Stream helpers
+export type { AlignedStreamSample } from "./utils/streams";
+export { alignStreams, indexAtTime, sliceStreams } from "./utils/streams";
+
 // Data types - Events
 export type {
   Event,
@@ -60,10 +187,98 @@ export type {
 export {
   decodeEvent,
   decodeEvents,
+  decodeEventsLenient,
   decodeDeleteEventsResponse,
   decodeEventTags,
+  encodeEventInput,
 } from "./schemas/event";
 
+// Data types - Structured workouts
+export type {
+  WorkoutDoc,
+  WorkoutStep,
+  WorkoutRepeat,
+  WorkoutTarget,
+  WorkoutTargetUnits,
+  WorkoutTargetType,
+} from "./schemas/workout";
+
+// Decoder/encoder functions for structured workouts
+export {
+  decodeWorkoutDoc,
+  encodeWorkoutDoc,
+  isWorkoutRepeat,
+} from "./schemas/workout";
+
+// Text workout syntax
+export type {
+  WorkoutSyntaxError,
+  IndexedWorkoutSyntaxError,
+  WorkoutFormatError,
+} from "./formats/workoutText";
+export {
+  parseWorkoutText,
+  formatWorkoutText,
+  findWorkoutSyntaxErrors,
+} from "./formats/workoutText";
+
+// Trainer workout files (ZWO, MRC, ERG)
+export type {
+  WorkoutFileFormat,
+  WorkoutFileError,
+  WorkoutFileOptions,
+} from "./formats/workoutFiles";
+export {
+  formatZwo,
+  parseZwo,
+  formatMrc,
+  parseMrc,
+  formatErg,
+  parseErg,
+  formatWorkoutFile,
+  parseWorkoutFile,
+} from "./formats/workoutFiles";
+
+// Activity records (shared by FIT, GPX and TCX)
+export type {
+  ActivityRecord,
+  TimedActivityRecord,
+  ActivityFileError,
+} from "./formats/records";
+export { recordsToStreams } from "./formats/records";
+
+// GPX and TCX files
+export type { GpxFile, GpxTrack, GpxRoute, GpxWriteInput } from "./formats/gpx";
+export { parseGpx, formatGpx, gpxRecords } from "./formats/gpx";
+export type { TcxFile, TcxActivity, TcxLap, TcxWriteInput } from "./formats/tcx";
+export { parseTcx, formatTcx, tcxRecords } from "./formats/tcx";
+
+// FIT files and zip archives
+export type {
+  FitDecodeError,
+  FitDecodeOptions,
+  FitHeader,
+  FitFile,
+  FitFileId,
+  FitRecord,
+  FitLap,
+  FitSession,
+  FitEvent,
+  FitDeviceInfo,
+  FitActivity,
+  FitValue,
+  FitRawMessage,
+} from "./formats/fitDecoder";
+export {
+  decodeFit,
+  decodeFitFiles,
+  decodeFitArchive,
+} from "./formats/fitDecoder";
+export type { FitEncodeInput, FitEncodeError } from "./formats/fitEncoder";
+export { encodeFit } from "./formats/fitEncoder";
+export type { ZipEntry, ZipError } from "./formats/zip";
+export { unzip } from "./formats/zip";
+
 // Data types - Athletes
 export type {
   Athlete,
@@ -82,11 +297,13 @@ export {
   decodeAthleteSettings,
   decodeAthleteProfile,
   decodeAthleteSummary,
+  decodeAthleteSummaryLenient,
 } from "./schemas/athlete";
 
 // Data types - Wellness
 export type {
   Wellness,
+  WellnessField,
   WellnessList,
   SportInfo,
 } from "./schemas/wellness";
@@ -95,6 +312,7 @@ export type {
 export {
   decodeWellness,
   decodeWellnessList,
+  decodeWellnessListLenient,
 } from "./schemas/wellness";
 
 // Data types - Library
@@ -110,9 +328,12 @@ export type {
 export {
   decodeWorkout,
   decodeWorkouts,
+  decodeWorkoutsLenient,
   decodeFolder,
   decodeFolders,
+  decodeFoldersLenient,
   decodeWorkoutTags,
+  encodeWorkout,
 } from "./schemas/library";
 
 // Data types - Chats
@@ -128,10 +349,38 @@ export type {
 export {
   decodeChat,
   decodeChats,
+  decodeChatsLenient,
   decodeMessage,
   decodeMessages,
+  decodeMessagesLenient,
 } from "./schemas/chat";
 
+// Webhooks
+export type {
+  WebhookEvent,
+  WebhookEventType,
+  KnownWebhookEventType,
+  ActivityWebhookEvent,
+  CalendarUpdatedEvent,
+  WellnessUpdatedEvent,
+  UnknownWebhookEvent,
+} from "./schemas/webhook";
+export { decodeWebhookEvent } from "./schemas/webhook";
+export type {
+  WebhookError,
+  WebhookHandlers,
+  WebhookHandlerOptions,
+  WebhookRequestHandler,
+} from "./webhooks/handler";
+export {
+  createWebhookHandler,
+  decodeWebhookPayload,
+  dispatchWebhookEvents,
+  verifyWebhookSecret,
+} from "./webhooks/handler";
+export type { NodeWebhookRequest, NodeWebhookResponse } from "./webhooks/node";
+export { toNodeHandler, toExpressHandler } from "./webhooks/node";
+
 // Common schemas
 export { ActivityTypeSchema } from "./schemas/common";
 export type { ActivityType } from "./schemas/common";
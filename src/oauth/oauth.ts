@@ -0,0 +1,226 @@
+import ky from "ky";
+
+import type { OAuthTokenProvider } from "../config";
+import type { ApiError } from "../errors";
+import { networkError, timeoutError, unknownError } from "../errors";
+import { extractIssues, httpErrorFromStatus, readBodyBestEffort } from "../http/httpClient";
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import { decodeOAuthTokenResponse } from "../schemas/oauth";
+import type { OAuthTokens, TokenStore } from "./tokenStore";
+
+/** Known scopes; other strings are passed through as-is */
+export type OAuthScope =
+  | "ACTIVITY:READ"
+  | "ACTIVITY:WRITE"
+  | "WELLNESS:READ"
+  | "WELLNESS:WRITE"
+  | "CALENDAR:READ"
+  | "CALENDAR:WRITE"
+  | "SETTINGS:READ"
+  | "SETTINGS:WRITE"
+  | "LIBRARY:READ"
+  | "LIBRARY:WRITE"
+  | (string & {});
+
+export type IntervalsOAuthConfig = {
+  clientId: string;
+  clientSecret: string;
+  /** Default redirect URI for `authorizeUrl` and `exchangeCode` */
+  redirectUri?: string;
+  /** Where tokens are kept; required for `tokenProvider` */
+  store?: TokenStore;
+  /** Default: `https://intervals.icu/oauth/authorize` */
+  authorizeUrl?: string;
+  /** Default: `https://intervals.icu/api/oauth/token` */
+  tokenUrl?: string;
+  /**
+   * Refresh this long before `expiresAt` instead of waiting for a 401.
+   * Default: 60000ms
+   */
+  refreshSkewMs?: number;
+  /** Request timeout for the token endpoint. Default: 30000ms */
+  timeoutMs?: number;
+};
+
+export type AuthorizeUrlOptions = {
+  scopes: OAuthScope[];
+  /** Opaque value echoed back to the redirect URI; use it for CSRF protection */
+  state?: string;
+  /** Overrides `redirectUri` from the config */
+  redirectUri?: string;
+};
+
+export const DEFAULT_AUTHORIZE_URL = "https://intervals.icu/oauth/authorize";
+export const DEFAULT_TOKEN_URL = "https://intervals.icu/api/oauth/token";
+
+/**
+ * OAuth 2.0 authorization-code flow for Intervals.icu apps: build the authorize
+ * URL, exchange the callback code for tokens, refresh them, and hand a token
+ * provider to `IntervalsClient` so expired tokens are refreshed transparently.
+ *
+ * @example
+ * ```ts
+ * const oauth = new IntervalsOAuth({ clientId, clientSecret, redirectUri, store });
+ * res.redirect(oauth.authorizeUrl({ scopes: ["ACTIVITY:READ"], state }));
+ * // in the callback:
+ * await oauth.exchangeCode(code, { key: userId });
+ * const client = new IntervalsClient({ auth: { type: "oauth", tokens: oauth.tokenProvider(userId) } });
+ * ```
+ */
+export class IntervalsOAuth {
+  private readonly refreshing = new Map<string, Promise<Result<OAuthTokens, ApiError>>>();
+
+  constructor(private readonly config: IntervalsOAuthConfig) {}
+
+  /**
+   * URL to send the user to for consent.
+   * @throws Error if no redirect URI is configured or passed
+   */
+  authorizeUrl(options: AuthorizeUrlOptions): string {
+    const redirectUri = options.redirectUri ?? this.config.redirectUri;
+    if (!redirectUri) throw new Error("authorizeUrl requires a redirectUri");
+
+    const url = new URL(this.config.authorizeUrl ?? DEFAULT_AUTHORIZE_URL);
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("scope", options.scopes.join(","));
+    if (options.state !== undefined) url.searchParams.set("state", options.state);
+    return url.toString();
+  }
+
+  /**
+   * Exchange the `code` from the redirect for tokens. When `key` is given the
+   * tokens are saved to the configured store under it.
+   */
+  async exchangeCode(
+    code: string,
+    options?: { redirectUri?: string; key?: string }
+  ): Promise<Result<OAuthTokens, ApiError>> {
+    const params: Record<string, string> = { grant_type: "authorization_code", code };
+    const redirectUri = options?.redirectUri ?? this.config.redirectUri;
+    if (redirectUri) params.redirect_uri = redirectUri;
+
+    const result = await this.requestTokens(params);
+    if (result.ok && options?.key !== undefined) {
+      await this.requireStore().set(options.key, result.value);
+    }
+    return result;
+  }
+
+  /**
+   * Get new tokens with a refresh token. A response without a new refresh
+   * token keeps the old one.
+   */
+  async refresh(refreshToken: string): Promise<Result<OAuthTokens, ApiError>> {
+    const result = await this.requestTokens({ grant_type: "refresh_token", refresh_token: refreshToken });
+    if (result.ok && !result.value.refreshToken) {
+      return ok({ ...result.value, refreshToken });
+    }
+    return result;
+  }
+
+  /**
+   * Refresh the stored tokens for `key` and save the result. Concurrent calls
+   * for the same key share one request.
+   */
+  refreshStored(key: string): Promise<Result<OAuthTokens, ApiError>> {
+    const pending = this.refreshing.get(key);
+    if (pending) return pending;
+
+    const run = (async (): Promise<Result<OAuthTokens, ApiError>> => {
+      const store = this.requireStore();
+      const tokens = await store.get(key);
+      if (!tokens?.refreshToken) {
+        return err({ kind: "Unauthorized", status: 401, message: `No refresh token stored for "${key}"` });
+      }
+      const result = await this.refresh(tokens.refreshToken);
+      if (result.ok) await store.set(key, { ...tokens, ...result.value });
+      return result;
+    })().finally(() => this.refreshing.delete(key));
+
+    this.refreshing.set(key, run);
+    return run;
+  }
+
+  /**
+   * Token provider for `IntervalsClient` backed by the stored tokens for `key`.
+   * Refreshes ahead of a known expiry, and once after a 401.
+   */
+  tokenProvider(key: string): OAuthTokenProvider {
+    const skew = this.config.refreshSkewMs ?? 60_000;
+    return {
+      getAccessToken: async () => {
+        const tokens = await this.requireStore().get(key);
+        if (!tokens) throw new Error(`No OAuth tokens stored for "${key}"`);
+        if (tokens.refreshToken && tokens.expiresAt !== undefined && tokens.expiresAt - skew <= Date.now()) {
+          const refreshed = await this.refreshStored(key);
+          if (refreshed.ok) return refreshed.value.accessToken;
+        }
+        return tokens.accessToken;
+      },
+      refreshAccessToken: async (rejectedToken) => {
+        // Another request may already have refreshed since this one was sent.
+        const current = await this.requireStore().get(key);
+        if (current && current.accessToken !== rejectedToken) return current.accessToken;
+        const refreshed = await this.refreshStored(key);
+        return refreshed.ok ? refreshed.value.accessToken : undefined;
+      },
+    };
+  }
+
+  private requireStore(): TokenStore {
+    if (!this.config.store) throw new Error("IntervalsOAuth requires a token store for this operation");
+    return this.config.store;
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<Result<OAuthTokens, ApiError>> {
+    const body = new URLSearchParams({
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+      ...params,
+    });
+
+    let res: Response;
+    try {
+      res = await ky.post(this.config.tokenUrl ?? DEFAULT_TOKEN_URL, {
+        body,
+        headers: { accept: "application/json" },
+        timeout: this.config.timeoutMs ?? 30_000,
+        throwHttpErrors: false,
+        retry: 0,
+      });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Token request failed";
+      if (e instanceof Error && e.name === "TimeoutError") return err(timeoutError(msg, e));
+      if (e instanceof Error) return err(networkError(msg, e));
+      return err(unknownError(msg, e));
+    }
+
+    const data = await readBodyBestEffort(res);
+    if (!res.ok) {
+      return err(httpErrorFromStatus(res.status, `HTTP ${res.status} ${res.statusText}`.trim(), data));
+    }
+
+    try {
+      const response = decodeOAuthTokenResponse(data);
+      const tokens: OAuthTokens = {
+        accessToken: response.accessToken,
+        tokenType: response.tokenType ?? "Bearer",
+      };
+      if (response.refreshToken) tokens.refreshToken = response.refreshToken;
+      if (response.expiresIn != null) tokens.expiresAt = Date.now() + response.expiresIn * 1000;
+      if (response.scope) tokens.scopes = response.scope.split(/[,\s]+/).filter(Boolean);
+      if (response.athlete) tokens.athleteId = String(response.athlete.id);
+      return ok(tokens);
+    } catch (e) {
+      return err({
+        kind: "Schema",
+        message: "Token response validation failed",
+        issues: extractIssues(e),
+        cause: e,
+      });
+    }
+  }
+}
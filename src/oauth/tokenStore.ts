@@ -0,0 +1,45 @@
+/**
+ * OAuth tokens for one athlete, as kept in a `TokenStore`.
+ */
+export type OAuthTokens = {
+  accessToken: string;
+  /** Usually `Bearer` */
+  tokenType: string;
+  refreshToken?: string;
+  /** Expiry as milliseconds since the epoch, if the server sent `expires_in` */
+  expiresAt?: number;
+  /** Granted scopes */
+  scopes?: string[];
+  /** Athlete the tokens belong to, if the server sent it */
+  athleteId?: string;
+};
+
+/**
+ * Persistence for OAuth tokens, keyed by an app-defined string (e.g. your user
+ * ID or the athlete ID). Implement this over a database, Redis, etc.
+ */
+export interface TokenStore {
+  get(key: string): Promise<OAuthTokens | undefined>;
+  set(key: string, tokens: OAuthTokens): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Process-local `TokenStore`. Tokens are lost on restart, so use it for
+ * scripts and tests.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private readonly tokens = new Map<string, OAuthTokens>();
+
+  async get(key: string): Promise<OAuthTokens | undefined> {
+    return this.tokens.get(key);
+  }
+
+  async set(key: string, tokens: OAuthTokens): Promise<void> {
+    this.tokens.set(key, tokens);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
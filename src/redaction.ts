@@ -0,0 +1,83 @@
+import type { ApiError } from "./errors";
+
+/**
+ * What to mask in error bodies before they reach hooks and logs. Each
+ * category is on unless set to `false`.
+ */
+export type RedactionPolicy = {
+  /**
+   * Athlete IDs (`i12345`), long numeric IDs and the values of ID keys
+   * (`id`, `athlete_id`, `activityId`, ...).
+   * Default: true
+   */
+  ids?: boolean;
+  /** Email addresses. Default: true */
+  emails?: boolean;
+  /**
+   * Bearer/Basic credentials, JWTs and the values of secret keys (`token`,
+   * `password`, `api_key`, `authorization`, ...).
+   * Default: true
+   */
+  tokens?: boolean;
+  /** Extra keys whose values are always masked */
+  keys?: (string | RegExp)[];
+  /** Extra patterns masked inside strings */
+  patterns?: RegExp[];
+  /** Default: "[REDACTED]" */
+  replacement?: string;
+};
+
+const ID_KEY = /^(id|.*_id|.*[a-z]Id)$/;
+const ID_VALUE = /\bi\d+\b|\b\d{6,}\b/g;
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const TOKEN_KEY = /token|secret|password|authorization|api_?key|cookie/i;
+const TOKEN_VALUE = /\b(Bearer|Basic)\s+[\w.~+/=-]+|\beyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+
+function redactKey(key: string, policy: RedactionPolicy): boolean {
+  if (policy.ids !== false && ID_KEY.test(key)) return true;
+  if (policy.tokens !== false && TOKEN_KEY.test(key)) return true;
+  return (policy.keys ?? []).some((k) => (typeof k === "string" ? k === key : k.test(key)));
+}
+
+function redactString(value: string, policy: RedactionPolicy, replacement: string): string {
+  let result = value;
+  // Tokens and emails first, so an ID inside them doesn't leave the rest behind.
+  if (policy.tokens !== false) result = result.replace(TOKEN_VALUE, replacement);
+  if (policy.emails !== false) result = result.replace(EMAIL, replacement);
+  if (policy.ids !== false) result = result.replace(ID_VALUE, replacement);
+  for (const pattern of policy.patterns ?? []) {
+    result = result.replace(pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`), replacement);
+  }
+  return result;
+}
+
+/**
+ * Copy of `value` (a parsed response body or string) with IDs, emails and
+ * tokens masked according to `policy`.
+ *
+ * @example
+ * redact({ error: "Athlete i12345 not found", email: "a@b.co" })
+ * // { error: "Athlete [REDACTED] not found", email: "[REDACTED]" }
+ */
+export function redact(value: unknown, policy: RedactionPolicy = {}): unknown {
+  const replacement = policy.replacement ?? "[REDACTED]";
+  const visit = (v: unknown): unknown => {
+    if (typeof v === "string") return redactString(v, policy, replacement);
+    if (Array.isArray(v)) return v.map(visit);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.entries(v).map(([key, child]) => [
+          key,
+          child !== null && typeof child !== "object" && redactKey(key, policy) ? replacement : visit(child),
+        ])
+      );
+    }
+    return v;
+  };
+  return visit(value);
+}
+
+/** `error` with its response body, if any, redacted */
+export function redactError(error: ApiError, policy: RedactionPolicy = {}): ApiError {
+  return "body" in error && error.body !== undefined ? { ...error, body: redact(error.body, policy) } : error;
+}
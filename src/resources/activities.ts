@@ -1,29 +1,56 @@
 import type { ApiError } from "../errors";
 import type { Result } from "../result";
 
-import type { IntervalsHttpClient } from "../http/httpClient";
+import { endpoint } from "../http/endpoint";
+import type { IntervalsHttpClient, RequestOverrides } from "../http/httpClient";
+import { iterateDateWindows, type DateWindowOptions } from "../http/pagination";
 import {
   decodeActivities,
+  decodeActivitiesLenient,
+  selectActivityFields,
   decodeActivity,
   decodeIntervalsResponse,
   decodeActivityId,
   decodeActivityStreams,
+  decodeTypedActivityStreams,
   decodeUpdateStreamsResponse,
   decodePowerCurve,
   decodePaceCurve,
   decodeHRCurve,
+  decodeActivityMap,
+  decodeActivitySegments,
+  decodeWeatherSummary,
+  decodeBestEfforts,
+  decodeHistogram,
+  decodePowerVsHR,
+  decodeTimeAtHR,
+  decodePowerSpikeModel,
+  decodeHRLoadModel,
   type Activities,
   type Activity,
+  type ActivityField,
   type IntervalsResponse,
   type ActivityId,
   type Interval,
   type ActivityStreams,
+  type TypedActivityStreams,
   type ActivityStream,
   type UpdateStreamsResponse,
   type PowerCurve,
   type PaceCurve,
   type HRCurve,
+  type ActivityMap,
+  type ActivitySegments,
+  type WeatherSummary,
+  type BestEfforts,
+  type Histogram,
+  type PowerVsHR,
+  type TimeAtHR,
+  type PowerSpikeModel,
+  type HRLoadModel,
 } from "../schemas/activity";
+import { listDecoder, type LenientListOptions, type ListResult } from "../schemas/lenientList";
+import type { SelectFieldsWithId } from "../schemas/fields";
 import { transformKeysToSnake } from "../utils/transform";
 
 export type ListActivitiesOptions = {
@@ -35,9 +62,15 @@ export type ListActivitiesOptions = {
   routeId?: number;
   /** Return at most this many activities */
   limit?: number;
-  /** Comma separated list of field names to include (default is all) */
-  fields?: string[];
-};
+  /**
+   * Only return these fields (default is all). Narrows the result to
+   * `Pick<Activity, ...>`; the fields left out aren't validated.
+   */
+  fields?: readonly ActivityField[];
+} & LenientListOptions;
+
+export type IterateActivitiesOptions = DateWindowOptions &
+  Omit<ListActivitiesOptions, "oldest" | "newest" | "limit" | "lenient">;
 
 export type GetActivityOptions = {
   /** Include interval data */
@@ -94,11 +127,15 @@ export class ActivitiesResource {
   /**
    * List activities for a date range in desc date order.
    * An empty stub object is returned for Strava activities.
+   * With `lenient: true`, resolves to `{ items, failures }` instead of failing
+   * when some activities don't match the schema. With `fields`, each activity
+   * is typed as `Pick<Activity, ...fields>`.
    */
-  list(
+  list<O extends ListActivitiesOptions = {}>(
     athleteId: string | number = 0,
-    options?: ListActivitiesOptions
-  ): Promise<Result<Activities, ApiError>> {
+    options?: O,
+    overrides?: RequestOverrides
+  ): Promise<Result<ListResult<Activity, O>, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
     if (options?.newest) searchParams.newest = options.newest;
@@ -106,37 +143,68 @@ export class ActivitiesResource {
       searchParams.route_id = String(options.routeId);
     if (options?.limit !== undefined)
       searchParams.limit = String(options.limit);
-    if (options?.fields) searchParams.fields = options.fields.join(",");
+    const selection = options?.fields && selectActivityFields(options.fields);
+    if (selection) searchParams.fields = selection.apiFields.join(",");
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activities`,
+      endpoint("activities.list", "athlete/{id}/activities", { id: athleteId }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
-      decodeActivities
+      listDecoder(
+        options,
+        selection?.decode ?? decodeActivities,
+        selection?.decodeLenient ?? decodeActivitiesLenient
+      )
     );
   }
 
+  /**
+   * Iterate over all activities in a date range, fetching `windowDays` at a time.
+   * Stops after yielding the first error. With `fields`, each activity is typed
+   * as `Pick<...>` of the selected fields and `id`, which is always requested.
+   */
+  iterate<O extends IterateActivitiesOptions>(
+    athleteId: string | number,
+    options: O,
+    overrides?: RequestOverrides
+  ): AsyncIterable<Result<SelectFieldsWithId<Activity, O>, ApiError>> {
+    const { oldest, newest, windowDays, ...rest } = options;
+    const listOptions: Omit<IterateActivitiesOptions, keyof DateWindowOptions> = rest;
+    // Duplicates across windows are dropped by id, so it is always requested.
+    if (listOptions.fields && !listOptions.fields.includes("id")) {
+      listOptions.fields = [...listOptions.fields, "id"];
+    }
+    return iterateDateWindows(
+      options,
+      (window) => this.list(athleteId, { ...listOptions, ...window }, overrides),
+      (activity) => activity.id
+    ) as AsyncIterable<Result<SelectFieldsWithId<Activity, O>, ApiError>>;
+  }
+
   /**
    * Get a single activity by ID.
    * An empty stub object is returned for Strava activities.
    */
   get(
     id: string | number,
-    options?: GetActivityOptions
+    options?: GetActivityOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Activity, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.intervals !== undefined)
       searchParams.intervals = String(options.intervals);
 
     return this.http.requestJson(
-      `activity/${id}`,
+      endpoint("activities.get", "activity/{id}", { id }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeActivity
     );
@@ -148,11 +216,12 @@ export class ActivitiesResource {
    */
   update(
     id: string | number,
-    data: Partial<Activity>
+    data: Partial<Activity>,
+    overrides?: RequestOverrides
   ): Promise<Result<Activity, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}`,
-      { method: "PUT", json: transformKeysToSnake(data) },
+      endpoint("activities.update", "activity/{id}", { id }),
+      { method: "PUT", json: transformKeysToSnake(data), overrides },
       decodeActivity
     );
   }
@@ -160,10 +229,10 @@ export class ActivitiesResource {
   /**
    * Delete an activity.
    */
-  delete(id: string | number): Promise<Result<ActivityId, ApiError>> {
+  delete(id: string | number, overrides?: RequestOverrides): Promise<Result<ActivityId, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}`,
-      { method: "DELETE" },
+      endpoint("activities.delete", "activity/{id}", { id }),
+      { method: "DELETE", overrides },
       decodeActivityId
     );
   }
@@ -171,10 +240,13 @@ export class ActivitiesResource {
   /**
    * Get activity intervals.
    */
-  getIntervals(id: string | number): Promise<Result<IntervalsResponse, ApiError>> {
+  getIntervals(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<IntervalsResponse, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/intervals`,
-      {},
+      endpoint("activities.getIntervals", "activity/{id}/intervals", { id }),
+      { overrides },
       decodeIntervalsResponse
     );
   }
@@ -187,19 +259,21 @@ export class ActivitiesResource {
   updateIntervals(
     id: string | number,
     intervals: Interval[],
-    options?: UpdateIntervalsOptions
+    options?: UpdateIntervalsOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<IntervalsResponse, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.all !== undefined) searchParams.all = String(options.all);
 
     return this.http.requestJson(
-      `activity/${id}/intervals`,
+      endpoint("activities.updateIntervals", "activity/{id}/intervals", { id }),
       {
         method: "PUT",
         json: transformKeysToSnake(intervals),
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeIntervalsResponse
     );
@@ -210,11 +284,12 @@ export class ActivitiesResource {
    */
   deleteIntervals(
     id: string | number,
-    intervals: Interval[]
+    intervals: Interval[],
+    overrides?: RequestOverrides
   ): Promise<Result<IntervalsResponse, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/delete-intervals`,
-      { method: "PUT", json: transformKeysToSnake(intervals) },
+      endpoint("activities.deleteIntervals", "activity/{id}/delete-intervals", { id }),
+      { method: "PUT", json: transformKeysToSnake(intervals), overrides },
       decodeIntervalsResponse
     );
   }
@@ -225,11 +300,16 @@ export class ActivitiesResource {
   updateInterval(
     id: string | number,
     intervalId: number,
-    interval: Partial<Interval>
+    interval: Partial<Interval>,
+    overrides?: RequestOverrides
   ): Promise<Result<IntervalsResponse, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/intervals/${intervalId}`,
-      { method: "PUT", json: transformKeysToSnake(interval) },
+      endpoint(
+        "activities.updateInterval",
+        "activity/{id}/intervals/{intervalId}",
+        { id, intervalId }
+      ),
+      { method: "PUT", json: transformKeysToSnake(interval), overrides },
       decodeIntervalsResponse
     );
   }
@@ -239,11 +319,12 @@ export class ActivitiesResource {
    */
   splitInterval(
     id: string | number,
-    splitAt: number
+    splitAt: number,
+    overrides?: RequestOverrides
   ): Promise<Result<IntervalsResponse, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/split-interval`,
-      { method: "PUT", searchParams: { splitAt: String(splitAt) } },
+      endpoint("activities.splitInterval", "activity/{id}/split-interval", { id }),
+      { method: "PUT", searchParams: { splitAt: String(splitAt) }, overrides },
       decodeIntervalsResponse
     );
   }
@@ -254,7 +335,8 @@ export class ActivitiesResource {
    */
   getStreams(
     id: string | number,
-    options?: GetStreamsOptions
+    options?: GetStreamsOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<ActivityStreams, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.types) searchParams.types = options.types.join(",");
@@ -262,22 +344,50 @@ export class ActivitiesResource {
       searchParams.includeDefaults = String(options.includeDefaults);
 
     return this.http.requestJson(
-      `activity/${id}/streams.json`,
+      endpoint("activities.getStreams", "activity/{id}/streams.json", { id }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeActivityStreams
     );
   }
 
+  /**
+   * Get streams for the activity keyed by stream type, with data decoded
+   * into dense typed arrays (e.g. `watts: (number | null)[]`, `latlng: [lat, lng][]`).
+   */
+  getTypedStreams(
+    id: string | number,
+    options?: GetStreamsOptions,
+    overrides?: RequestOverrides
+  ): Promise<Result<TypedActivityStreams, ApiError>> {
+    const searchParams: Record<string, string> = {};
+    if (options?.types) searchParams.types = options.types.join(",");
+    if (options?.includeDefaults !== undefined)
+      searchParams.includeDefaults = String(options.includeDefaults);
+
+    return this.http.requestJson(
+      endpoint("activities.getTypedStreams", "activity/{id}/streams.json", { id }),
+      {
+        searchParams: Object.keys(searchParams).length
+          ? searchParams
+          : undefined,
+        overrides,
+      },
+      decodeTypedActivityStreams
+    );
+  }
+
   /**
    * Get streams for the activity in CSV format.
    */
   getStreamsCsv(
     id: string | number,
-    options?: GetStreamsOptions
+    options?: GetStreamsOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<string, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.types) searchParams.types = options.types.join(",");
@@ -285,11 +395,12 @@ export class ActivitiesResource {
       searchParams.includeDefaults = String(options.includeDefaults);
 
     return this.http.requestText(
-      `activity/${id}/streams.csv`,
+      endpoint("activities.getStreamsCsv", "activity/{id}/streams.csv", { id }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       }
     );
   }
@@ -299,11 +410,12 @@ export class ActivitiesResource {
    */
   updateStreams(
     id: string | number,
-    streams: ActivityStream[]
+    streams: ActivityStream[],
+    overrides?: RequestOverrides
   ): Promise<Result<UpdateStreamsResponse, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/streams`,
-      { method: "PUT", json: transformKeysToSnake(streams) },
+      endpoint("activities.updateStreams", "activity/{id}/streams", { id }),
+      { method: "PUT", json: transformKeysToSnake(streams), overrides },
       decodeUpdateStreamsResponse
     );
   }
@@ -313,14 +425,16 @@ export class ActivitiesResource {
    */
   updateStreamsCsv(
     id: string | number,
-    csv: string
+    csv: string,
+    overrides?: RequestOverrides
   ): Promise<Result<UpdateStreamsResponse, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/streams.csv`,
+      endpoint("activities.updateStreamsCsv", "activity/{id}/streams.csv", { id }),
       {
         method: "PUT",
         headers: { "Content-Type": "text/csv" },
         body: csv,
+        overrides,
       },
       decodeUpdateStreamsResponse
     );
@@ -331,17 +445,19 @@ export class ActivitiesResource {
    */
   getPowerCurve(
     id: string | number,
-    options?: CurveOptions
+    options?: CurveOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<PowerCurve, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.fatigue) searchParams.fatigue = options.fatigue;
 
     return this.http.requestJson(
-      `activity/${id}/power-curve.json`,
+      endpoint("activities.getPowerCurve", "activity/{id}/power-curve.json", { id }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodePowerCurve
     );
@@ -351,11 +467,12 @@ export class ActivitiesResource {
    * Get pace curve for a single activity.
    */
   getPaceCurve(
-    id: string | number
+    id: string | number,
+    overrides?: RequestOverrides
   ): Promise<Result<PaceCurve, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/pace-curve.json`,
-      {},
+      endpoint("activities.getPaceCurve", "activity/{id}/pace-curve.json", { id }),
+      { overrides },
       decodePaceCurve
     );
   }
@@ -364,11 +481,12 @@ export class ActivitiesResource {
    * Get heart rate curve for a single activity.
    */
   getHRCurve(
-    id: string | number
+    id: string | number,
+    overrides?: RequestOverrides
   ): Promise<Result<HRCurve, ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/hr-curve.json`,
-      {},
+      endpoint("activities.getHRCurve", "activity/{id}/hr-curve.json", { id }),
+      { overrides },
       decodeHRCurve
     );
   }
@@ -377,16 +495,17 @@ export class ActivitiesResource {
    * Get power curves for multiple streams in a single activity.
    */
   getPowerCurves(
-    id: string | number
+    id: string | number,
+    overrides?: RequestOverrides
   ): Promise<Result<PowerCurve[], ApiError>> {
     return this.http.requestJson(
-      `activity/${id}/power-curves.json`,
-      {},
-      (data) => {
+      endpoint("activities.getPowerCurves", "activity/{id}/power-curves.json", { id }),
+      { overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of power curves");
         }
-        return data.map(decodePowerCurve);
+        return data.map((item) => decodePowerCurve(item, decodeOptions));
       }
     );
   }
@@ -396,7 +515,8 @@ export class ActivitiesResource {
    */
   listAthletePowerCurves(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<PowerCurve[], ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -410,13 +530,17 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/power-curves.json`,
-      { searchParams },
-      (data) => {
+      endpoint(
+        "activities.listAthletePowerCurves",
+        "athlete/{id}/power-curves.json",
+        { id: athleteId }
+      ),
+      { searchParams, overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of power curves");
         }
-        return data.map(decodePowerCurve);
+        return data.map((item) => decodePowerCurve(item, decodeOptions));
       }
     );
   }
@@ -426,7 +550,8 @@ export class ActivitiesResource {
    */
   listAthletePaceCurves(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<PaceCurve[], ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -440,13 +565,17 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/pace-curves.json`,
-      { searchParams },
-      (data) => {
+      endpoint(
+        "activities.listAthletePaceCurves",
+        "athlete/{id}/pace-curves.json",
+        { id: athleteId }
+      ),
+      { searchParams, overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of pace curves");
         }
-        return data.map(decodePaceCurve);
+        return data.map((item) => decodePaceCurve(item, decodeOptions));
       }
     );
   }
@@ -456,7 +585,8 @@ export class ActivitiesResource {
    */
   listAthleteHRCurves(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<HRCurve[], ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -470,13 +600,13 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/hr-curves.json`,
-      { searchParams },
-      (data) => {
+      endpoint("activities.listAthleteHRCurves", "athlete/{id}/hr-curves.json", { id: athleteId }),
+      { searchParams, overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of HR curves");
         }
-        return data.map(decodeHRCurve);
+        return data.map((item) => decodeHRCurve(item, decodeOptions));
       }
     );
   }
@@ -486,7 +616,8 @@ export class ActivitiesResource {
    */
   getActivityPowerCurves(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<PowerCurve[], ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -500,13 +631,17 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activity-power-curves.json`,
-      { searchParams },
-      (data) => {
+      endpoint(
+        "activities.getActivityPowerCurves",
+        "athlete/{id}/activity-power-curves.json",
+        { id: athleteId }
+      ),
+      { searchParams, overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of power curves");
         }
-        return data.map(decodePowerCurve);
+        return data.map((item) => decodePowerCurve(item, decodeOptions));
       }
     );
   }
@@ -516,7 +651,8 @@ export class ActivitiesResource {
    */
   getActivityPaceCurves(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<PaceCurve[], ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -530,13 +666,17 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activity-pace-curves.json`,
-      { searchParams },
-      (data) => {
+      endpoint(
+        "activities.getActivityPaceCurves",
+        "athlete/{id}/activity-pace-curves.json",
+        { id: athleteId }
+      ),
+      { searchParams, overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of pace curves");
         }
-        return data.map(decodePaceCurve);
+        return data.map((item) => decodePaceCurve(item, decodeOptions));
       }
     );
   }
@@ -546,7 +686,8 @@ export class ActivitiesResource {
    */
   getActivityHRCurves(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<HRCurve[], ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -560,13 +701,17 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activity-hr-curves.json`,
-      { searchParams },
-      (data) => {
+      endpoint(
+        "activities.getActivityHRCurves",
+        "athlete/{id}/activity-hr-curves.json",
+        { id: athleteId }
+      ),
+      { searchParams, overrides },
+      (data, decodeOptions) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of HR curves");
         }
-        return data.map(decodeHRCurve);
+        return data.map((item) => decodeHRCurve(item, decodeOptions));
       }
     );
   }
@@ -576,7 +721,8 @@ export class ActivitiesResource {
    */
   getPowerHRCurve(
     athleteId: string | number = 0,
-    options: AthleteCurvesOptions
+    options: AthleteCurvesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<PowerCurve, ApiError>> {
     const searchParams: Record<string, string> = {
       type: options.type,
@@ -590,8 +736,8 @@ export class ActivitiesResource {
     if (options.now) searchParams.now = options.now;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/power-hr-curve`,
-      { searchParams },
+      endpoint("activities.getPowerHRCurve", "athlete/{id}/power-hr-curve", { id: athleteId }),
+      { searchParams, overrides },
       decodePowerCurve
     );
   }
@@ -603,15 +749,16 @@ export class ActivitiesResource {
   search(
     athleteId: string | number = 0,
     query: string,
-    options?: SearchActivitiesOptions
+    options?: SearchActivitiesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Activities, ApiError>> {
     const searchParams: Record<string, string> = { q: query };
     if (options?.limit !== undefined)
       searchParams.limit = String(options.limit);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activities/search`,
-      { searchParams },
+      endpoint("activities.search", "athlete/{id}/activities/search", { id: athleteId }),
+      { searchParams, overrides },
       decodeActivities
     );
   }
@@ -623,15 +770,16 @@ export class ActivitiesResource {
   searchFull(
     athleteId: string | number = 0,
     query: string,
-    options?: SearchActivitiesOptions
+    options?: SearchActivitiesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Activities, ApiError>> {
     const searchParams: Record<string, string> = { q: query };
     if (options?.limit !== undefined)
       searchParams.limit = String(options.limit);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activities/search-full`,
-      { searchParams },
+      endpoint("activities.searchFull", "athlete/{id}/activities/search-full", { id: athleteId }),
+      { searchParams, overrides },
       decodeActivities
     );
   }
@@ -642,15 +790,20 @@ export class ActivitiesResource {
   searchIntervals(
     athleteId: string | number = 0,
     query: string,
-    options?: SearchActivitiesOptions
+    options?: SearchActivitiesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Activities, ApiError>> {
     const searchParams: Record<string, string> = { q: query };
     if (options?.limit !== undefined)
       searchParams.limit = String(options.limit);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activities/interval-search`,
-      { searchParams },
+      endpoint(
+        "activities.searchIntervals",
+        "athlete/{id}/activities/interval-search",
+        { id: athleteId }
+      ),
+      { searchParams, overrides },
       decodeActivities
     );
   }
@@ -658,10 +811,13 @@ export class ActivitiesResource {
   /**
    * List all activity tags for the athlete.
    */
-  listTags(athleteId: string | number = 0): Promise<Result<string[], ApiError>> {
+  listTags(
+    athleteId: string | number = 0,
+    overrides?: RequestOverrides
+  ): Promise<Result<string[], ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/activity-tags`,
-      {},
+      endpoint("activities.listTags", "athlete/{id}/activity-tags", { id: athleteId }),
+      { overrides },
       (data) => {
         if (!Array.isArray(data)) {
           throw new Error("Expected array of tags");
@@ -677,7 +833,8 @@ export class ActivitiesResource {
   listAround(
     athleteId: string | number = 0,
     activityId: number,
-    options?: ActivitiesAroundOptions
+    options?: ActivitiesAroundOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Activities, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.before !== undefined)
@@ -686,95 +843,199 @@ export class ActivitiesResource {
       searchParams.after = String(options.after);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activities-around`,
+      endpoint("activities.listAround", "athlete/{id}/activities-around", { id: athleteId }),
       {
         searchParams: Object.keys(searchParams).length
           ? { ...searchParams, id: String(activityId) }
           : { id: String(activityId) },
+        overrides,
       },
       decodeActivities
     );
   }
 
   /** Get activity map data */
-  getMap(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/map`, {}, (data) => data);
+  getMap(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<ActivityMap, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getMap", "activity/{id}/map", { id }),
+      { overrides },
+      decodeActivityMap
+    );
   }
 
   /** Get activity segments */
-  getSegments(id: string | number): Promise<Result<unknown[], ApiError>> {
-    return this.http.requestJson(`activity/${id}/segments`, {}, (data) => data as unknown[]);
+  getSegments(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<ActivitySegments, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getSegments", "activity/{id}/segments", { id }),
+      { overrides },
+      decodeActivitySegments
+    );
   }
 
   /** Get weather summary for activity */
-  getWeatherSummary(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/weather-summary`, {}, (data) => data);
+  getWeatherSummary(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<WeatherSummary, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getWeatherSummary", "activity/{id}/weather-summary", { id }),
+      { overrides },
+      decodeWeatherSummary
+    );
   }
 
   /** Get best efforts in activity */
-  getBestEfforts(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/best-efforts`, {}, (data) => data);
+  getBestEfforts(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<BestEfforts, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getBestEfforts", "activity/{id}/best-efforts", { id }),
+      { overrides },
+      decodeBestEfforts
+    );
   }
 
   /** Get power histogram */
-  getPowerHistogram(id: string | number): Promise<Result<unknown[], ApiError>> {
-    return this.http.requestJson(`activity/${id}/power-histogram`, {}, (data) => data as unknown[]);
+  getPowerHistogram(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<Histogram, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getPowerHistogram", "activity/{id}/power-histogram", { id }),
+      { overrides },
+      decodeHistogram
+    );
   }
 
   /** Get pace histogram */
-  getPaceHistogram(id: string | number): Promise<Result<unknown[], ApiError>> {
-    return this.http.requestJson(`activity/${id}/pace-histogram`, {}, (data) => data as unknown[]);
+  getPaceHistogram(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<Histogram, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getPaceHistogram", "activity/{id}/pace-histogram", { id }),
+      { overrides },
+      decodeHistogram
+    );
   }
 
   /** Get gradient adjusted pace histogram */
-  getGapHistogram(id: string | number): Promise<Result<unknown[], ApiError>> {
-    return this.http.requestJson(`activity/${id}/gap-histogram`, {}, (data) => data as unknown[]);
+  getGapHistogram(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<Histogram, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getGapHistogram", "activity/{id}/gap-histogram", { id }),
+      { overrides },
+      decodeHistogram
+    );
   }
 
   /** Get heart rate histogram */
-  getHRHistogram(id: string | number): Promise<Result<unknown[], ApiError>> {
-    return this.http.requestJson(`activity/${id}/hr-histogram`, {}, (data) => data as unknown[]);
+  getHRHistogram(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<Histogram, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getHRHistogram", "activity/{id}/hr-histogram", { id }),
+      { overrides },
+      decodeHistogram
+    );
   }
 
   /** Get power vs HR data */
-  getPowerVsHR(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/power-vs-hr.json`, {}, (data) => data);
+  getPowerVsHR(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<PowerVsHR, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getPowerVsHR", "activity/{id}/power-vs-hr.json", { id }),
+      { overrides },
+      decodePowerVsHR
+    );
   }
 
   /** Get time at heart rate data */
-  getTimeAtHR(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/time-at-hr`, {}, (data) => data);
+  getTimeAtHR(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<TimeAtHR, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getTimeAtHR", "activity/{id}/time-at-hr", { id }),
+      { overrides },
+      decodeTimeAtHR
+    );
   }
 
   /** Get power spike model for activity */
-  getPowerSpikeModel(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/power-spike-model`, {}, (data) => data);
+  getPowerSpikeModel(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<PowerSpikeModel, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getPowerSpikeModel", "activity/{id}/power-spike-model", { id }),
+      { overrides },
+      decodePowerSpikeModel
+    );
   }
 
   /** Get HR load model for activity */
-  getHRLoadModel(id: string | number): Promise<Result<unknown, ApiError>> {
-    return this.http.requestJson(`activity/${id}/hr-load-model`, {}, (data) => data);
+  getHRLoadModel(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<HRLoadModel, ApiError>> {
+    return this.http.requestJson(
+      endpoint("activities.getHRLoadModel", "activity/{id}/hr-load-model", { id }),
+      { overrides },
+      decodeHRLoadModel
+    );
   }
 
   /** Download activity FIT file */
-  downloadFitFile(id: string | number): Promise<Result<ArrayBuffer, ApiError>> {
-    return this.http.requestArrayBuffer(`activity/${id}/fit-file`, {});
+  downloadFitFile(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<ArrayBuffer, ApiError>> {
+    return this.http.requestArrayBuffer(
+      endpoint("activities.downloadFitFile", "activity/{id}/fit-file", { id }),
+      { overrides }
+    );
   }
 
   /** Download activity GPX file */
-  downloadGpxFile(id: string | number): Promise<Result<ArrayBuffer, ApiError>> {
-    return this.http.requestArrayBuffer(`activity/${id}/gpx-file`, {});
+  downloadGpxFile(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<ArrayBuffer, ApiError>> {
+    return this.http.requestArrayBuffer(
+      endpoint("activities.downloadGpxFile", "activity/{id}/gpx-file", { id }),
+      { overrides }
+    );
   }
 
   /** Download original activity file */
-  downloadFile(id: string | number): Promise<Result<ArrayBuffer, ApiError>> {
-    return this.http.requestArrayBuffer(`activity/${id}/file`, {});
+  downloadFile(
+    id: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<ArrayBuffer, ApiError>> {
+    return this.http.requestArrayBuffer(
+      endpoint("activities.downloadFile", "activity/{id}/file", { id }),
+      { overrides }
+    );
   }
 
   /** Download activities as CSV */
   downloadActivitiesCsv(
     athleteId: string | number = 0,
-    options?: ListActivitiesOptions
+    options?: ListActivitiesOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<string, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
@@ -783,11 +1044,16 @@ export class ActivitiesResource {
       searchParams.limit = String(options.limit);
 
     return this.http.requestText(
-      `athlete/${athleteId}/activities.csv`,
+      endpoint(
+        "activities.downloadActivitiesCsv",
+        "athlete/{id}/activities.csv",
+        { id: athleteId }
+      ),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       }
     );
   }
@@ -795,22 +1061,25 @@ export class ActivitiesResource {
   /** Bulk download FIT files as zip archive */
   downloadFitFiles(
     athleteId: string | number = 0,
-    activityIds: (string | number)[]
+    activityIds: (string | number)[],
+    overrides?: RequestOverrides
   ): Promise<Result<ArrayBuffer, ApiError>> {
     return this.http.requestArrayBuffer(
-      `athlete/${athleteId}/download-fit-files`,
+      endpoint("activities.downloadFitFiles", "athlete/{id}/download-fit-files", { id: athleteId }),
       {
         method: "POST",
         json: { activity_ids: activityIds },
+        overrides,
       }
     );
   }
 
-  /** Upload an activity file (FIT, TCX, GPX, etc.) */
+  /** Upload an activity file (FIT, TCX, GPX, etc.), e.g. the output of `encodeFit` */
   uploadActivity(
     athleteId: string | number = 0,
-    fileData: ArrayBuffer | Blob,
-    options?: { filename?: string }
+    fileData: ArrayBuffer | Uint8Array<ArrayBuffer> | Blob,
+    options?: { filename?: string },
+    overrides?: RequestOverrides
   ): Promise<Result<Activity, ApiError>> {
     const formData = new FormData();
     const blob = fileData instanceof Blob
@@ -820,10 +1089,11 @@ export class ActivitiesResource {
     formData.append("file", blob, options?.filename || "activity.fit");
 
     return this.http.requestJson(
-      `athlete/${athleteId}/activities`,
+      endpoint("activities.uploadActivity", "athlete/{id}/activities", { id: athleteId }),
       {
         method: "POST",
         body: formData,
+        overrides,
       },
       decodeActivity
     );
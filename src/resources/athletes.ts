@@ -1,7 +1,8 @@
 import type { ApiError } from "../errors";
 import type { Result } from "../result";
 
-import type { IntervalsHttpClient } from "../http/httpClient";
+import { endpoint } from "../http/endpoint";
+import type { IntervalsHttpClient, RequestOverrides } from "../http/httpClient";
 import {
   decodeAthlete,
   decodeWithSportSettings,
@@ -32,10 +33,13 @@ export class AthletesResource {
   /**
    * Get the athlete with sportSettings and custom_items.
    */
-  get(id: string | number = 0): Promise<Result<WithSportSettings, ApiError>> {
+  get(
+    id: string | number = 0,
+    overrides?: RequestOverrides
+  ): Promise<Result<WithSportSettings, ApiError>> {
     return this.http.requestJson(
-      `athlete/${id}`,
-      {},
+      endpoint("athletes.get", "athlete/{id}", { id }),
+      { overrides },
       decodeWithSportSettings
     );
   }
@@ -45,11 +49,12 @@ export class AthletesResource {
    */
   update(
     id: string | number,
-    data: Partial<UpdateAthleteInput>
+    data: Partial<UpdateAthleteInput>,
+    overrides?: RequestOverrides
   ): Promise<Result<Athlete, ApiError>> {
     return this.http.requestJson(
-      `athlete/${id}`,
-      { method: "PUT", json: transformKeysToSnake(data) },
+      endpoint("athletes.update", "athlete/{id}", { id }),
+      { method: "PUT", json: transformKeysToSnake(data), overrides },
       decodeAthlete
     );
   }
@@ -59,11 +64,12 @@ export class AthletesResource {
    */
   getSettings(
     id: string | number,
-    deviceClass: string
+    deviceClass: string,
+    overrides?: RequestOverrides
   ): Promise<Result<AthleteSettings, ApiError>> {
     return this.http.requestJson(
-      `athlete/${id}/settings/${deviceClass}`,
-      {},
+      endpoint("athletes.getSettings", "athlete/{id}/settings/{deviceClass}", { id, deviceClass }),
+      { overrides },
       decodeAthleteSettings
     );
   }
@@ -72,11 +78,12 @@ export class AthletesResource {
    * Get athlete profile info.
    */
   getProfile(
-    id: string | number = 0
+    id: string | number = 0,
+    overrides?: RequestOverrides
   ): Promise<Result<AthleteProfile, ApiError>> {
     return this.http.requestJson(
-      `athlete/${id}/profile`,
-      {},
+      endpoint("athletes.getProfile", "athlete/{id}/profile", { id }),
+      { overrides },
       decodeAthleteProfile
     );
   }
@@ -88,7 +95,8 @@ export class AthletesResource {
    */
   getSummary(
     id: string | number = 0,
-    options?: GetAthleteSummaryOptions
+    options?: GetAthleteSummaryOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<AthleteSummary, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.start) searchParams.start = options.start;
@@ -96,11 +104,12 @@ export class AthletesResource {
     if (options?.tags) searchParams.tags = options.tags.join(",");
 
     return this.http.requestJson(
-      `athlete/${id}/athlete-summary`,
+      endpoint("athletes.getSummary", "athlete/{id}/athlete-summary", { id }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeAthleteSummary
     );
@@ -1,18 +1,22 @@
 import type { ApiError } from "../errors";
 import type { Result } from "../result";
 
-import type { IntervalsHttpClient } from "../http/httpClient";
+import { endpoint } from "../http/endpoint";
+import type { IntervalsHttpClient, RequestOverrides } from "../http/httpClient";
+import { iterateDateWindows, type DateWindowOptions } from "../http/pagination";
 import {
   decodeChat,
   decodeChats,
   decodeMessage,
   decodeMessages,
+  decodeMessagesLenient,
   type Chat,
   type Chats,
   type Message,
   type Messages,
   type CreateMessageInput,
 } from "../schemas/chat";
+import { listDecoder, type LenientListOptions, type ListResult } from "../schemas/lenientList";
 import { transformKeysToSnake } from "../utils/transform";
 
 export type ListMessagesOptions = {
@@ -22,7 +26,9 @@ export type ListMessagesOptions = {
   newest?: string;
   /** Max number of messages to return */
   limit?: number;
-};
+} & LenientListOptions;
+
+export type IterateMessagesOptions = DateWindowOptions;
 
 export class ChatsResource {
   constructor(private readonly http: IntervalsHttpClient) {}
@@ -30,10 +36,13 @@ export class ChatsResource {
   /**
    * List all chats for the athlete.
    */
-  list(athleteId: string | number = 0): Promise<Result<Chats, ApiError>> {
+  list(
+    athleteId: string | number = 0,
+    overrides?: RequestOverrides
+  ): Promise<Result<Chats, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/chats`,
-      {},
+      endpoint("chats.list", "athlete/{id}/chats", { id: athleteId }),
+      { overrides },
       decodeChats
     );
   }
@@ -41,17 +50,22 @@ export class ChatsResource {
   /**
    * Get a single chat by ID.
    */
-  get(chatId: number): Promise<Result<Chat, ApiError>> {
-    return this.http.requestJson(`chats/${chatId}`, {}, decodeChat);
+  get(chatId: number, overrides?: RequestOverrides): Promise<Result<Chat, ApiError>> {
+    return this.http.requestJson(
+      endpoint("chats.get", "chats/{id}", { id: chatId }),
+      { overrides },
+      decodeChat
+    );
   }
 
   /**
    * List messages in a chat.
    */
-  listMessages(
+  listMessages<O extends ListMessagesOptions = {}>(
     chatId: number,
-    options?: ListMessagesOptions
-  ): Promise<Result<Messages, ApiError>> {
+    options?: O,
+    overrides?: RequestOverrides
+  ): Promise<Result<ListResult<Message, O>, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
     if (options?.newest) searchParams.newest = options.newest;
@@ -59,23 +73,43 @@ export class ChatsResource {
       searchParams.limit = String(options.limit);
 
     return this.http.requestJson(
-      `chats/${chatId}/messages`,
+      endpoint("chats.listMessages", "chats/{id}/messages", { id: chatId }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
-      decodeMessages
+      listDecoder(options, decodeMessages, decodeMessagesLenient)
+    );
+  }
+
+  /**
+   * Iterate over all messages in a chat for a date range, fetching `windowDays` at a time.
+   * Stops after yielding the first error.
+   */
+  iterateMessages(
+    chatId: number,
+    options: IterateMessagesOptions,
+    overrides?: RequestOverrides
+  ): AsyncIterable<Result<Message, ApiError>> {
+    return iterateDateWindows(
+      options,
+      (window) => this.listMessages(chatId, window, overrides),
+      (message) => message.id
     );
   }
 
   /**
    * Send a message to a chat.
    */
-  sendMessage(data: CreateMessageInput): Promise<Result<Message, ApiError>> {
+  sendMessage(
+    data: CreateMessageInput,
+    overrides?: RequestOverrides
+  ): Promise<Result<Message, ApiError>> {
     return this.http.requestJson(
-      "chats/send-message",
-      { method: "POST", json: transformKeysToSnake(data) },
+      endpoint("chats.sendMessage", "chats/send-message"),
+      { method: "POST", json: transformKeysToSnake(data), overrides },
       decodeMessage
     );
   }
@@ -85,11 +119,12 @@ export class ChatsResource {
    */
   markSeen(
     chatId: number,
-    messageId: number
+    messageId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<void, ApiError>> {
     return this.http.requestJson(
-      `chats/${chatId}/messages/${messageId}/seen`,
-      { method: "PUT" },
+      endpoint("chats.markSeen", "chats/{id}/messages/{messageId}/seen", { id: chatId, messageId }),
+      { method: "PUT", overrides },
       () => undefined
     );
   }
@@ -99,11 +134,12 @@ export class ChatsResource {
    */
   deleteMessage(
     chatId: number,
-    messageId: number
+    messageId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<void, ApiError>> {
     return this.http.requestJson(
-      `chats/${chatId}/messages/${messageId}`,
-      { method: "DELETE" },
+      endpoint("chats.deleteMessage", "chats/{id}/messages/{messageId}", { id: chatId, messageId }),
+      { method: "DELETE", overrides },
       () => undefined
     );
   }
@@ -112,11 +148,12 @@ export class ChatsResource {
    * List comments on an activity.
    */
   listActivityMessages(
-    activityId: string | number
+    activityId: string | number,
+    overrides?: RequestOverrides
   ): Promise<Result<Messages, ApiError>> {
     return this.http.requestJson(
-      `activity/${activityId}/messages`,
-      {},
+      endpoint("chats.listActivityMessages", "activity/{id}/messages", { id: activityId }),
+      { overrides },
       decodeMessages
     );
   }
@@ -126,11 +163,12 @@ export class ChatsResource {
    */
   addActivityMessage(
     activityId: string | number,
-    content: string
+    content: string,
+    overrides?: RequestOverrides
   ): Promise<Result<Message, ApiError>> {
     return this.http.requestJson(
-      `activity/${activityId}/messages`,
-      { method: "POST", json: { content } },
+      endpoint("chats.addActivityMessage", "activity/{id}/messages", { id: activityId }),
+      { method: "POST", json: { content }, overrides },
       decodeMessage
     );
   }
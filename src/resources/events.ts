@@ -1,12 +1,19 @@
 import type { ApiError } from "../errors";
+import { invalidWorkoutError } from "../errors";
+import { findWorkoutSyntaxErrors } from "../formats/workoutText";
 import type { Result } from "../result";
+import { err } from "../result";
 
-import type { IntervalsHttpClient } from "../http/httpClient";
+import { endpoint } from "../http/endpoint";
+import type { IntervalsHttpClient, RequestOverrides } from "../http/httpClient";
+import { iterateDateWindows, type DateWindowOptions } from "../http/pagination";
 import {
   decodeEvents,
+  decodeEventsLenient,
   decodeEvent,
   decodeDeleteEventsResponse,
   decodeEventTags,
+  encodeEventInput,
   type Events,
   type Event,
   type EventInput,
@@ -16,6 +23,7 @@ import {
   type ApplyPlanInput,
   type DuplicateEventsInput,
 } from "../schemas/event";
+import { listDecoder, type LenientListOptions, type ListResult } from "../schemas/lenientList";
 import { transformKeysToSnake } from "../utils/transform";
 import { decodeActivity, type Activity } from "../schemas/activity";
 
@@ -42,11 +50,19 @@ export type ListEventsOptions = {
   locale?: string;
   /** Resolve power, heart rate, and pace targets to watts, bpm, and m/s */
   resolve?: boolean;
-};
+} & LenientListOptions;
+
+export type IterateEventsOptions = DateWindowOptions &
+  Omit<ListEventsOptions, "oldest" | "newest" | "limit" | "lenient">;
 
 export type CreateEventOptions = {
   /** Update event with matching uid instead of creating a new one */
   upsertOnUid?: boolean;
+  /**
+   * Parse the workout text in `description` before sending and return an
+   * `InvalidWorkout` error (without calling the API) if it has syntax errors.
+   */
+  validateWorkouts?: boolean;
 };
 
 export type DeleteEventOptions = {
@@ -63,6 +79,11 @@ export type CreateMultipleEventsOptions = {
   upsertOnUid?: boolean;
   /** Give all events created or updated the same new plan_applied date (now) */
   updatePlanApplied?: boolean;
+  /**
+   * Parse the workout text in each event's `description` before sending and
+   * return an `InvalidWorkout` error (without calling the API) if any has syntax errors.
+   */
+  validateWorkouts?: boolean;
 };
 
 export type UpdateEventsOptions = {
@@ -77,11 +98,14 @@ export class EventsResource {
 
   /**
    * List events (planned workouts, notes etc.) on the athlete's calendar.
+   * With `lenient: true`, resolves to `{ items, failures }` instead of failing
+   * when some events don't match the schema.
    */
-  list(
+  list<O extends ListEventsOptions = {}>(
     athleteId: string | number = 0,
-    options?: ListEventsOptions
-  ): Promise<Result<Events, ApiError>> {
+    options?: O,
+    overrides?: RequestOverrides
+  ): Promise<Result<ListResult<Event, O>, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
     if (options?.newest) searchParams.newest = options.newest;
@@ -103,13 +127,31 @@ export class EventsResource {
       searchParams.resolve = String(options.resolve);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/events`,
+      endpoint("events.list", "athlete/{id}/events", { id: athleteId }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
-      decodeEvents
+      listDecoder(options, decodeEvents, decodeEventsLenient)
+    );
+  }
+
+  /**
+   * Iterate over all events in a date range, fetching `windowDays` at a time.
+   * Stops after yielding the first error.
+   */
+  iterate(
+    athleteId: string | number,
+    options: IterateEventsOptions,
+    overrides?: RequestOverrides
+  ): AsyncIterable<Result<Event, ApiError>> {
+    const { oldest, newest, windowDays, ...listOptions } = options;
+    return iterateDateWindows(
+      options,
+      (window) => this.list(athleteId, { ...listOptions, ...window }, overrides),
+      (event) => event.id
     );
   }
 
@@ -118,11 +160,12 @@ export class EventsResource {
    */
   get(
     athleteId: string | number,
-    eventId: number
+    eventId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<Event, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/events/${eventId}`,
-      {},
+      endpoint("events.get", "athlete/{id}/events/{eventId}", { id: athleteId, eventId }),
+      { overrides },
       decodeEvent
     );
   }
@@ -135,20 +178,27 @@ export class EventsResource {
   create(
     athleteId: string | number,
     event: EventInput,
-    options?: CreateEventOptions
+    options?: CreateEventOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Event, ApiError>> {
+    if (options?.validateWorkouts) {
+      const errors = findWorkoutSyntaxErrors([event]);
+      if (errors.length) return Promise.resolve(err(invalidWorkoutError(errors)));
+    }
+
     const searchParams: Record<string, string> = {};
     if (options?.upsertOnUid !== undefined)
       searchParams.upsertOnUid = String(options.upsertOnUid);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/events`,
+      endpoint("events.create", "athlete/{id}/events", { id: athleteId }),
       {
         method: "POST",
-        json: transformKeysToSnake(event),
+        json: encodeEventInput(event),
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeEvent
     );
@@ -160,11 +210,12 @@ export class EventsResource {
   update(
     athleteId: string | number,
     eventId: number,
-    event: Partial<EventInput>
+    event: Partial<EventInput>,
+    overrides?: RequestOverrides
   ): Promise<Result<Event, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/events/${eventId}`,
-      { method: "PUT", json: transformKeysToSnake(event) },
+      endpoint("events.update", "athlete/{id}/events/{eventId}", { id: athleteId, eventId }),
+      { method: "PUT", json: encodeEventInput(event), overrides },
       decodeEvent
     );
   }
@@ -175,19 +226,24 @@ export class EventsResource {
   delete(
     athleteId: string | number,
     eventId: number,
-    options?: DeleteEventOptions
+    options?: DeleteEventOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<unknown, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.others !== undefined)
       searchParams.others = String(options.others);
     if (options?.notBefore) searchParams.notBefore = options.notBefore;
 
-    return this.http.requestJson(`athlete/${athleteId}/events/${eventId}`, {
-      method: "DELETE",
-      searchParams: Object.keys(searchParams).length
-        ? searchParams
-        : undefined,
-    });
+    return this.http.requestJson(
+      endpoint("events.delete", "athlete/{id}/events/{eventId}", { id: athleteId, eventId }),
+      {
+        method: "DELETE",
+        searchParams: Object.keys(searchParams).length
+          ? searchParams
+          : undefined,
+        overrides,
+      }
+    );
   }
 
   /**
@@ -197,8 +253,14 @@ export class EventsResource {
   createMultiple(
     athleteId: string | number,
     events: EventInput[],
-    options?: CreateMultipleEventsOptions
+    options?: CreateMultipleEventsOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Events, ApiError>> {
+    if (options?.validateWorkouts) {
+      const errors = findWorkoutSyntaxErrors(events);
+      if (errors.length) return Promise.resolve(err(invalidWorkoutError(errors)));
+    }
+
     const searchParams: Record<string, string> = {};
     if (options?.upsert !== undefined)
       searchParams.upsert = String(options.upsert);
@@ -208,13 +270,14 @@ export class EventsResource {
       searchParams.updatePlanApplied = String(options.updatePlanApplied);
 
     return this.http.requestJson(
-      `athlete/${athleteId}/events/bulk`,
+      endpoint("events.createMultiple", "athlete/{id}/events/bulk", { id: athleteId }),
       {
         method: "POST",
-        json: transformKeysToSnake(events),
+        json: events.map(encodeEventInput),
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeEvents
     );
@@ -227,11 +290,12 @@ export class EventsResource {
    */
   deleteBulk(
     athleteId: string | number,
-    events: DeleteEventInput[]
+    events: DeleteEventInput[],
+    overrides?: RequestOverrides
   ): Promise<Result<DeleteEventsResponse, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/events/bulk-delete`,
-      { method: "PUT", json: transformKeysToSnake(events) },
+      endpoint("events.deleteBulk", "athlete/{id}/events/bulk-delete", { id: athleteId }),
+      { method: "PUT", json: transformKeysToSnake(events), overrides },
       decodeDeleteEventsResponse
     );
   }
@@ -243,7 +307,8 @@ export class EventsResource {
   updateMultiple(
     athleteId: string | number,
     event: Partial<Event>,
-    options: UpdateEventsOptions
+    options: UpdateEventsOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Events, ApiError>> {
     const searchParams: Record<string, string> = {
       oldest: options.oldest,
@@ -251,11 +316,12 @@ export class EventsResource {
     };
 
     return this.http.requestJson(
-      `athlete/${athleteId}/events`,
+      endpoint("events.updateMultiple", "athlete/{id}/events", { id: athleteId }),
       {
         method: "PUT",
-        json: transformKeysToSnake(event),
+        json: encodeEventInput(event),
         searchParams,
+        overrides,
       },
       decodeEvents
     );
@@ -265,11 +331,12 @@ export class EventsResource {
    * List all tags that have been applied to events on the athlete's calendar.
    */
   listTags(
-    athleteId: string | number = 0
+    athleteId: string | number = 0,
+    overrides?: RequestOverrides
   ): Promise<Result<EventTags, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/event-tags`,
-      {},
+      endpoint("events.listTags", "athlete/{id}/event-tags", { id: athleteId }),
+      { overrides },
       decodeEventTags
     );
   }
@@ -283,7 +350,8 @@ export class EventsResource {
       oldest?: string;
       newest?: string;
       ext?: "zwo" | "mrc" | "erg" | "fit";
-    }
+    },
+    overrides?: RequestOverrides
   ): Promise<Result<ArrayBuffer, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
@@ -291,11 +359,12 @@ export class EventsResource {
     if (options?.ext) searchParams.ext = options.ext;
 
     return this.http.requestArrayBuffer(
-      `athlete/${athleteId}/workouts.zip`,
+      endpoint("events.downloadWorkoutsZip", "athlete/{id}/workouts.zip", { id: athleteId }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       }
     );
   }
@@ -306,11 +375,16 @@ export class EventsResource {
   downloadWorkout(
     athleteId: string | number,
     eventId: number,
-    ext: "zwo" | "mrc" | "erg" | "fit"
+    ext: "zwo" | "mrc" | "erg" | "fit",
+    overrides?: RequestOverrides
   ): Promise<Result<ArrayBuffer, ApiError>> {
     return this.http.requestArrayBuffer(
-      `athlete/${athleteId}/events/${eventId}/download.${ext}`,
-      {}
+      endpoint(
+        "events.downloadWorkout",
+        "athlete/{id}/events/{eventId}/download.{ext}",
+        { id: athleteId, eventId, ext }
+      ),
+      { overrides }
     );
   }
 
@@ -319,11 +393,12 @@ export class EventsResource {
    */
   applyPlan(
     athleteId: string | number,
-    data: ApplyPlanInput
+    data: ApplyPlanInput,
+    overrides?: RequestOverrides
   ): Promise<Result<Events, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/events/apply-plan`,
-      { method: "POST", json: transformKeysToSnake(data) },
+      endpoint("events.applyPlan", "athlete/{id}/events/apply-plan", { id: athleteId }),
+      { method: "POST", json: transformKeysToSnake(data), overrides },
       decodeEvents
     );
   }
@@ -333,11 +408,12 @@ export class EventsResource {
    */
   duplicateEvents(
     athleteId: string | number,
-    data: DuplicateEventsInput
+    data: DuplicateEventsInput,
+    overrides?: RequestOverrides
   ): Promise<Result<Events, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/duplicate-events`,
-      { method: "POST", json: transformKeysToSnake(data) },
+      endpoint("events.duplicateEvents", "athlete/{id}/duplicate-events", { id: athleteId }),
+      { method: "POST", json: transformKeysToSnake(data), overrides },
       decodeEvents
     );
   }
@@ -347,18 +423,24 @@ export class EventsResource {
    */
   listFitnessModelEvents(
     athleteId: string | number = 0,
-    options?: { oldest?: string; newest?: string }
+    options?: { oldest?: string; newest?: string },
+    overrides?: RequestOverrides
   ): Promise<Result<Events, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
     if (options?.newest) searchParams.newest = options.newest;
 
     return this.http.requestJson(
-      `athlete/${athleteId}/fitness-model-events`,
+      endpoint(
+        "events.listFitnessModelEvents",
+        "athlete/{id}/fitness-model-events",
+        { id: athleteId }
+      ),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       },
       decodeEvents
     );
@@ -370,7 +452,8 @@ export class EventsResource {
   deleteRange(
     athleteId: string | number,
     oldest: string,
-    newest: string
+    newest: string,
+    overrides?: RequestOverrides
   ): Promise<Result<DeleteEventsResponse, ApiError>> {
     const searchParams: Record<string, string> = {
       oldest,
@@ -378,8 +461,8 @@ export class EventsResource {
     };
 
     return this.http.requestJson(
-      `athlete/${athleteId}/events`,
-      { method: "DELETE", searchParams },
+      endpoint("events.deleteRange", "athlete/{id}/events", { id: athleteId }),
+      { method: "DELETE", searchParams, overrides },
       decodeDeleteEventsResponse
     );
   }
@@ -389,7 +472,8 @@ export class EventsResource {
    */
   listCsv(
     athleteId: string | number = 0,
-    options?: ListEventsOptions
+    options?: ListEventsOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<string, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
@@ -400,11 +484,12 @@ export class EventsResource {
       searchParams.limit = String(options.limit);
 
     return this.http.requestText(
-      `athlete/${athleteId}/events.csv`,
+      endpoint("events.listCsv", "athlete/{id}/events.csv", { id: athleteId }),
       {
         searchParams: Object.keys(searchParams).length
           ? searchParams
           : undefined,
+        overrides,
       }
     );
   }
@@ -414,11 +499,16 @@ export class EventsResource {
    */
   markDone(
     athleteId: string | number,
-    eventId: number
+    eventId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<Activity, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/events/${eventId}/mark-done`,
-      { method: "POST" },
+      endpoint(
+        "events.markDone",
+        "athlete/{id}/events/{eventId}/mark-done",
+        { id: athleteId, eventId }
+      ),
+      { method: "POST", overrides },
       decodeActivity
     );
   }
@@ -1,12 +1,17 @@
 import type { ApiError } from "../errors";
+import { invalidWorkoutError } from "../errors";
+import { findWorkoutSyntaxErrors } from "../formats/workoutText";
 import type { Result } from "../result";
-import type { IntervalsHttpClient } from "../http/httpClient";
+import { err } from "../result";
+import { endpoint } from "../http/endpoint";
+import type { IntervalsHttpClient, RequestOverrides } from "../http/httpClient";
 import {
   decodeWorkout,
   decodeWorkouts,
   decodeFolder,
   decodeFolders,
   decodeWorkoutTags,
+  encodeWorkout,
   type Workout,
   type Workouts,
   type Folder,
@@ -15,6 +20,14 @@ import {
 } from "../schemas/library";
 import { transformKeysToSnake } from "../utils/transform";
 
+export type CreateWorkoutOptions = {
+  /**
+   * Parse the workout text in `description` before sending and return an
+   * `InvalidWorkout` error (without calling the API) if it has syntax errors.
+   */
+  validateWorkouts?: boolean;
+};
+
 /**
  * Library resource for managing workout library (workouts, folders, plans)
  */
@@ -28,10 +41,13 @@ export class LibraryResource {
   /**
    * List all workouts in the athlete's library.
    */
-  listWorkouts(athleteId: string | number): Promise<Result<Workouts, ApiError>> {
+  listWorkouts(
+    athleteId: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<Workouts, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/workouts`,
-      {},
+      endpoint("library.listWorkouts", "athlete/{id}/workouts", { id: athleteId }),
+      { overrides },
       decodeWorkouts
     );
   }
@@ -41,11 +57,16 @@ export class LibraryResource {
    */
   getWorkout(
     athleteId: string | number,
-    workoutId: number
+    workoutId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<Workout, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/workouts/${workoutId}`,
-      {},
+      endpoint(
+        "library.getWorkout",
+        "athlete/{id}/workouts/{workoutId}",
+        { id: athleteId, workoutId }
+      ),
+      { overrides },
       decodeWorkout
     );
   }
@@ -57,11 +78,18 @@ export class LibraryResource {
    */
   createWorkout(
     athleteId: string | number,
-    workout: Partial<Workout>
+    workout: Partial<Workout>,
+    options?: CreateWorkoutOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Workout, ApiError>> {
+    if (options?.validateWorkouts) {
+      const errors = findWorkoutSyntaxErrors([workout]);
+      if (errors.length) return Promise.resolve(err(invalidWorkoutError(errors)));
+    }
+
     return this.http.requestJson(
-      `athlete/${athleteId}/workouts`,
-      { method: "POST", json: transformKeysToSnake(workout) },
+      endpoint("library.createWorkout", "athlete/{id}/workouts", { id: athleteId }),
+      { method: "POST", json: encodeWorkout(workout), overrides },
       decodeWorkout
     );
   }
@@ -72,11 +100,16 @@ export class LibraryResource {
   updateWorkout(
     athleteId: string | number,
     workoutId: number,
-    workout: Partial<Workout>
+    workout: Partial<Workout>,
+    overrides?: RequestOverrides
   ): Promise<Result<Workout, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/workouts/${workoutId}`,
-      { method: "PUT", json: transformKeysToSnake(workout) },
+      endpoint(
+        "library.updateWorkout",
+        "athlete/{id}/workouts/{workoutId}",
+        { id: athleteId, workoutId }
+      ),
+      { method: "PUT", json: encodeWorkout(workout), overrides },
       decodeWorkout
     );
   }
@@ -86,11 +119,16 @@ export class LibraryResource {
    */
   deleteWorkout(
     athleteId: string | number,
-    workoutId: number
+    workoutId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<void, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/workouts/${workoutId}`,
-      { method: "DELETE" },
+      endpoint(
+        "library.deleteWorkout",
+        "athlete/{id}/workouts/{workoutId}",
+        { id: athleteId, workoutId }
+      ),
+      { method: "DELETE", overrides },
       () => undefined
     );
   }
@@ -100,11 +138,18 @@ export class LibraryResource {
    */
   createMultipleWorkouts(
     athleteId: string | number,
-    workouts: Partial<Workout>[]
+    workouts: Partial<Workout>[],
+    options?: CreateWorkoutOptions,
+    overrides?: RequestOverrides
   ): Promise<Result<Workouts, ApiError>> {
+    if (options?.validateWorkouts) {
+      const errors = findWorkoutSyntaxErrors(workouts);
+      if (errors.length) return Promise.resolve(err(invalidWorkoutError(errors)));
+    }
+
     return this.http.requestJson(
-      `athlete/${athleteId}/workouts/bulk`,
-      { method: "POST", json: transformKeysToSnake(workouts) },
+      endpoint("library.createMultipleWorkouts", "athlete/{id}/workouts/bulk", { id: athleteId }),
+      { method: "POST", json: workouts.map(encodeWorkout), overrides },
       decodeWorkouts
     );
   }
@@ -116,10 +161,13 @@ export class LibraryResource {
   /**
    * List all folders and plans (with their workouts).
    */
-  listFolders(athleteId: string | number): Promise<Result<Folders, ApiError>> {
+  listFolders(
+    athleteId: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<Folders, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/folders`,
-      {},
+      endpoint("library.listFolders", "athlete/{id}/folders", { id: athleteId }),
+      { overrides },
       decodeFolders
     );
   }
@@ -129,11 +177,12 @@ export class LibraryResource {
    */
   createFolder(
     athleteId: string | number,
-    folder: Partial<Folder>
+    folder: Partial<Folder>,
+    overrides?: RequestOverrides
   ): Promise<Result<Folder, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/folders`,
-      { method: "POST", json: transformKeysToSnake(folder) },
+      endpoint("library.createFolder", "athlete/{id}/folders", { id: athleteId }),
+      { method: "POST", json: transformKeysToSnake(folder), overrides },
       decodeFolder
     );
   }
@@ -144,11 +193,16 @@ export class LibraryResource {
   updateFolder(
     athleteId: string | number,
     folderId: number,
-    folder: Partial<Folder>
+    folder: Partial<Folder>,
+    overrides?: RequestOverrides
   ): Promise<Result<Folder, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/folders/${folderId}`,
-      { method: "PUT", json: transformKeysToSnake(folder) },
+      endpoint(
+        "library.updateFolder",
+        "athlete/{id}/folders/{folderId}",
+        { id: athleteId, folderId }
+      ),
+      { method: "PUT", json: transformKeysToSnake(folder), overrides },
       decodeFolder
     );
   }
@@ -158,11 +212,16 @@ export class LibraryResource {
    */
   deleteFolder(
     athleteId: string | number,
-    folderId: number
+    folderId: number,
+    overrides?: RequestOverrides
   ): Promise<Result<void, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/folders/${folderId}`,
-      { method: "DELETE" },
+      endpoint(
+        "library.deleteFolder",
+        "athlete/{id}/folders/{folderId}",
+        { id: athleteId, folderId }
+      ),
+      { method: "DELETE", overrides },
       () => undefined
     );
   }
@@ -174,10 +233,13 @@ export class LibraryResource {
   /**
    * List all tags that have been applied to workouts in the library.
    */
-  listTags(athleteId: string | number): Promise<Result<WorkoutTags, ApiError>> {
+  listTags(
+    athleteId: string | number,
+    overrides?: RequestOverrides
+  ): Promise<Result<WorkoutTags, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/workout-tags`,
-      {},
+      endpoint("library.listTags", "athlete/{id}/workout-tags", { id: athleteId }),
+      { overrides },
       decodeWorkoutTags
     );
   }
@@ -1,12 +1,18 @@
 import type { ApiError } from "../errors";
 import type { Result } from "../result";
-import type { IntervalsHttpClient } from "../http/httpClient";
+import { endpoint } from "../http/endpoint";
+import type { IntervalsHttpClient, RequestOverrides } from "../http/httpClient";
+import { iterateDateWindows, type DateWindowOptions } from "../http/pagination";
 import {
   decodeWellness,
   decodeWellnessList,
+  decodeWellnessListLenient,
+  selectWellnessFields,
   type Wellness,
-  type WellnessList,
+  type WellnessField,
 } from "../schemas/wellness";
+import { listDecoder, type LenientListOptions, type ListResult } from "../schemas/lenientList";
+import type { SelectFieldsWithId } from "../schemas/fields";
 import { transformKeysToSnake } from "../utils/transform";
 
 export type ListWellnessOptions = {
@@ -14,9 +20,15 @@ export type ListWellnessOptions = {
   oldest?: string;
   /** Local date of newest record (ISO-8601), inclusive */
   newest?: string;
-  /** Comma separated list of field names to include (default is all) */
-  fields?: string[];
-};
+  /**
+   * Only return these fields (default is all). Narrows the result to
+   * `Pick<Wellness, ...>`; the fields left out aren't validated.
+   */
+  fields?: readonly WellnessField[];
+} & LenientListOptions;
+
+export type IterateWellnessOptions = DateWindowOptions &
+  Omit<ListWellnessOptions, "oldest" | "newest" | "lenient">;
 
 /**
  * Wellness resource for managing daily wellness records
@@ -28,33 +40,64 @@ export class WellnessResource {
   /**
    * List wellness records for date range.
    * Returns JSON format (for CSV, use the API directly with .csv extension).
+   * With `fields`, each record is typed as `Pick<Wellness, ...fields>`.
    */
-  list(
+  list<O extends ListWellnessOptions = {}>(
     athleteId: string | number,
-    options?: ListWellnessOptions
-  ): Promise<Result<WellnessList, ApiError>> {
+    options?: O,
+    overrides?: RequestOverrides
+  ): Promise<Result<ListResult<Wellness, O>, ApiError>> {
     const searchParams: Record<string, string> = {};
     if (options?.oldest) searchParams.oldest = options.oldest;
     if (options?.newest) searchParams.newest = options.newest;
-    if (options?.fields) searchParams.fields = options.fields.join(",");
+    const selection = options?.fields && selectWellnessFields(options.fields);
+    if (selection) searchParams.fields = selection.apiFields.join(",");
 
     return this.http.requestJson(
-      `athlete/${athleteId}/wellness`,
-      { searchParams },
-      decodeWellnessList
+      endpoint("wellness.list", "athlete/{id}/wellness", { id: athleteId }),
+      { searchParams, overrides },
+      listDecoder(
+        options,
+        selection?.decode ?? decodeWellnessList,
+        selection?.decodeLenient ?? decodeWellnessListLenient
+      )
     );
   }
 
+  /**
+   * Iterate over all wellness records in a date range, fetching `windowDays` at a time.
+   * Stops after yielding the first error. With `fields`, each record is typed
+   * as `Pick<...>` of the selected fields and `id`, which is always requested.
+   */
+  iterate<O extends IterateWellnessOptions>(
+    athleteId: string | number,
+    options: O,
+    overrides?: RequestOverrides
+  ): AsyncIterable<Result<SelectFieldsWithId<Wellness, O>, ApiError>> {
+    const { oldest, newest, windowDays, ...rest } = options;
+    const listOptions: Omit<IterateWellnessOptions, keyof DateWindowOptions> = rest;
+    // Duplicates across windows are dropped by id, so it is always requested.
+    if (listOptions.fields && !listOptions.fields.includes("id")) {
+      listOptions.fields = [...listOptions.fields, "id"];
+    }
+    return iterateDateWindows(
+      options,
+      (window) => this.list(athleteId, { ...listOptions, ...window }, overrides),
+      (wellness) => wellness.id
+    ) as AsyncIterable<Result<SelectFieldsWithId<Wellness, O>, ApiError>>;
+  }
+
   /**
    * Get wellness record for a specific date.
    */
   get(
     athleteId: string | number,
-    date: string
+    date: string,
+    overrides?: RequestOverrides
   ): Promise<Result<Wellness, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/wellness/${date}`,
-      {},
+      endpoint("wellness.get", "athlete/{id}/wellness/{date}", { id: athleteId, date }),
+      { overrides },
       decodeWellness
     );
   }
@@ -66,11 +109,12 @@ export class WellnessResource {
   update(
     athleteId: string | number,
     date: string,
-    data: Partial<Wellness>
+    data: Partial<Wellness>,
+    overrides?: RequestOverrides
   ): Promise<Result<Wellness, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/wellness/${date}`,
-      { method: "PUT", json: transformKeysToSnake(data) },
+      endpoint("wellness.update", "athlete/{id}/wellness/{date}", { id: athleteId, date }),
+      { method: "PUT", json: transformKeysToSnake(data), overrides },
       decodeWellness
     );
   }
@@ -82,11 +126,12 @@ export class WellnessResource {
    */
   updateBulk(
     athleteId: string | number,
-    records: Partial<Wellness>[]
+    records: Partial<Wellness>[],
+    overrides?: RequestOverrides
   ): Promise<Result<void, ApiError>> {
     return this.http.requestJson(
-      `athlete/${athleteId}/wellness-bulk`,
-      { method: "PUT", json: transformKeysToSnake(records) },
+      endpoint("wellness.updateBulk", "athlete/{id}/wellness-bulk", { id: athleteId }),
+      { method: "PUT", json: transformKeysToSnake(records), overrides },
       () => undefined
     );
   }
@@ -8,5 +8,129 @@ export function err<E>(error: E): Result<never, E> {
   return { ok: false, error };
 }
 
+type OkValue<R> = R extends { ok: true; value: infer T } ? T : never;
+type ErrValue<R> = R extends { ok: false; error: infer E } ? E : never;
 
+/** Transform the value of a successful result; errors pass through. */
+export function map<T, E, U>(result: Result<T, E>, fn: (value: T) => U): Result<U, E> {
+  return result.ok ? ok(fn(result.value)) : result;
+}
+
+/** Transform the error of a failed result; values pass through. */
+export function mapErr<T, E, F>(result: Result<T, E>, fn: (error: E) => F): Result<T, F> {
+  return result.ok ? result : err(fn(result.error));
+}
+
+/** Continue with another fallible step if the result succeeded. */
+export function andThen<T, E, U, F>(
+  result: Result<T, E>,
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? fn(result.value) : result;
+}
+
+/** The value, or `fallback` if the result failed. */
+export function unwrapOr<T, E, U>(result: Result<T, E>, fallback: U): T | U {
+  return result.ok ? result.value : fallback;
+}
+
+/** Handle both outcomes and return what the matching handler returns. */
+export function match<T, E, R>(
+  result: Result<T, E>,
+  handlers: { ok: (value: T) => R; err: (error: E) => R }
+): R {
+  return result.ok ? handlers.ok(result.value) : handlers.err(result.error);
+}
 
+/**
+ * All values if every result succeeded, otherwise the first error. Tuples
+ * keep their element types.
+ *
+ * @example
+ * const both = all(await Promise.all([client.athletes.get(0), client.wellness.list(0, range)]));
+ * if (both.ok) {
+ *   const [athlete, wellness] = both.value;
+ * }
+ */
+export function all<const R extends readonly Result<unknown, unknown>[]>(
+  results: R
+): Result<{ -readonly [K in keyof R]: OkValue<R[K]> }, ErrValue<R[number]>> {
+  const values: unknown[] = [];
+  for (const result of results) {
+    if (!result.ok) return err(result.error as ErrValue<R[number]>);
+    values.push(result.value);
+  }
+  return ok(values as { -readonly [K in keyof R]: OkValue<R[K]> });
+}
+
+/** Every value and every error, each in the order of `results`. */
+export function allSettled<T, E>(results: readonly Result<T, E>[]): { values: T[]; errors: E[] } {
+  const values: T[] = [];
+  const errors: E[] = [];
+  for (const result of results) {
+    if (result.ok) values.push(result.value);
+    else errors.push(result.error);
+  }
+  return { values, errors };
+}
+
+/**
+ * A pending `Result` with the combinators above, so async steps chain
+ * without awaiting each one. Callbacks may return promises. Await it (or
+ * call `unwrapOr`/`match`) to get the outcome.
+ *
+ * @example
+ * const name = await chain(client.athletes.get(0))
+ *   .map((athlete) => athlete.name)
+ *   .unwrapOr("Unknown");
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+  private readonly promise: Promise<Result<T, E>>;
+
+  constructor(result: Result<T, E> | PromiseLike<Result<T, E>>) {
+    this.promise = Promise.resolve(result);
+  }
+
+  map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+    return new AsyncResult(
+      this.promise.then(async (result) => (result.ok ? ok(await fn(result.value)) : result))
+    );
+  }
+
+  mapErr<F>(fn: (error: E) => F | PromiseLike<F>): AsyncResult<T, F> {
+    return new AsyncResult(
+      this.promise.then(async (result) => (result.ok ? result : err(await fn(result.error))))
+    );
+  }
+
+  andThen<U, F>(
+    fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): AsyncResult<U, E | F> {
+    return new AsyncResult<U, E | F>(
+      this.promise.then((result) => (result.ok ? fn(result.value) : result))
+    );
+  }
+
+  unwrapOr<U>(fallback: U): Promise<T | U> {
+    return this.promise.then((result) => unwrapOr(result, fallback));
+  }
+
+  match<R>(handlers: {
+    ok: (value: T) => R | PromiseLike<R>;
+    err: (error: E) => R | PromiseLike<R>;
+  }): Promise<R> {
+    return this.promise.then((result) => match(result, handlers));
+  }
+
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+}
+
+/** Start an async chain from a result or a pending one (e.g. a resource call). */
+export function chain<T, E>(result: Result<T, E> | PromiseLike<Result<T, E>>): AsyncResult<T, E> {
+  return new AsyncResult(result);
+}
@@ -1,5 +1,12 @@
 import * as v from "valibot";
-import { transformKeys, type CamelCaseKeys } from "../utils/transform";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { type LenientList, parseLenientList } from "./lenientList";
+import { selectFields, type FieldSelection, type ModelKey } from "./fields";
+import {
+  toCamelCase,
+  transformKeys,
+  type CamelCaseKeys,
+} from "../utils/transform";
 
 // StravaGear schema (equipment attached to activity)
 const StravaGearSchemaRaw = v.looseObject({
@@ -133,6 +140,9 @@ export const ActivitySchema = v.pipe(ActivitySchemaRaw, v.transform(transformKey
 
 export type Activity = CamelCaseKeys<v.InferOutput<typeof ActivitySchemaRaw>>;
 
+/** An `Activity` key that can be selected with `fields` */
+export type ActivityField = ModelKey<Activity>;
+
 export const ActivitiesSchema = v.array(ActivitySchema);
 export type Activities = Activity[];
 
@@ -183,12 +193,22 @@ const AnomalySchemaRaw = v.looseObject({
 export const AnomalySchema = v.pipe(AnomalySchemaRaw, v.transform(transformKeys));
 export type Anomaly = CamelCaseKeys<v.InferOutput<typeof AnomalySchemaRaw>>;
 
+// Stream sample value (a number, a gap, or an array for valueTypeIsArray streams)
+export type StreamValue = number | (number | null)[] | null;
+
+// Stream data is either a plain array or an object with index -> value mapping
+export type StreamData = StreamValue[] | Record<string, StreamValue>;
+
+// Stream data is not validated: samples vary by stream type and are checked
+// per value when building the typed model
+export const StreamDataSchema = v.custom<StreamData>(() => true);
+
 // ActivityStream schema (individual stream, raw)
 const ActivityStreamSchemaRaw = v.looseObject({
   type: v.nullish(v.string()),
   name: v.nullish(v.string()),
-  data: v.nullish(v.any()), // Object with index -> value mapping
-  data2: v.nullish(v.any()), // Secondary data object
+  data: v.nullish(StreamDataSchema),
+  data2: v.nullish(StreamDataSchema), // Secondary data (longitudes for latlng)
   valueTypeIsArray: v.nullish(v.boolean()),
   anomalies: v.nullish(v.array(AnomalySchema)),
   custom: v.nullish(v.boolean()),
@@ -202,6 +222,140 @@ export type ActivityStream = CamelCaseKeys<v.InferOutput<typeof ActivityStreamSc
 export const ActivityStreamsSchema = v.array(ActivityStreamSchema);
 export type ActivityStreams = ActivityStream[];
 
+/**
+ * A single decoded stream with its data as a dense array indexed by sample.
+ */
+export type StreamSeries<T> = {
+  type: string;
+  name?: string | null | undefined;
+  data: T[];
+  anomalies: Anomaly[];
+  allNull: boolean;
+  custom: boolean;
+};
+
+/**
+ * Value types of the well-known streams, keyed by camelCase stream type.
+ */
+export type KnownStreamValues = {
+  time: number;
+  watts: number | null;
+  heartrate: number | null;
+  cadence: number | null;
+  distance: number | null;
+  altitude: number | null;
+  velocitySmooth: number | null;
+  gradeSmooth: number | null;
+  temp: number | null;
+  torque: number | null;
+  respiration: number | null;
+  latlng: [lat: number, lng: number] | null;
+};
+
+export type KnownStreamType = keyof KnownStreamValues;
+
+/**
+ * Activity streams keyed by stream type.
+ * Streams that are not in `KnownStreamValues` (custom streams etc.) are kept in `others`.
+ */
+export type TypedActivityStreams = {
+  [K in KnownStreamType]?: StreamSeries<KnownStreamValues[K]>;
+} & {
+  others: Record<string, StreamSeries<StreamValue>>;
+};
+
+const KNOWN_STREAM_TYPES: readonly KnownStreamType[] = [
+  "time",
+  "watts",
+  "heartrate",
+  "cadence",
+  "distance",
+  "altitude",
+  "velocitySmooth",
+  "gradeSmooth",
+  "temp",
+  "torque",
+  "respiration",
+  "latlng",
+];
+
+function isKnownStreamType(type: string): type is KnownStreamType {
+  return (KNOWN_STREAM_TYPES as readonly string[]).includes(type);
+}
+
+function toStreamValue(value: unknown): StreamValue {
+  if (typeof value === "number") return value;
+  if (Array.isArray(value)) return value.map((item: unknown) => (typeof item === "number" ? item : null));
+  return null;
+}
+
+function toDenseArray(data: unknown): StreamValue[] {
+  if (Array.isArray(data)) return data.map(toStreamValue);
+  if (!data || typeof data !== "object") return [];
+
+  const dense: StreamValue[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    const index = Number(key);
+    if (Number.isInteger(index) && index >= 0) dense[index] = toStreamValue(value);
+  }
+  return Array.from(dense, (value) => value ?? null);
+}
+
+function toNumberOrNull(value: StreamValue | undefined): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+// Gaps take the time of the previous sample (the first known one at the start),
+// so the series stays aligned with the other streams and sorted for indexAtTime
+function fillTimeGaps(data: StreamValue[]): number[] {
+  let previous = toNumberOrNull(data.find((value) => typeof value === "number")) ?? 0;
+  return data.map((value) => (previous = toNumberOrNull(value) ?? previous));
+}
+
+/**
+ * Convert decoded streams into a model keyed by camelCase stream type.
+ * `latlng` is zipped from `data` (latitudes) and `data2` (longitudes).
+ */
+export function toTypedActivityStreams(
+  streams: ActivityStreams
+): TypedActivityStreams {
+  const typed: TypedActivityStreams = { others: {} };
+
+  for (const stream of streams) {
+    if (!stream.type) continue;
+    const type = toCamelCase(stream.type);
+    const data = toDenseArray(stream.data);
+    const base = {
+      type: stream.type,
+      name: stream.name,
+      anomalies: stream.anomalies ?? [],
+      allNull: stream.allNull ?? false,
+      custom: stream.custom ?? false,
+    };
+
+    if (!isKnownStreamType(type) || stream.custom) {
+      typed.others[type] = { ...base, data };
+    } else if (type === "latlng") {
+      const lngs = toDenseArray(stream.data2);
+      typed.latlng = {
+        ...base,
+        data: data.map((lat, i) => {
+          const lng = lngs[i];
+          return typeof lat === "number" && typeof lng === "number"
+            ? [lat, lng]
+            : null;
+        }),
+      };
+    } else if (type === "time") {
+      typed.time = { ...base, data: fillTimeGaps(data) };
+    } else {
+      typed[type] = { ...base, data: data.map(toNumberOrNull) };
+    }
+  }
+
+  return typed;
+}
+
 // UpdateStreamsResponse schema (response from PUT streams, raw)
 const UpdateStreamsResponseSchemaRaw = v.looseObject({
   updated: v.nullish(v.array(v.string())),
@@ -301,39 +455,260 @@ const HRCurveSchemaRaw = v.looseObject({
 export const HRCurveSchema = v.pipe(HRCurveSchemaRaw, v.transform(transformKeys));
 export type HRCurve = CamelCaseKeys<v.InferOutput<typeof HRCurveSchemaRaw>>;
 
+// ActivityMap schema (route polyline and bounds for map rendering, raw)
+const ActivityMapSchemaRaw = v.looseObject({
+  bounds: v.nullish(v.array(v.array(v.number()))),
+  latlngs: v.nullish(v.array(v.nullable(v.array(v.number())))),
+  route: v.nullish(v.any()),
+  weather: v.nullish(v.any()),
+});
+
+export const ActivityMapSchema = v.pipe(ActivityMapSchemaRaw, v.transform(transformKeys));
+export type ActivityMap = CamelCaseKeys<v.InferOutput<typeof ActivityMapSchemaRaw>>;
+
+// ActivitySegment schema (matched segment effort, raw)
+const ActivitySegmentSchemaRaw = v.looseObject({
+  id: v.nullish(v.union([v.string(), v.number()])),
+  segment_id: v.nullish(v.union([v.string(), v.number()])),
+  name: v.nullish(v.string()),
+  start_index: v.nullish(v.number()),
+  end_index: v.nullish(v.number()),
+  elapsed_time: v.nullish(v.number()),
+  moving_time: v.nullish(v.number()),
+  distance: v.nullish(v.number()),
+  average_watts: v.nullish(v.number()),
+  average_heartrate: v.nullish(v.number()),
+  average_cadence: v.nullish(v.number()),
+  average_speed: v.nullish(v.number()),
+  average_grade: v.nullish(v.number()),
+  pr_rank: v.nullish(v.number()),
+  starred: v.nullish(v.boolean()),
+});
+
+export const ActivitySegmentSchema = v.pipe(ActivitySegmentSchemaRaw, v.transform(transformKeys));
+export type ActivitySegment = CamelCaseKeys<v.InferOutput<typeof ActivitySegmentSchemaRaw>>;
+
+export const ActivitySegmentsSchema = v.array(ActivitySegmentSchema);
+export type ActivitySegments = ActivitySegment[];
+
+// WeatherSummary schema (weather conditions along the activity, raw)
+const WeatherSummarySchemaRaw = v.looseObject({
+  average_weather_temp: v.nullish(v.number()),
+  min_weather_temp: v.nullish(v.number()),
+  max_weather_temp: v.nullish(v.number()),
+  average_feels_like: v.nullish(v.number()),
+  min_feels_like: v.nullish(v.number()),
+  max_feels_like: v.nullish(v.number()),
+  average_wind_speed: v.nullish(v.number()),
+  average_wind_gust: v.nullish(v.number()),
+  prevailing_wind_deg: v.nullish(v.number()),
+  headwind_percent: v.nullish(v.number()),
+  tailwind_percent: v.nullish(v.number()),
+  average_clouds: v.nullish(v.number()),
+  max_rain: v.nullish(v.number()),
+  max_snow: v.nullish(v.number()),
+  average_humidity: v.nullish(v.number()),
+  description: v.nullish(v.string()),
+});
+
+export const WeatherSummarySchema = v.pipe(WeatherSummarySchemaRaw, v.transform(transformKeys));
+export type WeatherSummary = CamelCaseKeys<v.InferOutput<typeof WeatherSummarySchemaRaw>>;
+
+// BestEffort schema (single best effort within an activity, raw)
+const BestEffortSchemaRaw = v.looseObject({
+  start_index: v.nullish(v.number()),
+  end_index: v.nullish(v.number()),
+  average: v.nullish(v.number()),
+  duration: v.nullish(v.number()),
+  distance: v.nullish(v.number()),
+});
+
+export const BestEffortSchema = v.pipe(BestEffortSchemaRaw, v.transform(transformKeys));
+export type BestEffort = CamelCaseKeys<v.InferOutput<typeof BestEffortSchemaRaw>>;
+
+// BestEfforts schema (response from best-efforts endpoint, raw)
+const BestEffortsSchemaRaw = v.looseObject({
+  efforts: v.nullish(v.array(BestEffortSchema)),
+});
+
+export const BestEffortsSchema = v.pipe(BestEffortsSchemaRaw, v.transform(transformKeys));
+export type BestEfforts = CamelCaseKeys<v.InferOutput<typeof BestEffortsSchemaRaw>>;
+
+// HistogramBucket schema (shared by power/pace/GAP/HR histograms, raw)
+const HistogramBucketSchemaRaw = v.looseObject({
+  min: v.nullish(v.number()),
+  max: v.nullish(v.number()),
+  secs: v.nullish(v.number()),
+});
+
+export const HistogramBucketSchema = v.pipe(HistogramBucketSchemaRaw, v.transform(transformKeys));
+export type HistogramBucket = CamelCaseKeys<v.InferOutput<typeof HistogramBucketSchemaRaw>>;
+
+export const HistogramSchema = v.array(HistogramBucketSchema);
+export type Histogram = HistogramBucket[];
+
+// PowerVsHRBucket schema (one time bucket of the power vs HR plot, raw)
+const PowerVsHRBucketSchemaRaw = v.looseObject({
+  start: v.nullish(v.number()),
+  secs: v.nullish(v.number()),
+  watts: v.nullish(v.number()),
+  hr: v.nullish(v.number()),
+  cadence: v.nullish(v.number()),
+});
+
+export const PowerVsHRBucketSchema = v.pipe(PowerVsHRBucketSchemaRaw, v.transform(transformKeys));
+export type PowerVsHRBucket = CamelCaseKeys<v.InferOutput<typeof PowerVsHRBucketSchemaRaw>>;
+
+// PowerVsHR schema (raw)
+const PowerVsHRSchemaRaw = v.looseObject({
+  bucket_size: v.nullish(v.number()),
+  warmup: v.nullish(v.number()),
+  cooldown: v.nullish(v.number()),
+  elapsed_time: v.nullish(v.number()),
+  hr_lag: v.nullish(v.number()),
+  power_hr: v.nullish(v.number()),
+  power_hr_first: v.nullish(v.number()),
+  power_hr_second: v.nullish(v.number()),
+  decoupling: v.nullish(v.number()),
+  max_watts: v.nullish(v.number()),
+  max_hr: v.nullish(v.number()),
+  series: v.nullish(v.array(PowerVsHRBucketSchema)),
+});
+
+export const PowerVsHRSchema = v.pipe(PowerVsHRSchemaRaw, v.transform(transformKeys));
+export type PowerVsHR = CamelCaseKeys<v.InferOutput<typeof PowerVsHRSchemaRaw>>;
+
+// TimeAtHR schema (seconds spent at each heart rate, raw)
+const TimeAtHRSchemaRaw = v.looseObject({
+  min_bpm: v.nullish(v.number()),
+  max_bpm: v.nullish(v.number()),
+  secs: v.nullish(v.array(v.number())),
+  cumulative_secs: v.nullish(v.array(v.number())),
+});
+
+export const TimeAtHRSchema = v.pipe(TimeAtHRSchemaRaw, v.transform(transformKeys));
+export type TimeAtHR = CamelCaseKeys<v.InferOutput<typeof TimeAtHRSchemaRaw>>;
+
+// PowerSpikeModel schema (detected power meter spikes, raw)
+const PowerSpikeModelSchemaRaw = v.looseObject({
+  threshold: v.nullish(v.number()),
+  spike_count: v.nullish(v.number()),
+  max_spike: v.nullish(v.number()),
+  spikes: v.nullish(v.array(AnomalySchema)),
+});
+
+export const PowerSpikeModelSchema = v.pipe(PowerSpikeModelSchemaRaw, v.transform(transformKeys));
+export type PowerSpikeModel = CamelCaseKeys<v.InferOutput<typeof PowerSpikeModelSchemaRaw>>;
+
+// HRLoadModel schema (HR-based training load model, raw)
+const HRLoadModelSchemaRaw = v.looseObject({
+  type: v.nullish(v.string()),
+  resting_hr: v.nullish(v.number()),
+  lthr: v.nullish(v.number()),
+  max_hr: v.nullish(v.number()),
+  trimp_factor: v.nullish(v.number()),
+  training_load: v.nullish(v.number()),
+  hr_zones: v.nullish(v.array(v.number())),
+  zone_loads: v.nullish(v.array(v.number())),
+});
+
+export const HRLoadModelSchema = v.pipe(HRLoadModelSchemaRaw, v.transform(transformKeys));
+export type HRLoadModel = CamelCaseKeys<v.InferOutput<typeof HRLoadModelSchemaRaw>>;
+
 // Decoder functions (internal use)
-export function decodeActivities(data: unknown): Activities {
-  return v.parse(ActivitiesSchema, data);
+export function decodeActivities(data: unknown, options?: DecodeOptions): Activities {
+  return parseSchema(ActivitiesSchema, "Activities", data, options);
+}
+
+export function decodeActivitiesLenient(data: unknown, options?: DecodeOptions): LenientList<Activity> {
+  return parseLenientList(ActivitiesSchema, "Activities", data, options);
+}
+
+/** API field names and decoders for activities listed with only `fields` */
+export function selectActivityFields(fields: readonly ActivityField[]): FieldSelection<Activity> {
+  return selectFields(ActivitySchemaRaw, "Activities", fields);
+}
+
+export function decodeActivity(data: unknown, options?: DecodeOptions): Activity {
+  return parseSchema(ActivitySchema, "Activity", data, options);
+}
+
+export function decodeIntervalsResponse(data: unknown, options?: DecodeOptions): IntervalsResponse {
+  return parseSchema(IntervalsResponseSchema, "IntervalsResponse", data, options);
+}
+
+export function decodeActivityId(data: unknown, options?: DecodeOptions): ActivityId {
+  return parseSchema(ActivityIdSchema, "ActivityId", data, options);
+}
+
+export function decodeActivityStreams(data: unknown, options?: DecodeOptions): ActivityStreams {
+  return parseSchema(ActivityStreamsSchema, "ActivityStreams", data, options);
+}
+
+export function decodeActivityStreamsLenient(data: unknown, options?: DecodeOptions): LenientList<ActivityStream> {
+  return parseLenientList(ActivityStreamsSchema, "ActivityStreams", data, options);
+}
+
+export function decodeTypedActivityStreams(data: unknown, options?: DecodeOptions): TypedActivityStreams {
+  return toTypedActivityStreams(decodeActivityStreams(data, options));
+}
+
+export function decodeUpdateStreamsResponse(data: unknown, options?: DecodeOptions): UpdateStreamsResponse {
+  return parseSchema(UpdateStreamsResponseSchema, "UpdateStreamsResponse", data, options);
+}
+
+export function decodePowerCurve(data: unknown, options?: DecodeOptions): PowerCurve {
+  return parseSchema(PowerCurveSchema, "PowerCurve", data, options);
+}
+
+export function decodePaceCurve(data: unknown, options?: DecodeOptions): PaceCurve {
+  return parseSchema(PaceCurveSchema, "PaceCurve", data, options);
+}
+
+export function decodeHRCurve(data: unknown, options?: DecodeOptions): HRCurve {
+  return parseSchema(HRCurveSchema, "HRCurve", data, options);
+}
+
+export function decodeActivityMap(data: unknown, options?: DecodeOptions): ActivityMap {
+  return parseSchema(ActivityMapSchema, "ActivityMap", data, options);
+}
+
+export function decodeActivitySegments(data: unknown, options?: DecodeOptions): ActivitySegments {
+  return parseSchema(ActivitySegmentsSchema, "ActivitySegments", data, options);
+}
+
+export function decodeActivitySegmentsLenient(data: unknown, options?: DecodeOptions): LenientList<ActivitySegment> {
+  return parseLenientList(ActivitySegmentsSchema, "ActivitySegments", data, options);
 }
 
-export function decodeActivity(data: unknown): Activity {
-  return v.parse(ActivitySchema, data);
+export function decodeWeatherSummary(data: unknown, options?: DecodeOptions): WeatherSummary {
+  return parseSchema(WeatherSummarySchema, "WeatherSummary", data, options);
 }
 
-export function decodeIntervalsResponse(data: unknown): IntervalsResponse {
-  return v.parse(IntervalsResponseSchema, data);
+export function decodeBestEfforts(data: unknown, options?: DecodeOptions): BestEfforts {
+  return parseSchema(BestEffortsSchema, "BestEfforts", data, options);
 }
 
-export function decodeActivityId(data: unknown): ActivityId {
-  return v.parse(ActivityIdSchema, data);
+export function decodeHistogram(data: unknown, options?: DecodeOptions): Histogram {
+  return parseSchema(HistogramSchema, "Histogram", data, options);
 }
 
-export function decodeActivityStreams(data: unknown): ActivityStreams {
-  return v.parse(ActivityStreamsSchema, data);
+export function decodeHistogramLenient(data: unknown, options?: DecodeOptions): LenientList<HistogramBucket> {
+  return parseLenientList(HistogramSchema, "Histogram", data, options);
 }
 
-export function decodeUpdateStreamsResponse(data: unknown): UpdateStreamsResponse {
-  return v.parse(UpdateStreamsResponseSchema, data);
+export function decodePowerVsHR(data: unknown, options?: DecodeOptions): PowerVsHR {
+  return parseSchema(PowerVsHRSchema, "PowerVsHR", data, options);
 }
 
-export function decodePowerCurve(data: unknown): PowerCurve {
-  return v.parse(PowerCurveSchema, data);
+export function decodeTimeAtHR(data: unknown, options?: DecodeOptions): TimeAtHR {
+  return parseSchema(TimeAtHRSchema, "TimeAtHR", data, options);
 }
 
-export function decodePaceCurve(data: unknown): PaceCurve {
-  return v.parse(PaceCurveSchema, data);
+export function decodePowerSpikeModel(data: unknown, options?: DecodeOptions): PowerSpikeModel {
+  return parseSchema(PowerSpikeModelSchema, "PowerSpikeModel", data, options);
 }
 
-export function decodeHRCurve(data: unknown): HRCurve {
-  return v.parse(HRCurveSchema, data);
+export function decodeHRLoadModel(data: unknown, options?: DecodeOptions): HRLoadModel {
+  return parseSchema(HRLoadModelSchema, "HRLoadModel", data, options);
 }
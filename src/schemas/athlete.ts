@@ -1,4 +1,6 @@
 import * as v from "valibot";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { type LenientList, parseLenientList } from "./lenientList";
 import { transformKeys, type CamelCaseKeys } from "../utils/transform";
 
 // Base Athlete schema (raw snake_case from API)
@@ -172,22 +174,26 @@ export const AthleteSummarySchema = v.array(SummaryWithCatsSchema);
 export type AthleteSummary = SummaryWithCats[];
 
 // Decoder functions (internal use)
-export function decodeAthlete(data: unknown): Athlete {
-  return v.parse(AthleteSchema, data);
+export function decodeAthlete(data: unknown, options?: DecodeOptions): Athlete {
+  return parseSchema(AthleteSchema, "Athlete", data, options);
 }
 
-export function decodeWithSportSettings(data: unknown): WithSportSettings {
-  return v.parse(WithSportSettingsSchema, data);
+export function decodeWithSportSettings(data: unknown, options?: DecodeOptions): WithSportSettings {
+  return parseSchema(WithSportSettingsSchema, "WithSportSettings", data, options);
 }
 
-export function decodeAthleteSettings(data: unknown): AthleteSettings {
-  return v.parse(AthleteSettingsSchema, data);
+export function decodeAthleteSettings(data: unknown, options?: DecodeOptions): AthleteSettings {
+  return parseSchema(AthleteSettingsSchema, "AthleteSettings", data, options);
 }
 
-export function decodeAthleteProfile(data: unknown): AthleteProfile {
-  return v.parse(AthleteProfileSchema, data);
+export function decodeAthleteProfile(data: unknown, options?: DecodeOptions): AthleteProfile {
+  return parseSchema(AthleteProfileSchema, "AthleteProfile", data, options);
 }
 
-export function decodeAthleteSummary(data: unknown): AthleteSummary {
-  return v.parse(AthleteSummarySchema, data);
+export function decodeAthleteSummary(data: unknown, options?: DecodeOptions): AthleteSummary {
+  return parseSchema(AthleteSummarySchema, "AthleteSummary", data, options);
+}
+
+export function decodeAthleteSummaryLenient(data: unknown, options?: DecodeOptions): LenientList<SummaryWithCats> {
+  return parseLenientList(AthleteSummarySchema, "AthleteSummary", data, options);
 }
@@ -1,4 +1,6 @@
 import * as v from "valibot";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { type LenientList, parseLenientList } from "./lenientList";
 import { transformKeys, type CamelCaseKeys } from "../utils/transform";
 
 // Chat schema (raw snake_case from API)
@@ -48,18 +50,26 @@ export const CreateMessageInputSchema = v.pipe(CreateMessageInputSchemaRaw, v.tr
 export type CreateMessageInput = CamelCaseKeys<v.InferOutput<typeof CreateMessageInputSchemaRaw>>;
 
 // Decoder functions (internal use)
-export function decodeChat(data: unknown): Chat {
-  return v.parse(ChatSchema, data);
+export function decodeChat(data: unknown, options?: DecodeOptions): Chat {
+  return parseSchema(ChatSchema, "Chat", data, options);
 }
 
-export function decodeChats(data: unknown): Chats {
-  return v.parse(ChatsSchema, data);
+export function decodeChats(data: unknown, options?: DecodeOptions): Chats {
+  return parseSchema(ChatsSchema, "Chats", data, options);
 }
 
-export function decodeMessage(data: unknown): Message {
-  return v.parse(MessageSchema, data);
+export function decodeChatsLenient(data: unknown, options?: DecodeOptions): LenientList<Chat> {
+  return parseLenientList(ChatsSchema, "Chats", data, options);
 }
 
-export function decodeMessages(data: unknown): Messages {
-  return v.parse(MessagesSchema, data);
+export function decodeMessage(data: unknown, options?: DecodeOptions): Message {
+  return parseSchema(MessageSchema, "Message", data, options);
+}
+
+export function decodeMessages(data: unknown, options?: DecodeOptions): Messages {
+  return parseSchema(MessagesSchema, "Messages", data, options);
+}
+
+export function decodeMessagesLenient(data: unknown, options?: DecodeOptions): LenientList<Message> {
+  return parseLenientList(MessagesSchema, "Messages", data, options);
 }
@@ -0,0 +1,212 @@
+import * as v from "valibot";
+
+/**
+ * How response payloads are checked against the schemas:
+ * - `loose`: unknown keys are accepted silently (default)
+ * - `strict`: unknown keys and unexpected nulls fail decoding with a Schema error
+ * - `report`: decoding works as in `loose`, and every drift from the schema
+ *   (unknown keys, unexpected nulls, type mismatches) is passed to `onSchemaDrift`
+ */
+export type SchemaMode = "strict" | "loose" | "report";
+
+export type SchemaDriftIssue = {
+  type: "unknownKey" | "unexpectedNull" | "typeMismatch";
+  /** Where in the payload, e.g. `icu_zones` or `[].intervals[].type`; `[]` stands for any array index */
+  path: string;
+  /** What the schema expects, for nulls and type mismatches */
+  expected?: string;
+  /** What the payload contained */
+  received: string;
+};
+
+export type SchemaDriftReport = {
+  /** Name of the decoded schema, e.g. `Activities` */
+  schema: string;
+  /** Each issue once, however many array items it appeared in */
+  issues: SchemaDriftIssue[];
+  /** Resource method whose response drifted, e.g. `activities.list` */
+  operation?: string;
+  /** Route template of that request */
+  route?: string;
+};
+
+export type DecodeOptions = {
+  /** Default: "loose" */
+  schemaMode?: SchemaMode;
+  /** Receives the drift found in `report` mode; errors it throws are ignored */
+  onSchemaDrift?: (report: SchemaDriftReport) => void;
+};
+
+/** Thrown in `strict` mode when a payload drifted from its schema */
+export class SchemaDriftError extends Error {
+  readonly issues: SchemaDriftIssue[];
+
+  constructor(schema: string, issues: SchemaDriftIssue[]) {
+    super(`${schema} payload does not match the schema: ${issues.map(describeIssue).join("; ")}`);
+    this.name = "SchemaDriftError";
+    this.issues = issues;
+  }
+}
+
+function describeIssue(issue: SchemaDriftIssue): string {
+  const where = issue.path || "(root)";
+  if (issue.type === "unknownKey") return `unknown key ${where}`;
+  return `${where}: expected ${issue.expected ?? "value"}, received ${issue.received}`;
+}
+
+type AnySchema = v.GenericSchema & {
+  entries?: Record<string, AnySchema>;
+  wrapped?: AnySchema;
+  item?: AnySchema;
+  options?: unknown[];
+  value?: AnySchema;
+  rest?: AnySchema;
+  literal?: unknown;
+  getter?: (input: unknown) => AnySchema;
+};
+
+const NULL_ACCEPTING = ["nullish", "nullable", "null", "any", "unknown"];
+const UNDEFINED_ACCEPTING = ["nullish", "optional", "undefinedable", "exact_optional", "any", "unknown"];
+
+function received(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function join(path: string, key: string): string {
+  return key === "[]" ? `${path}[]` : path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function inspect(schema: AnySchema, value: unknown, path: string, issues: SchemaDriftIssue[]): void {
+  const { type } = schema;
+
+  if (value === null && !NULL_ACCEPTING.includes(type)) {
+    issues.push({ type: "unexpectedNull", path, expected: schema.expects, received: "null" });
+    return;
+  }
+  if (value === undefined && UNDEFINED_ACCEPTING.includes(type)) return;
+
+  switch (type) {
+    case "nullish":
+    case "nullable":
+    case "optional":
+    case "undefinedable":
+    case "exact_optional":
+      if (value !== null && schema.wrapped) inspect(schema.wrapped, value, path, issues);
+      return;
+    case "lazy":
+      if (schema.getter) inspect(schema.getter(value), value, path, issues);
+      return;
+    case "object":
+    case "loose_object":
+    case "strict_object":
+    case "object_with_rest": {
+      if (!isPlainObject(value)) break;
+      const entries = schema.entries ?? {};
+      for (const [key, entry] of Object.entries(entries)) inspect(entry, value[key], join(path, key), issues);
+      for (const key of Object.keys(value)) {
+        if (key in entries) continue;
+        if (schema.rest) inspect(schema.rest, value[key], join(path, key), issues);
+        else issues.push({ type: "unknownKey", path: join(path, key), received: received(value[key]) });
+      }
+      return;
+    }
+    case "record":
+      if (!isPlainObject(value)) break;
+      for (const [key, child] of Object.entries(value)) {
+        if (schema.value) inspect(schema.value, child, join(path, key), issues);
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) break;
+      for (const child of value) if (schema.item) inspect(schema.item, child, join(path, "[]"), issues);
+      return;
+    case "union":
+    case "variant": {
+      // The option that fits best: no issues, or the fewest.
+      let best: SchemaDriftIssue[] | undefined;
+      for (const option of (schema.options ?? []) as AnySchema[]) {
+        const found: SchemaDriftIssue[] = [];
+        inspect(option, value, path, found);
+        if (!best || found.length < best.length) best = found;
+        if (found.length === 0) break;
+      }
+      if (best) issues.push(...best);
+      return;
+    }
+    case "string":
+    case "number":
+    case "boolean":
+    case "bigint":
+      if (typeof value === type) return;
+      break;
+    case "literal":
+      if (value === schema.literal) return;
+      break;
+    case "picklist":
+      if (schema.options?.includes(value)) return;
+      break;
+    default:
+      // any, unknown and schemas the API payloads don't use
+      return;
+  }
+  issues.push({ type: "typeMismatch", path, expected: schema.expects, received: received(value) });
+}
+
+/** Everything in `data` that doesn't match `schema`, each issue listed once */
+export function findSchemaDrift(schema: v.GenericSchema, data: unknown): SchemaDriftIssue[] {
+  const issues: SchemaDriftIssue[] = [];
+  inspect(schema as AnySchema, data, "", issues);
+  const seen = new Set<string>();
+  return issues.filter((issue) => {
+    const key = `${issue.type}\n${issue.path}\n${issue.received}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Apply the schema mode in `options` to `data`: throw `SchemaDriftError` in
+ * `strict` mode, pass the drift to `onSchemaDrift` in `report` mode.
+ */
+export function checkSchemaDrift(
+  schema: v.GenericSchema,
+  name: string,
+  data: unknown,
+  options?: DecodeOptions
+): void {
+  const mode = options?.schemaMode ?? "loose";
+  if (mode === "loose") return;
+
+  const issues = findSchemaDrift(schema, data);
+  if (mode === "strict") {
+    const drift = issues.filter((issue) => issue.type !== "typeMismatch");
+    if (drift.length > 0) throw new SchemaDriftError(name, drift);
+  } else if (issues.length > 0) {
+    try {
+      options?.onSchemaDrift?.({ schema: name, issues });
+    } catch {
+      // Reporting must not break decoding
+    }
+  }
+}
+
+/**
+ * `v.parse` that follows the schema mode in `options`. Decoders use it so a
+ * caller can ask for strict decoding or drift reports.
+ */
+export function parseSchema<S extends v.GenericSchema>(
+  schema: S,
+  name: string,
+  data: unknown,
+  options?: DecodeOptions
+): v.InferOutput<S> {
+  checkSchemaDrift(schema, name, data, options);
+  return v.parse(schema, data);
+}
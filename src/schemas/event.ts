@@ -1,5 +1,12 @@
 import * as v from "valibot";
-import { transformKeys, type CamelCaseKeys } from "../utils/transform";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { type LenientList, parseLenientList } from "./lenientList";
+import {
+  transformKeys,
+  transformKeysToSnake,
+  type CamelCaseKeys,
+} from "../utils/transform";
+import { encodeWorkoutDoc, WorkoutDocSchema } from "./workout";
 
 // Base Event schema with commonly used fields (raw snake_case from API)
 const EventSchemaRaw = v.looseObject({
@@ -15,7 +22,7 @@ const EventSchemaRaw = v.looseObject({
   description: v.nullish(v.string()),
   type: v.nullish(v.string()),
   workout_type: v.nullish(v.string()),
-  workout_doc: v.nullish(v.any()),
+  workout_doc: v.nullish(WorkoutDocSchema),
 
   // Basic metrics
   load: v.nullish(v.number()),
@@ -113,7 +120,7 @@ const EventInputSchemaRaw = v.looseObject({
   description: v.nullish(v.string()),
   type: v.nullish(v.string()),
   workout_type: v.nullish(v.string()),
-  workout_doc: v.nullish(v.any()),
+  workout_doc: v.nullish(WorkoutDocSchema),
   load: v.nullish(v.number()),
   distance: v.nullish(v.number()),
   duration: v.nullish(v.number()),
@@ -176,20 +183,36 @@ export const DuplicateEventsInputSchema = v.pipe(DuplicateEventsInputSchemaRaw,
 export type DuplicateEventsInput = CamelCaseKeys<v.InferOutput<typeof DuplicateEventsInputSchemaRaw>>;
 
 // Decoder functions (internal use)
-export function decodeEvents(data: unknown): Events {
-  return v.parse(EventsSchema, data);
+export function decodeEvents(data: unknown, options?: DecodeOptions): Events {
+  return parseSchema(EventsSchema, "Events", data, options);
 }
 
-export function decodeEvent(data: unknown): Event {
-  return v.parse(EventSchema, data);
+export function decodeEventsLenient(data: unknown, options?: DecodeOptions): LenientList<Event> {
+  return parseLenientList(EventsSchema, "Events", data, options);
 }
 
-export function decodeDeleteEventsResponse(
-  data: unknown
-): DeleteEventsResponse {
-  return v.parse(DeleteEventsResponseSchema, data);
+export function decodeEvent(data: unknown, options?: DecodeOptions): Event {
+  return parseSchema(EventSchema, "Event", data, options);
 }
 
-export function decodeEventTags(data: unknown): EventTags {
-  return v.parse(EventTagsSchema, data);
+export function decodeDeleteEventsResponse(data: unknown, options?: DecodeOptions): DeleteEventsResponse {
+  return parseSchema(DeleteEventsResponseSchema, "DeleteEventsResponse", data, options);
+}
+
+export function decodeEventTags(data: unknown, options?: DecodeOptions): EventTags {
+  return parseSchema(EventTagsSchema, "EventTags", data, options);
+}
+
+/**
+ * Encode event input for create/update requests (snake_case keys,
+ * structured workout encoded with `encodeWorkoutDoc`).
+ */
+export function encodeEventInput(
+  event: Partial<EventInput>
+): Record<string, unknown> {
+  const { workoutDoc, ...rest } = event;
+  return {
+    ...transformKeysToSnake(rest),
+    ...(workoutDoc ? { workout_doc: encodeWorkoutDoc(workoutDoc) } : {}),
+  };
 }
@@ -0,0 +1,52 @@
+import * as v from "valibot";
+import { parseSchema, type DecodeOptions } from "./drift";
+import { parseLenientList, type LenientList } from "./lenientList";
+import { toCamelCase, toSnakeCase, transformKeys } from "../utils/transform";
+
+/** Keys a model declares, without the index signature of loose objects */
+export type ModelKey<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+} &
+  string;
+
+/** The model narrowed to the `fields` selected in `options`, or the whole model */
+export type SelectFields<T, O> = O extends { fields: readonly (infer F)[] } ? Pick<T, F & keyof T> : T;
+
+/** `SelectFields` for iterators, which always request `id` to drop duplicates */
+export type SelectFieldsWithId<T, O> = O extends { fields: readonly (infer F)[] } ? Pick<T, (F | "id") & keyof T> : T;
+
+/** Decoders for a list fetched with only some fields, see `selectFields` */
+export type FieldSelection<T> = {
+  /** The selected fields as the API names them */
+  apiFields: string[];
+  decode: (data: unknown, options?: DecodeOptions) => T[];
+  decodeLenient: (data: unknown, options?: DecodeOptions) => LenientList<T>;
+};
+
+type RawObjectSchema = v.LooseObjectSchema<v.ObjectEntries, v.ErrorMessage<v.LooseObjectIssue> | undefined>;
+
+/**
+ * Prepare a list request for `fields` (keys of the camelCase model): their
+ * API names, taken from the raw schema or converted to snake_case, and
+ * decoders for which the fields left out may be missing.
+ */
+export function selectFields<T>(
+  schema: RawObjectSchema,
+  name: string,
+  fields: readonly string[]
+): FieldSelection<T> {
+  const apiNames = new Map(Object.keys(schema.entries).map((key) => [toCamelCase(key), key]));
+  const apiFields = fields.map((field) => apiNames.get(field) ?? toSnakeCase(field));
+
+  const selected = new Set(apiFields);
+  const entries = Object.fromEntries(
+    Object.entries(schema.entries).map(([key, entry]) => [key, selected.has(key) ? entry : v.optional(entry)])
+  );
+  const list = v.array(v.pipe(v.looseObject(entries), v.transform(transformKeys)));
+
+  return {
+    apiFields,
+    decode: (data, options) => parseSchema(list, name, data, options) as T[],
+    decodeLenient: (data, options) => parseLenientList(list, name, data, options) as LenientList<T>,
+  };
+}
@@ -0,0 +1,85 @@
+import * as v from "valibot";
+import { checkSchemaDrift, type DecodeOptions } from "./drift";
+import type { SelectFields } from "./fields";
+
+/** An array item that failed to decode */
+export type ListItemFailure = {
+  /** Position of the item in the response array */
+  index: number;
+  /** The item as the API returned it */
+  raw: unknown;
+  message: string;
+  /** Valibot issues, or the schema drift found in `strict` mode */
+  issues?: unknown;
+};
+
+/** The items of a list response that decoded, and the ones that didn't */
+export type LenientList<T> = {
+  items: T[];
+  failures: ListItemFailure[];
+};
+
+export type LenientListOptions = {
+  /**
+   * Decode each item on its own and return `{ items, failures }` instead of
+   * failing the whole call with a `Schema` error when one item doesn't match.
+   */
+  lenient?: boolean;
+};
+
+/** What a list method returns for the options it was called with: `lenient` and `fields` */
+export type ListResult<T, O> = LenientResult<SelectFields<T, O>, O>;
+
+type LenientResult<T, O> = O extends { lenient: true }
+  ? LenientList<T>
+  : O extends { lenient?: infer L }
+    ? "lenient" extends keyof O
+      ? true extends L
+        ? T[] | LenientList<T>
+        : T[]
+      : T[]
+    : T[];
+
+type ArraySchemaOf<S extends v.GenericSchema> = v.ArraySchema<S, v.ErrorMessage<v.ArrayIssue> | undefined>;
+
+/**
+ * `parseSchema` for array schemas that decodes item by item, collecting the
+ * items that fail instead of throwing. Data that isn't an array still throws.
+ */
+export function parseLenientList<S extends v.GenericSchema>(
+  schema: ArraySchemaOf<S>,
+  name: string,
+  data: unknown,
+  options?: DecodeOptions
+): LenientList<v.InferOutput<S>> {
+  if (!Array.isArray(data)) return { items: v.parse(schema, data), failures: [] };
+
+  // Drift is reported once for the whole response, as in the other modes.
+  if (options?.schemaMode === "report") checkSchemaDrift(schema, name, data, options);
+  const itemOptions: DecodeOptions = { schemaMode: options?.schemaMode === "strict" ? "strict" : "loose" };
+
+  const list: LenientList<v.InferOutput<S>> = { items: [], failures: [] };
+  data.forEach((raw: unknown, index) => {
+    try {
+      checkSchemaDrift(schema.item, name, raw, itemOptions);
+      list.items.push(v.parse(schema.item, raw));
+    } catch (e) {
+      const failure: ListItemFailure = { index, raw, message: e instanceof Error ? e.message : String(e) };
+      if (typeof e === "object" && e !== null && "issues" in e) failure.issues = e.issues;
+      list.failures.push(failure);
+    }
+  });
+  return list;
+}
+
+/** The decoder for a list method called with `options`: lenient when `options.lenient` is set */
+export function listDecoder<T, O extends LenientListOptions>(
+  options: O | undefined,
+  decode: (data: unknown, decodeOptions?: DecodeOptions) => T[],
+  decodeLenient: (data: unknown, decodeOptions?: DecodeOptions) => LenientList<T>
+): (data: unknown, decodeOptions?: DecodeOptions) => ListResult<T, O> {
+  return (options?.lenient ? decodeLenient : decode) as (
+    data: unknown,
+    decodeOptions?: DecodeOptions
+  ) => ListResult<T, O>;
+}
@@ -1,6 +1,13 @@
 import * as v from "valibot";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { type LenientList, parseLenientList } from "./lenientList";
 import { ActivityTypeSchema } from "./common";
-import { transformKeys, type CamelCaseKeys } from "../utils/transform";
+import { encodeWorkoutDoc, WorkoutDocSchema } from "./workout";
+import {
+  transformKeys,
+  transformKeysToSnake,
+  type CamelCaseKeys,
+} from "../utils/transform";
 
 /**
  * Folder/Plan type enum
@@ -29,6 +36,7 @@ const WorkoutSchemaRaw = v.looseObject({
   file_contents: v.nullish(v.string()),
   file_contents_base64: v.nullish(v.string()),
   tags: v.nullish(v.array(v.string())),
+  workout_doc: v.nullish(WorkoutDocSchema),
 });
 
 export const WorkoutSchema = v.pipe(WorkoutSchemaRaw, v.transform(transformKeys));
@@ -81,34 +89,54 @@ export type WorkoutTags = v.InferOutput<typeof WorkoutTagsSchema>;
 /**
  * Decode a single workout
  */
-export function decodeWorkout(data: unknown): Workout {
-  return v.parse(WorkoutSchema, data);
+export function decodeWorkout(data: unknown, options?: DecodeOptions): Workout {
+  return parseSchema(WorkoutSchema, "Workout", data, options);
 }
 
 /**
  * Decode an array of workouts
  */
-export function decodeWorkouts(data: unknown): Workouts {
-  return v.parse(WorkoutsSchema, data);
+export function decodeWorkouts(data: unknown, options?: DecodeOptions): Workouts {
+  return parseSchema(WorkoutsSchema, "Workouts", data, options);
+}
+
+export function decodeWorkoutsLenient(data: unknown, options?: DecodeOptions): LenientList<Workout> {
+  return parseLenientList(WorkoutsSchema, "Workouts", data, options);
 }
 
 /**
  * Decode a single folder
  */
-export function decodeFolder(data: unknown): Folder {
-  return v.parse(FolderSchema, data);
+export function decodeFolder(data: unknown, options?: DecodeOptions): Folder {
+  return parseSchema(FolderSchema, "Folder", data, options);
 }
 
 /**
  * Decode an array of folders
  */
-export function decodeFolders(data: unknown): Folders {
-  return v.parse(FoldersSchema, data);
+export function decodeFolders(data: unknown, options?: DecodeOptions): Folders {
+  return parseSchema(FoldersSchema, "Folders", data, options);
+}
+
+export function decodeFoldersLenient(data: unknown, options?: DecodeOptions): LenientList<Folder> {
+  return parseLenientList(FoldersSchema, "Folders", data, options);
 }
 
 /**
  * Decode workout tags
  */
-export function decodeWorkoutTags(data: unknown): WorkoutTags {
-  return v.parse(WorkoutTagsSchema, data);
+export function decodeWorkoutTags(data: unknown, options?: DecodeOptions): WorkoutTags {
+  return parseSchema(WorkoutTagsSchema, "WorkoutTags", data, options);
+}
+
+/**
+ * Encode a workout for create/update requests (snake_case keys,
+ * structured workout encoded with `encodeWorkoutDoc`)
+ */
+export function encodeWorkout(workout: Partial<Workout>): Record<string, unknown> {
+  const { workoutDoc, ...rest } = workout;
+  return {
+    ...transformKeysToSnake(rest),
+    ...(workoutDoc ? { workout_doc: encodeWorkoutDoc(workoutDoc) } : {}),
+  };
 }
@@ -0,0 +1,29 @@
+import * as v from "valibot";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { transformKeys, type CamelCaseKeys } from "../utils/transform";
+
+/**
+ * OAuth token endpoint response (raw)
+ */
+const OAuthTokenResponseSchemaRaw = v.looseObject({
+  access_token: v.string(),
+  token_type: v.nullish(v.string()),
+  refresh_token: v.nullish(v.string()),
+  /** Lifetime of the access token in seconds */
+  expires_in: v.nullish(v.number()),
+  /** Granted scopes (comma or space separated) */
+  scope: v.nullish(v.string()),
+  athlete: v.nullish(
+    v.looseObject({
+      id: v.union([v.string(), v.number()]),
+      name: v.nullish(v.string()),
+    })
+  ),
+});
+
+export const OAuthTokenResponseSchema = v.pipe(OAuthTokenResponseSchemaRaw, v.transform(transformKeys));
+export type OAuthTokenResponse = CamelCaseKeys<v.InferOutput<typeof OAuthTokenResponseSchemaRaw>>;
+
+export function decodeOAuthTokenResponse(data: unknown, options?: DecodeOptions): OAuthTokenResponse {
+  return parseSchema(OAuthTokenResponseSchema, "OAuthTokenResponse", data, options);
+}
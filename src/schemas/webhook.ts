@@ -0,0 +1,114 @@
+import * as v from "valibot";
+import { ActivitySchema, type Activity } from "./activity";
+import { EventsSchema, type Events } from "./event";
+import { WellnessListSchema, type WellnessList } from "./wellness";
+
+/**
+ * Webhook event types this library decodes into typed events.
+ * Other types are delivered as `UNKNOWN` with the raw payload.
+ */
+export const WebhookEventTypeSchema = v.picklist([
+  "ACTIVITY_UPLOADED",
+  "ACTIVITY_ANALYZED",
+  "ACTIVITY_UPDATED",
+  "ACTIVITY_DELETED",
+  "CALENDAR_UPDATED",
+  "WELLNESS_UPDATED",
+]);
+export type KnownWebhookEventType = v.InferOutput<typeof WebhookEventTypeSchema>;
+
+type WebhookEventBase = {
+  athleteId: string;
+  /** ISO-8601 time the event was raised, if sent */
+  timestamp?: string | null | undefined;
+};
+
+export type ActivityWebhookEvent<T extends KnownWebhookEventType> = WebhookEventBase & {
+  type: T;
+  activity: Activity;
+};
+
+export type CalendarUpdatedEvent = WebhookEventBase & {
+  type: "CALENDAR_UPDATED";
+  /** Events that were created or updated */
+  events: Events;
+  /** IDs of events that were deleted */
+  deletedEvents: number[];
+};
+
+export type WellnessUpdatedEvent = WebhookEventBase & {
+  type: "WELLNESS_UPDATED";
+  records: WellnessList;
+};
+
+export type UnknownWebhookEvent = WebhookEventBase & {
+  type: "UNKNOWN";
+  /** The `type` sent by Intervals.icu */
+  eventType: string;
+  /** Raw (snake_case) event payload */
+  payload: Record<string, unknown>;
+};
+
+/**
+ * Discriminated union of webhook events, keyed by `type`.
+ */
+export type WebhookEvent =
+  | ActivityWebhookEvent<"ACTIVITY_UPLOADED">
+  | ActivityWebhookEvent<"ACTIVITY_ANALYZED">
+  | ActivityWebhookEvent<"ACTIVITY_UPDATED">
+  | ActivityWebhookEvent<"ACTIVITY_DELETED">
+  | CalendarUpdatedEvent
+  | WellnessUpdatedEvent
+  | UnknownWebhookEvent;
+
+export type WebhookEventType = WebhookEvent["type"];
+
+// Webhook event schema (raw)
+const WebhookEventSchemaRaw = v.looseObject({
+  athlete_id: v.union([v.string(), v.number()]),
+  type: v.string(),
+  timestamp: v.nullish(v.string()),
+});
+
+const ActivityEventSchema = v.looseObject({ activity: ActivitySchema });
+const CalendarEventSchema = v.looseObject({
+  events: v.nullish(EventsSchema),
+  deleted_events: v.nullish(v.array(v.number())),
+});
+const WellnessEventSchema = v.looseObject({ records: v.nullish(WellnessListSchema) });
+
+// Webhook payload schema (raw)
+export const WebhookPayloadSchema = v.looseObject({
+  secret: v.nullish(v.string()),
+  events: v.array(v.looseObject({})),
+});
+
+/**
+ * Decode one event of a webhook payload into the typed union.
+ */
+export function decodeWebhookEvent(data: unknown): WebhookEvent {
+  const raw = v.parse(WebhookEventSchemaRaw, data);
+  const base: WebhookEventBase = { athleteId: String(raw.athlete_id) };
+  if (raw.timestamp != null) base.timestamp = raw.timestamp;
+
+  switch (raw.type) {
+    case "ACTIVITY_UPLOADED":
+    case "ACTIVITY_ANALYZED":
+    case "ACTIVITY_UPDATED":
+    case "ACTIVITY_DELETED":
+      return { ...base, type: raw.type, activity: v.parse(ActivityEventSchema, data).activity };
+    case "CALENDAR_UPDATED": {
+      const calendar = v.parse(CalendarEventSchema, data);
+      return {
+        ...base,
+        type: raw.type,
+        events: calendar.events ?? [],
+        deletedEvents: calendar.deleted_events ?? [],
+      };
+    }
+    case "WELLNESS_UPDATED":
+      return { ...base, type: raw.type, records: v.parse(WellnessEventSchema, data).records ?? [] };
+    default:
+      return { ...base, type: "UNKNOWN", eventType: raw.type, payload: raw };
+  }
+}
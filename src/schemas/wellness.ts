@@ -1,4 +1,7 @@
 import * as v from "valibot";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { type LenientList, parseLenientList } from "./lenientList";
+import { selectFields, type FieldSelection, type ModelKey } from "./fields";
 import { transformKeys, type CamelCaseKeys } from "../utils/transform";
 
 /**
@@ -93,6 +96,9 @@ const WellnessSchemaRaw = v.looseObject({
 export const WellnessSchema = v.pipe(WellnessSchemaRaw, v.transform(transformKeys));
 export type Wellness = CamelCaseKeys<v.InferOutput<typeof WellnessSchemaRaw>>;
 
+/** A `Wellness` key that can be selected with `fields` */
+export type WellnessField = ModelKey<Wellness>;
+
 /**
  * Array of wellness records
  */
@@ -102,13 +108,22 @@ export type WellnessList = Wellness[];
 /**
  * Decode a single wellness record
  */
-export function decodeWellness(data: unknown): Wellness {
-  return v.parse(WellnessSchema, data);
+export function decodeWellness(data: unknown, options?: DecodeOptions): Wellness {
+  return parseSchema(WellnessSchema, "Wellness", data, options);
 }
 
 /**
  * Decode an array of wellness records
  */
-export function decodeWellnessList(data: unknown): WellnessList {
-  return v.parse(WellnessListSchema, data);
+export function decodeWellnessList(data: unknown, options?: DecodeOptions): WellnessList {
+  return parseSchema(WellnessListSchema, "WellnessList", data, options);
+}
+
+export function decodeWellnessListLenient(data: unknown, options?: DecodeOptions): LenientList<Wellness> {
+  return parseLenientList(WellnessListSchema, "WellnessList", data, options);
+}
+
+/** API field names and decoders for wellness records listed with only `fields` */
+export function selectWellnessFields(fields: readonly WellnessField[]): FieldSelection<Wellness> {
+  return selectFields(WellnessSchemaRaw, "WellnessList", fields);
 }
@@ -0,0 +1,180 @@
+import * as v from "valibot";
+import { type DecodeOptions, parseSchema } from "./drift";
+import { transformKeys, transformKeysToSnake } from "../utils/transform";
+
+/**
+ * Units a workout target can be expressed in.
+ *
+ * - Power: `%ftp`, `w` (absolute watts), `power_zone`
+ * - Heart rate: `%lthr`, `%hr` (% of max HR), `bpm`, `hr_zone`
+ * - Pace: `%pace` (% of threshold pace), `pace_zone`, `secs/km`, `secs/mile`, `secs/100m`
+ * - Cadence: `rpm`
+ *
+ * Any other string returned by the API is accepted as-is.
+ */
+export type WorkoutTargetUnits =
+  | "%ftp"
+  | "w"
+  | "power_zone"
+  | "%lthr"
+  | "%hr"
+  | "bpm"
+  | "hr_zone"
+  | "%pace"
+  | "pace_zone"
+  | "secs/km"
+  | "secs/mile"
+  | "secs/100m"
+  | "rpm"
+  | (string & {});
+
+/**
+ * Which metric the athlete's device should follow for the workout.
+ */
+export const WorkoutTargetTypeSchema = v.picklist(["AUTO", "POWER", "HR", "PACE"]);
+export type WorkoutTargetType = v.InferOutput<typeof WorkoutTargetTypeSchema>;
+
+/**
+ * Target for a step: either a single `value` or a `start`/`end` range.
+ * For ramps `start` and `end` are the values at the beginning and end of the step.
+ */
+export type WorkoutTarget = {
+  value?: number | null | undefined;
+  start?: number | null | undefined;
+  end?: number | null | undefined;
+  units?: WorkoutTargetUnits | null | undefined;
+  [key: string]: unknown;
+};
+
+/**
+ * A single workout step. A step with `reps` and nested `steps` is a repeat block.
+ * Duration is in seconds, distance in meters.
+ */
+export type WorkoutStep = {
+  text?: string | null | undefined;
+  duration?: number | null | undefined;
+  distance?: number | null | undefined;
+  untilLapPress?: boolean | null | undefined;
+  warmup?: boolean | null | undefined;
+  cooldown?: boolean | null | undefined;
+  ramp?: boolean | null | undefined;
+  freeride?: boolean | null | undefined;
+  maxeffort?: boolean | null | undefined;
+  power?: WorkoutTarget | null | undefined;
+  hr?: WorkoutTarget | null | undefined;
+  pace?: WorkoutTarget | null | undefined;
+  cadence?: WorkoutTarget | null | undefined;
+  reps?: number | null | undefined;
+  steps?: WorkoutStep[] | null | undefined;
+  [key: string]: unknown;
+};
+
+/**
+ * Repeat block: a step with a repetition count and nested steps.
+ */
+export type WorkoutRepeat = WorkoutStep & { reps: number; steps: WorkoutStep[] };
+
+/**
+ * Structured workout document (`workout_doc` on events and library workouts).
+ * Threshold values are the ones the workout was resolved against.
+ */
+export type WorkoutDoc = {
+  description?: string | null | undefined;
+  duration?: number | null | undefined;
+  distance?: number | null | undefined;
+  ftp?: number | null | undefined;
+  lthr?: number | null | undefined;
+  maxHr?: number | null | undefined;
+  /** Threshold pace in meters per second */
+  thresholdPace?: number | null | undefined;
+  /** Any other string returned by the API is accepted as-is */
+  target?: WorkoutTargetType | (string & {}) | null | undefined;
+  steps?: WorkoutStep[] | null | undefined;
+  [key: string]: unknown;
+};
+
+// WorkoutTarget schema (raw)
+const WorkoutTargetSchemaRaw = v.looseObject({
+  value: v.nullish(v.number()),
+  start: v.nullish(v.number()),
+  end: v.nullish(v.number()),
+  units: v.nullish(v.string()),
+});
+
+export const WorkoutTargetSchema = v.pipe(
+  WorkoutTargetSchemaRaw,
+  v.transform((target): WorkoutTarget => transformKeys(target))
+);
+
+// WorkoutStep schema (raw, recursive for repeat blocks)
+const WorkoutStepSchemaRaw: v.GenericSchema<unknown, WorkoutStep> = v.pipe(
+  v.looseObject({
+    text: v.nullish(v.string()),
+    duration: v.nullish(v.number()),
+    distance: v.nullish(v.number()),
+    until_lap_press: v.nullish(v.boolean()),
+    warmup: v.nullish(v.boolean()),
+    cooldown: v.nullish(v.boolean()),
+    ramp: v.nullish(v.boolean()),
+    freeride: v.nullish(v.boolean()),
+    maxeffort: v.nullish(v.boolean()),
+    power: v.nullish(WorkoutTargetSchema),
+    hr: v.nullish(WorkoutTargetSchema),
+    pace: v.nullish(WorkoutTargetSchema),
+    cadence: v.nullish(WorkoutTargetSchema),
+    reps: v.nullish(v.number()),
+    steps: v.nullish(v.array(v.lazy(() => WorkoutStepSchemaRaw))),
+  }),
+  v.transform((step): WorkoutStep => transformKeys(step))
+);
+
+export const WorkoutStepSchema = WorkoutStepSchemaRaw;
+
+// WorkoutDoc schema (raw)
+const WorkoutDocSchemaRaw = v.looseObject({
+  description: v.nullish(v.string()),
+  duration: v.nullish(v.number()),
+  distance: v.nullish(v.number()),
+  ftp: v.nullish(v.number()),
+  lthr: v.nullish(v.number()),
+  max_hr: v.nullish(v.number()),
+  threshold_pace: v.nullish(v.number()),
+  target: v.nullish(v.union([WorkoutTargetTypeSchema, v.string()])),
+  steps: v.nullish(v.array(WorkoutStepSchema)),
+});
+
+export const WorkoutDocSchema = v.pipe(
+  WorkoutDocSchemaRaw,
+  v.transform((doc): WorkoutDoc => transformKeys(doc))
+);
+
+/**
+ * Type guard for repeat blocks.
+ */
+export function isWorkoutRepeat(step: WorkoutStep): step is WorkoutRepeat {
+  return typeof step.reps === "number" && Array.isArray(step.steps);
+}
+
+// Decoder functions (internal use)
+export function decodeWorkoutDoc(data: unknown, options?: DecodeOptions): WorkoutDoc {
+  return parseSchema(WorkoutDocSchema, "WorkoutDoc", data, options);
+}
+
+/**
+ * Encode a workout document back to the JSON shape the API expects
+ * (snake_case keys, null/undefined fields dropped).
+ */
+export function encodeWorkoutDoc(doc: WorkoutDoc): Record<string, unknown> {
+  return transformKeysToSnake(dropNullish(doc));
+}
+
+function dropNullish<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(dropNullish) as T;
+  if (value === null || typeof value !== "object") return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== null && item !== undefined) result[key] = dropNullish(item);
+  }
+  return result as T;
+}
@@ -0,0 +1,132 @@
+import type { AttemptInfo, AttemptOutcome, Middleware } from "../http/middleware";
+
+/*
+ * The parts of the @opentelemetry/api surface used here, typed structurally so
+ * neither the library nor its published types depend on the package. Tracers
+ * and meters from @opentelemetry/api satisfy them.
+ */
+
+type Attributes = Record<string, string | number | boolean>;
+
+export type TelemetrySpan = {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+};
+
+export type TelemetryTracer = {
+  startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): TelemetrySpan;
+};
+
+export type TelemetryMeter = {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: Attributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: Attributes): void };
+};
+
+export type OpenTelemetryOptions = {
+  /** Tracer for the attempt spans; without one no spans are created */
+  tracer?: TelemetryTracer;
+  /** Meter for the latency histogram and 429 counter; without one nothing is measured */
+  meter?: TelemetryMeter;
+};
+
+// Values of SpanKind.CLIENT and SpanStatusCode.ERROR in @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+type Instruments = {
+  duration: ReturnType<TelemetryMeter["createHistogram"]> | undefined;
+  rateLimited: ReturnType<TelemetryMeter["createCounter"]> | undefined;
+};
+
+function createInstruments(meter: TelemetryMeter | undefined): Instruments {
+  return {
+    duration: meter?.createHistogram("http.client.request.duration", {
+      description: "Duration of each HTTP attempt to the Intervals.icu API",
+      unit: "s",
+    }),
+    rateLimited: meter?.createCounter("intervals.client.rate_limited", {
+      description: "Responses with status 429 from the Intervals.icu API",
+      unit: "{response}",
+    }),
+  };
+}
+
+function routeAttributes(info: AttemptInfo): Attributes {
+  return {
+    "http.request.method": info.method,
+    "http.route": info.route,
+    ...(info.operation ? { "intervals.operation": info.operation } : {}),
+  };
+}
+
+function outcomeAttributes(outcome: AttemptOutcome): Attributes {
+  return {
+    ...(outcome.status !== undefined ? { "http.response.status_code": outcome.status } : {}),
+    ...(outcome.errorKind ? { "error.type": outcome.errorKind } : {}),
+  };
+}
+
+/**
+ * Middleware that records every HTTP attempt with OpenTelemetry: a client span
+ * per attempt, an `http.client.request.duration` histogram and an
+ * `intervals.client.rate_limited` counter for 429 responses.
+ *
+ * Spans and metrics carry the route template (`http.route`), the resource
+ * method (`intervals.operation`), the response status and the error kind
+ * (`error.type`); spans also carry the resend count (`http.request.resend_count`).
+ * The tracer and meter are passed in, e.g. from `trace.getTracer()` and
+ * `metrics.getMeter()` of `@opentelemetry/api`, so the library never loads it.
+ *
+ * @example
+ * import { metrics, trace } from "@opentelemetry/api";
+ *
+ * const client = new IntervalsClient({
+ *   auth: { type: "apiKey", apiKey },
+ *   middleware: [
+ *     openTelemetryMiddleware({
+ *       tracer: trace.getTracer("intervals-client"),
+ *       meter: metrics.getMeter("intervals-client"),
+ *     }),
+ *   ],
+ * });
+ */
+export function openTelemetryMiddleware(options: OpenTelemetryOptions): Middleware {
+  const { tracer } = options;
+  const { duration, rateLimited } = createInstruments(options.meter);
+
+  return (request, next) => {
+    if (!tracer && !duration) return next(request);
+
+    const previous = request.onAttempt;
+    return next({
+      ...request,
+      onAttempt: (info) => {
+        const endPrevious = previous?.(info);
+        const route = routeAttributes(info);
+        const span = tracer?.startSpan(`${info.method} ${info.route}`, {
+          kind: SPAN_KIND_CLIENT,
+          attributes: { ...route, "http.request.resend_count": info.attempt - 1 },
+        });
+
+        return (outcome) => {
+          endPrevious?.(outcome);
+          const outcomeAttrs = outcomeAttributes(outcome);
+          if (span) {
+            for (const [key, value] of Object.entries(outcomeAttrs)) span.setAttribute(key, value);
+            if (outcome.errorKind) span.setStatus({ code: SPAN_STATUS_ERROR, message: outcome.errorKind });
+            span.end();
+          }
+          duration?.record(outcome.durationMs / 1000, { ...route, ...outcomeAttrs });
+          if (outcome.status === 429) rateLimited?.add(1, route);
+        };
+      },
+    });
+  };
+}
@@ -338,6 +338,51 @@ describe('ActivitiesResource', () => {
     });
   });
 
+  describe('getTypedStreams()', () => {
+    test('happy path: returns streams keyed by type with dense data', async () => {
+      server.use(
+        http.get(`${baseUrl}/activity/123/streams.json`, () => {
+          return HttpResponse.json([
+            { type: 'time', data: [0, 1, 2] },
+            { type: 'watts', name: 'Power', data: { '0': 210, '2': 220 }, allNull: false },
+            { type: 'latlng', data: [40.1, 40.2, null], data2: [-74.1, -74.2, null] },
+            { type: 'velocity_smooth', data: [5.1, 5.2, 5.3] },
+            { type: 'my_custom', data: [1, 2, 3], custom: true },
+          ]);
+        }),
+      );
+
+      const client = new IntervalsClient({ auth: { type: 'apiKey', apiKey: 'test' } });
+      const result = await client.activities.getTypedStreams(123);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.time?.data).toEqual([0, 1, 2]);
+        expect(result.value.watts?.data).toEqual([210, null, 220]);
+        expect(result.value.watts?.allNull).toBe(false);
+        expect(result.value.latlng?.data).toEqual([[40.1, -74.1], [40.2, -74.2], null]);
+        expect(result.value.velocitySmooth?.data).toHaveLength(3);
+        expect(result.value.others.myCustom?.custom).toBe(true);
+      }
+    });
+
+    test('non-numeric data: decodes the samples as gaps', async () => {
+      server.use(
+        http.get(`${baseUrl}/activity/123/streams.json`, () => {
+          return HttpResponse.json([{ type: 'watts', data: ['a', 'b'] }]);
+        }),
+      );
+
+      const client = new IntervalsClient({ auth: { type: 'apiKey', apiKey: 'test' } });
+      const result = await client.activities.getTypedStreams(123);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.watts?.data).toEqual([null, null]);
+      }
+    });
+  });
+
   describe('getStreamsCsv()', () => {
     test('happy path: returns CSV text', async () => {
       server.use(
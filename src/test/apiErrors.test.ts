@@ -0,0 +1,127 @@
+import { describe, expect, test } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { type ApiError, IntervalsClient, isRetryable } from "../index";
+import { parseFieldErrors } from "../errors";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const fastRetry = { limit: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry, ...overrides };
+}
+
+describe("error kinds", () => {
+  test.each([
+    [400, "BadRequest"],
+    [409, "Conflict"],
+    [422, "ValidationFailed"],
+  ])("%i is %s with the field errors parsed", async (status, kind) => {
+    const body = { errors: [{ field: "start_date_local", message: "must not be null" }] };
+    server.use(http.put(`${baseUrl}/athlete/:id/events/:eventId`, () => HttpResponse.json(body, { status })));
+    const client = new IntervalsClient(config());
+
+    const result = await client.events.update(0, 1, { name: "Ride" });
+    expect(result).toMatchObject({
+      ok: false,
+      error: { kind, status, fieldErrors: [{ field: "start_date_local", message: "must not be null" }], body },
+    });
+  });
+
+  test("parseFieldErrors understands lists, maps and plain messages", () => {
+    const list = { errors: [{ field: "name", defaultMessage: "too long" }, { message: "bad" }] };
+    expect(parseFieldErrors(list)).toEqual([
+      { field: "name", message: "too long" },
+      { message: "bad" },
+    ]);
+    expect(parseFieldErrors({ errors: { name: ["required", "too short"], type: "unknown" } })).toEqual([
+      { field: "name", message: "required" },
+      { field: "name", message: "too short" },
+      { field: "type", message: "unknown" },
+    ]);
+    expect(parseFieldErrors({ status: 400, error: "Bad Request", message: "Invalid date 2024-13-01" })).toEqual([
+      { message: "Invalid date 2024-13-01" },
+    ]);
+    expect(parseFieldErrors("Name is required")).toEqual([{ message: "Name is required" }]);
+    expect(parseFieldErrors(undefined)).toEqual([]);
+  });
+});
+
+describe("request info", () => {
+  test("HTTP errors carry method, route, attempts, duration and response headers", async () => {
+    server.use(
+      http.get(`${baseUrl}/activity/:id`, () =>
+        HttpResponse.json({ error: "unavailable" }, { status: 503, headers: { "x-request-id": "req-42" } })
+      )
+    );
+    const client = new IntervalsClient(config());
+
+    const result = await client.activities.get("i9");
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.request).toMatchObject({
+      method: "GET",
+      path: "activity/i9",
+      route: "activity/{id}",
+      operation: "activities.get",
+      attempt: 3,
+      requestId: "req-42",
+      headers: { "content-type": "application/json", "x-request-id": "req-42" },
+    });
+    expect(result.error.request?.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("network errors carry the attempt count without headers", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id`, () => HttpResponse.error()));
+    const client = new IntervalsClient(config({ retry: { ...fastRetry, limit: 1 } }));
+
+    const result = await client.athletes.get(0);
+    expect(result).toMatchObject({
+      ok: false,
+      error: { kind: "Network", request: { route: "athlete/{id}", operation: "athletes.get", attempt: 2 } },
+    });
+    expect(!result.ok && result.error.request).not.toHaveProperty("headers");
+  });
+
+  test("schema errors carry the request that returned the bad payload", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/wellness/:date`, () => HttpResponse.json({ id: 42 })));
+    const client = new IntervalsClient(config());
+
+    const result = await client.wellness.get(0, "2024-01-01");
+    expect(result).toMatchObject({
+      ok: false,
+      error: {
+        kind: "Schema",
+        request: {
+          method: "GET",
+          path: "athlete/0/wellness/2024-01-01",
+          route: "athlete/{id}/wellness/{date}",
+          operation: "wellness.get",
+          attempt: 1,
+        },
+      },
+    });
+  });
+});
+
+describe("isRetryable", () => {
+  const httpError = (status: number): ApiError => ({ kind: "Http", status, message: `HTTP ${status}` });
+
+  test("rate limits, timeouts, network errors and transient server errors", () => {
+    expect(isRetryable({ kind: "RateLimit", status: 429, message: "" })).toBe(true);
+    expect(isRetryable({ kind: "Timeout", message: "" })).toBe(true);
+    expect(isRetryable({ kind: "Network", message: "" })).toBe(true);
+    for (const status of [408, 500, 502, 503, 504]) expect(isRetryable(httpError(status))).toBe(true);
+  });
+
+  test("not client errors, schema errors or cancellations", () => {
+    expect(isRetryable(httpError(501))).toBe(false);
+    expect(isRetryable({ kind: "NotFound", status: 404, message: "" })).toBe(false);
+    expect(isRetryable({ kind: "ValidationFailed", status: 422, message: "", fieldErrors: [] })).toBe(false);
+    expect(isRetryable({ kind: "Schema", message: "" })).toBe(false);
+    expect(isRetryable({ kind: "Aborted", message: "" })).toBe(false);
+  });
+});
@@ -1,5 +1,11 @@
-import { describe, expect, test } from 'vitest';
-import { buildAuthorizationHeader } from '../config';
+import { describe, expect, test, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+
+import { buildAuthorizationHeader, type ProvidedCredentials } from '../config';
+import { IntervalsClient } from '../index';
+import { server } from './mswServer';
+
+const baseUrl = 'https://intervals.icu/api/v1';
 
 describe('buildAuthorizationHeader', () => {
   describe('API Key auth', () => {
@@ -85,3 +91,95 @@ describe('buildAuthorizationHeader', () => {
     });
   });
 });
+
+describe('Credential provider auth', () => {
+  function athleteEndpoint(validHeader: string) {
+    const seen: (string | null)[] = [];
+    server.use(
+      http.get(`${baseUrl}/athlete/0`, ({ request }) => {
+        const header = request.headers.get('authorization');
+        seen.push(header);
+        if (header !== validHeader) return HttpResponse.json({ error: 'invalid' }, { status: 401 });
+        return HttpResponse.json({ id: 'i1', name: 'Athlete' });
+      }),
+    );
+    return seen;
+  }
+
+  test('calls the provider once and caches the credentials', async () => {
+    const seen = athleteEndpoint('Bearer token-1');
+    const getCredentials = vi.fn(async (): Promise<ProvidedCredentials> => ({ type: 'accessToken', accessToken: 'token-1' }));
+    const client = new IntervalsClient({ auth: { type: 'provider', getCredentials } });
+
+    const results = await Promise.all([client.athletes.get(0), client.athletes.get(0)]);
+    await client.athletes.get(0);
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(seen).toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-1']);
+    expect(getCredentials).toHaveBeenCalledOnce();
+    expect(getCredentials).toHaveBeenCalledWith({ forceRefresh: false });
+  });
+
+  test('cacheTtlMs: 0 calls the provider for every request', async () => {
+    athleteEndpoint('Bearer t');
+    const getCredentials = vi.fn(async (): Promise<ProvidedCredentials> => ({ type: 'accessToken', accessToken: 't' }));
+    const client = new IntervalsClient({ auth: { type: 'provider', getCredentials, cacheTtlMs: 0 } });
+
+    await client.athletes.get(0);
+    await client.athletes.get(0);
+    expect(getCredentials).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not cache credentials past their expiresAt', async () => {
+    athleteEndpoint('Bearer t');
+    const getCredentials = vi.fn(
+      async (): Promise<ProvidedCredentials> => ({ type: 'accessToken', accessToken: 't', expiresAt: Date.now() - 1 }),
+    );
+    const client = new IntervalsClient({ auth: { type: 'provider', getCredentials } });
+
+    await client.athletes.get(0);
+    await client.athletes.get(0);
+    expect(getCredentials).toHaveBeenCalledTimes(2);
+  });
+
+  test('on 401 asks for fresh credentials and replays once', async () => {
+    const seen = athleteEndpoint('Bearer rotated');
+    let token = 'old';
+    const getCredentials = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }): Promise<ProvidedCredentials> => {
+      if (forceRefresh) token = 'rotated';
+      return { type: 'accessToken', accessToken: token };
+    });
+    const client = new IntervalsClient({ auth: { type: 'provider', getCredentials } });
+
+    expect((await client.athletes.get(0)).ok).toBe(true);
+    expect(seen).toEqual(['Bearer old', 'Bearer rotated']);
+    expect(getCredentials.mock.calls.map(([c]) => c.forceRefresh)).toEqual([false, true]);
+  });
+
+  test('does not replay when the provider returns the same credentials', async () => {
+    const seen = athleteEndpoint('Bearer other');
+    const client = new IntervalsClient({
+      auth: { type: 'provider', getCredentials: async () => ({ type: 'accessToken', accessToken: 'same' }) },
+    });
+
+    const result = await client.athletes.get(0);
+    expect(result).toMatchObject({ ok: false, error: { kind: 'Unauthorized' } });
+    expect(seen).toEqual(['Bearer same']);
+  });
+
+  test('provider failures are returned as errors', async () => {
+    const seen = athleteEndpoint('Bearer x');
+    const client = new IntervalsClient({
+      auth: {
+        type: 'provider',
+        getCredentials: async () => {
+          throw new Error('vault unavailable');
+        },
+      },
+    });
+
+    const result = await client.athletes.get(0);
+    expect(result).toMatchObject({ ok: false, error: { kind: 'Unknown', message: expect.stringMatching(/vault unavailable/) } });
+    expect(seen).toEqual([]);
+  });
+});
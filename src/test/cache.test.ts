@@ -0,0 +1,133 @@
+import { describe, expect, test, vi } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient, MemoryCacheStorage, type CacheEntry } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const athlete = { id: "i1", name: "Athlete" };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: { limit: 0 }, cache: {}, ...overrides };
+}
+
+/** Athlete endpoint answering with `headers`; records the conditional headers it received */
+function athleteEndpoint(headers: Record<string, string>, notModified = false) {
+  const requests: { ifNoneMatch: string | null; ifModifiedSince: string | null }[] = [];
+  server.use(
+    http.get(`${baseUrl}/athlete/i1`, ({ request }) => {
+      const ifNoneMatch = request.headers.get("if-none-match");
+      requests.push({ ifNoneMatch, ifModifiedSince: request.headers.get("if-modified-since") });
+      if (notModified && ifNoneMatch) return new HttpResponse(null, { status: 304, headers });
+      return HttpResponse.json(athlete, { headers });
+    })
+  );
+  return requests;
+}
+
+describe("response cache", () => {
+  test("serves fresh entries without a request", async () => {
+    const requests = athleteEndpoint({ "cache-control": "max-age=60" });
+    const onResponse = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onResponse } }));
+
+    const first = await client.athletes.get("i1");
+    const second = await client.athletes.get("i1");
+
+    expect(second).toEqual(first);
+    expect(second).toMatchObject({ ok: true, value: { id: "i1", name: "Athlete" } });
+    expect(requests).toHaveLength(1);
+    expect(onResponse.mock.calls.map(([info]) => info.cache)).toEqual([undefined, "hit"]);
+  });
+
+  test("revalidates stale entries with ETag and Last-Modified", async () => {
+    const lastModified = "Wed, 01 Jan 2025 00:00:00 GMT";
+    const requests = athleteEndpoint({ etag: '"v1"', "last-modified": lastModified }, true);
+    const onResponse = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onResponse } }));
+
+    await client.athletes.get("i1");
+    const second = await client.athletes.get("i1");
+
+    expect(second).toMatchObject({ ok: true, value: { name: "Athlete" } });
+    expect(requests).toEqual([
+      { ifNoneMatch: null, ifModifiedSince: null },
+      { ifNoneMatch: '"v1"', ifModifiedSince: lastModified },
+    ]);
+    expect(onResponse.mock.calls[1]?.[0]).toMatchObject({ status: 200, cache: "revalidated" });
+  });
+
+  test("does not store no-store responses or responses without freshness or validators", async () => {
+    const requests = athleteEndpoint({ "cache-control": "no-store" });
+    const client = new IntervalsClient(config({ cache: { ttlOverrides: [{ path: "athlete/*", ttlMs: 60_000 }] } }));
+    await client.athletes.get("i1");
+    await client.athletes.get("i1");
+    expect(requests).toHaveLength(2);
+
+    const plain = athleteEndpoint({});
+    const plainClient = new IntervalsClient(config());
+    await plainClient.athletes.get("i1");
+    await plainClient.athletes.get("i1");
+    expect(plain).toHaveLength(2);
+  });
+
+  test("ttlOverrides take precedence over Cache-Control", async () => {
+    const requests = athleteEndpoint({ "cache-control": "no-cache" });
+    const client = new IntervalsClient(
+      config({ cache: { ttlOverrides: [{ path: /^athlete\/[^/]+$/, ttlMs: 60_000 }] } })
+    );
+
+    await client.athletes.get("i1");
+    await client.athletes.get("i1");
+    expect(requests).toHaveLength(1);
+  });
+
+  test("a mutation on the same path invalidates cached entries", async () => {
+    const requests = athleteEndpoint({ "cache-control": "max-age=60" });
+    server.use(http.put(`${baseUrl}/athlete/i1`, () => HttpResponse.json(athlete)));
+    const client = new IntervalsClient(config());
+
+    await client.athletes.get("i1");
+    await client.athletes.update("i1", { name: "Renamed" });
+    await client.athletes.get("i1");
+    expect(requests).toHaveLength(2);
+  });
+
+  test("keeps entries per credential without storing the credential", async () => {
+    const requests = athleteEndpoint({ "cache-control": "max-age=60" });
+    const keys: string[] = [];
+    class RecordingStorage extends MemoryCacheStorage {
+      override async set(key: string, entry: CacheEntry) {
+        keys.push(key);
+        return super.set(key, entry);
+      }
+    }
+    const storage = new RecordingStorage();
+    const a = new IntervalsClient(config({ cache: { storage } }));
+    const b = new IntervalsClient(config({ auth: { type: "apiKey", apiKey: "other" }, cache: { storage } }));
+
+    await a.athletes.get("i1");
+    await b.athletes.get("i1");
+    await a.athletes.get("i1");
+    expect(requests).toHaveLength(2);
+    expect(storage.size).toBe(2);
+    expect(keys.every((key) => key.startsWith("athlete/i1?#"))).toBe(true);
+    expect(keys.some((key) => key.includes(btoa("API_KEY:test")))).toBe(false);
+  });
+
+  test("MemoryCacheStorage evicts the least recently used entry", async () => {
+    const storage = new MemoryCacheStorage(2);
+    const entry = { body: "{}", contentType: "application/json", expiresAt: Date.now() + 1000 };
+
+    await storage.set("a?", entry);
+    await storage.set("b?", entry);
+    await storage.get("a?");
+    await storage.set("c?", entry);
+
+    expect(await storage.get("a?")).toBeDefined();
+    expect(await storage.get("b?")).toBeUndefined();
+    expect(await storage.get("c?")).toBeDefined();
+  });
+});
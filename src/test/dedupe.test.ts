@@ -0,0 +1,176 @@
+import { describe, expect, test, vi } from "vitest";
+import { delay, http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const fastRetry = { limit: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry, dedupe: true, ...overrides };
+}
+
+/** Slow wellness endpoint; records the query of every request it receives */
+function wellnessEndpoint(respond?: (hit: number) => Response | undefined) {
+  const queries: string[] = [];
+  server.use(
+    http.get(`${baseUrl}/athlete/0/wellness`, async ({ request }) => {
+      queries.push(new URL(request.url).search);
+      await delay(20);
+      return respond?.(queries.length) ?? HttpResponse.json([{ id: "2024-01-01", ctl: 50 }]);
+    })
+  );
+  return queries;
+}
+
+const range = { oldest: "2024-01-01", newest: "2024-01-07" };
+
+describe("request deduplication", () => {
+  test("concurrent identical GETs share one request but get their own results", async () => {
+    const queries = wellnessEndpoint();
+    const onResponse = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onResponse } }));
+
+    const [a, b, c] = await Promise.all([
+      client.wellness.list(0, range),
+      client.wellness.list(0, range),
+      client.wellness.list(0, range),
+    ]);
+
+    expect(queries).toHaveLength(1);
+    expect(onResponse).toHaveBeenCalledOnce();
+    expect(a).toMatchObject({ ok: true, value: [{ id: "2024-01-01", ctl: 50 }] });
+    expect(b).toEqual(a);
+    expect(a.ok && b.ok && a.value !== b.value).toBe(true);
+    expect(c).toEqual(a);
+  });
+
+  test("different queries and finished requests are not shared", async () => {
+    const queries = wellnessEndpoint();
+    const client = new IntervalsClient(config());
+
+    await Promise.all([client.wellness.list(0, range), client.wellness.list(0, { ...range, newest: "2024-01-08" })]);
+    expect(queries).toHaveLength(2);
+
+    await client.wellness.list(0, range);
+    expect(queries).toHaveLength(3);
+  });
+
+  test("mutations and requests with per-call overrides are sent on their own", async () => {
+    const queries = wellnessEndpoint();
+    let puts = 0;
+    server.use(
+      http.put(`${baseUrl}/athlete/0/wellness/2024-01-01`, () => {
+        puts++;
+        return HttpResponse.json({ id: "2024-01-01" });
+      })
+    );
+    const client = new IntervalsClient(config());
+
+    await Promise.all([
+      client.wellness.list(0, range),
+      client.wellness.list(0, range, { headers: { "x-request-id": "1" } }),
+      client.wellness.list(0, range, { context: { traceId: "t" } }),
+    ]);
+    expect(queries).toHaveLength(3);
+
+    await Promise.all([
+      client.wellness.update(0, "2024-01-01", { ctl: 1 }),
+      client.wellness.update(0, "2024-01-01", { ctl: 1 }),
+    ]);
+    expect(puts).toBe(2);
+  });
+
+  test("retries happen once for all callers", async () => {
+    const queries = wellnessEndpoint((hit) => (hit === 1 ? new HttpResponse(null, { status: 503 }) : undefined));
+    const onRetry = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onRetry } }));
+
+    const results = await Promise.all([client.wellness.list(0, range), client.wellness.list(0, range)]);
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(queries).toHaveLength(2);
+    expect(onRetry).toHaveBeenCalledOnce();
+  });
+
+  test("errors are shared as separate objects", async () => {
+    wellnessEndpoint(() => HttpResponse.json({ error: "nope" }, { status: 404 }));
+    const client = new IntervalsClient(config());
+
+    const [a, b] = await Promise.all([client.wellness.list(0, range), client.wellness.list(0, range)]);
+    expect(a).toMatchObject({ ok: false, error: { kind: "NotFound", body: { error: "nope" } } });
+    expect(b).toEqual(a);
+    expect(!a.ok && !b.ok && a.error !== b.error).toBe(true);
+  });
+
+  test("aborting one caller leaves the others waiting; aborting all cancels the request", async () => {
+    const queries = wellnessEndpoint();
+    const client = new IntervalsClient(config());
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const aborted = client.wellness.list(0, range, { signal: first.signal });
+    const waiting = client.wellness.list(0, range);
+    await delay(5);
+    first.abort();
+    expect(await aborted).toMatchObject({ ok: false, error: { kind: "Aborted" } });
+    expect((await waiting).ok).toBe(true);
+    expect(queries).toHaveLength(1);
+
+    const onError = vi.fn();
+    const cancelled = new IntervalsClient(config({ hooks: { onError } }));
+    const third = new AbortController();
+    const both = [
+      cancelled.wellness.list(0, range, { signal: second.signal }),
+      cancelled.wellness.list(0, range, { signal: third.signal }),
+    ];
+    await delay(5);
+    second.abort();
+    third.abort();
+    expect(await Promise.all(both)).toMatchObject([
+      { ok: false, error: { kind: "Aborted" } },
+      { ok: false, error: { kind: "Aborted" } },
+    ]);
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  test("is off by default, and dedupe: false sends every request", async () => {
+    const queries = wellnessEndpoint();
+    const byDefault = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry });
+    const client = new IntervalsClient(config({ dedupe: false }));
+
+    await Promise.all([byDefault.wellness.list(0, range), byDefault.wellness.list(0, range)]);
+    await Promise.all([client.wellness.list(0, range), client.wellness.list(0, range)]);
+    expect(queries).toHaveLength(4);
+  });
+
+  test("requests sent with different credentials are not shared", async () => {
+    const authorizations: (string | null)[] = [];
+    server.use(
+      http.get(`${baseUrl}/athlete/0/wellness`, async ({ request }) => {
+        authorizations.push(request.headers.get("authorization"));
+        await delay(20);
+        return HttpResponse.json([]);
+      })
+    );
+    let token = "token-1";
+    const client = new IntervalsClient(
+      config({
+        auth: {
+          type: "provider",
+          cacheTtlMs: 0,
+          getCredentials: async () => ({ type: "accessToken", accessToken: token }),
+        },
+      })
+    );
+
+    const first = client.wellness.list(0, range);
+    await delay(5);
+    token = "token-2";
+    await Promise.all([first, client.wellness.list(0, range)]);
+    expect(authorizations).toEqual(["Bearer token-1", "Bearer token-2"]);
+  });
+});
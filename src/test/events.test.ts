@@ -216,6 +216,37 @@ describe('EventsResource', () => {
   });
 
   describe('createMultiple()', () => {
+    test('validateWorkouts: returns InvalidWorkout without calling the API', async () => {
+      let called = false;
+      server.use(
+        http.post(`${baseUrl}/athlete/0/events/bulk`, () => {
+          called = true;
+          return HttpResponse.json([]);
+        }),
+      );
+
+      const client = new IntervalsClient({ auth: { type: 'apiKey', apiKey: 'test' } });
+      const result = await client.events.createMultiple(
+        0,
+        [
+          { name: 'Good', description: '- 10m 60%' },
+          { name: 'Note', description: 'Just a note' },
+          { name: 'Bad', description: 'Main 3x\n- 5m 95-105% 2m' },
+        ],
+        { validateWorkouts: true }
+      );
+
+      expect(called).toBe(false);
+      expect(result.ok).toBe(false);
+      if (!result.ok && result.error.kind === 'InvalidWorkout') {
+        expect(result.error.errors).toEqual([
+          { index: 2, line: 2, column: 14, message: 'Step already has a duration' },
+        ]);
+      } else {
+        throw new Error('expected InvalidWorkout error');
+      }
+    });
+
     test('happy path: returns created events', async () => {
       server.use(
         http.post(`${baseUrl}/athlete/0/events/bulk`, async ({ request }) => {
@@ -0,0 +1,91 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import { type Activity, IntervalsClient, type LenientList, type Wellness } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+function client() {
+  return new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" }, retry: { limit: 0 } });
+}
+
+describe("fields", () => {
+  test("activities.list sends API names and narrows the result to the selected fields", async () => {
+    let fields: string | null = null;
+    server.use(
+      http.get(`${baseUrl}/athlete/:id/activities`, ({ request }) => {
+        fields = new URL(request.url).searchParams.get("fields");
+        return HttpResponse.json([{ name: "Ride", icu_training_load: 80, start_date_local: "2024-01-15T10:00:00" }]);
+      })
+    );
+
+    const result = await client().activities.list(0, { fields: ["name", "icuTrainingLoad", "startDateLocal"] });
+    expect(fields).toBe("name,icu_training_load,start_date_local");
+    expect(result).toEqual({
+      ok: true,
+      value: [{ name: "Ride", icuTrainingLoad: 80, startDateLocal: "2024-01-15T10:00:00" }],
+    });
+    if (result.ok) {
+      expectTypeOf(result.value).toEqualTypeOf<Pick<Activity, "name" | "icuTrainingLoad" | "startDateLocal">[]>();
+    }
+  });
+
+  test("the selected fields are still validated", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([{ name: 42 }])));
+
+    const result = await client().activities.list(0, { fields: ["name"] });
+    expect(result).toMatchObject({ ok: false, error: { kind: "Schema" } });
+  });
+
+  test("wellness.list keeps the API's own key names", async () => {
+    let fields: string | null = null;
+    server.use(
+      http.get(`${baseUrl}/athlete/:id/wellness`, ({ request }) => {
+        fields = new URL(request.url).searchParams.get("fields");
+        return HttpResponse.json([{ restingHR: 48, sleepSecs: 28000 }]);
+      })
+    );
+
+    const wellness = await client().unwrap().wellness.list(0, { fields: ["restingHR", "sleepSecs"] });
+    expect(fields).toBe("restingHR,sleepSecs");
+    expect(wellness).toEqual([{ restingHR: 48, sleepSecs: 28000 }]);
+    expectTypeOf(wellness).toEqualTypeOf<Pick<Wellness, "restingHR" | "sleepSecs">[]>();
+  });
+
+  test("combines with lenient decoding", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([{ name: "Ride" }, { name: false }]))
+    );
+
+    const result = await client().activities.list(0, { fields: ["name"], lenient: true });
+    expect(result).toMatchObject({ ok: true, value: { items: [{ name: "Ride" }], failures: [{ index: 1 }] } });
+    if (result.ok) expectTypeOf(result.value).toEqualTypeOf<LenientList<Pick<Activity, "name">>>();
+  });
+
+  test("iterate narrows its items to the selected fields and id", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/:id/wellness`, ({ request }) => {
+        const day = new URL(request.url).searchParams.get("oldest");
+        return HttpResponse.json([{ id: day, restingHR: 48 }]);
+      })
+    );
+    const options = { oldest: "2024-01-01", newest: "2024-01-02", windowDays: 1, fields: ["restingHR"] as const };
+
+    const records: Pick<Wellness, "id" | "restingHR">[] = [];
+    for await (const record of client().unwrap().wellness.iterate(0, options)) {
+      expectTypeOf(record).toEqualTypeOf<Pick<Wellness, "id" | "restingHR">>();
+      records.push(record);
+    }
+    expect(records).toEqual([
+      { id: "2024-01-01", restingHR: 48 },
+      { id: "2024-01-02", restingHR: 48 },
+    ]);
+
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([{ id: "i1", name: "Ride" }])));
+    for await (const result of client().activities.iterate(0, { ...options, fields: ["name"] })) {
+      expect(result).toEqual({ ok: true, value: { id: "i1", name: "Ride" } });
+      if (result.ok) expectTypeOf(result.value).toEqualTypeOf<Pick<Activity, "id" | "name">>();
+    }
+  });
+});
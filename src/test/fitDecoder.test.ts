@@ -0,0 +1,226 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, test } from 'vitest';
+
+import { decodeFit, decodeFitArchive, decodeFitFiles } from '../formats/fitDecoder';
+import { recordsToStreams } from '../formats/records';
+import { fitCrc } from '../formats/fitProfile';
+import { crc32, inflateRaw, unzip } from '../formats/zip';
+
+// Minimal FIT writer for fixtures: [fieldNum, size, baseType, bytes]
+type Field = [number, number, number, number[]];
+
+const u8 = (v: number) => [v & 0xff];
+const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+const u32 = (v: number) => [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff];
+const semicircles = (deg: number) => u32(Math.round((deg * 2 ** 31) / 180));
+const fitTime = (iso: string) => Date.parse(iso) / 1000 - 631065600;
+
+function definition(local: number, global: number, fields: Field[]): number[] {
+  return [
+    0x40 | local,
+    0,
+    0,
+    ...u16(global),
+    fields.length,
+    ...fields.flatMap(([num, size, type]) => [num, size, type]),
+  ];
+}
+
+function data(local: number, fields: Field[]): number[] {
+  return [local, ...fields.flatMap(([, , , bytes]) => bytes)];
+}
+
+function fitFile(records: number[]): Uint8Array {
+  const header = [14, 0x20, ...u16(2132), ...u32(records.length), 0x2e, 0x46, 0x49, 0x54];
+  const headerBytes = new Uint8Array(header);
+  const bytes = [...header, ...u16(fitCrc(headerBytes)), ...records];
+  const crc = fitCrc(new Uint8Array(bytes));
+  return new Uint8Array([...bytes, ...u16(crc)]);
+}
+
+const start = fitTime('2024-05-01T10:00:00Z');
+
+const recordFields = (ts: number, power: number, hr: number): Field[] => [
+  [253, 4, 0x86, u32(ts)],
+  [0, 4, 0x85, semicircles(52.5)],
+  [1, 4, 0x85, semicircles(13.4)],
+  [7, 2, 0x84, u16(power)],
+  [3, 1, 0x02, u8(hr)],
+  [78, 4, 0x86, u32((120 + 500) * 5)],
+  [5, 4, 0x86, u32(ts - start)],
+];
+
+const sample = fitFile([
+  ...definition(0, 0, [
+    [0, 1, 0x00, u8(4)],
+    [1, 2, 0x84, u16(1)],
+    [4, 4, 0x86, u32(start)],
+  ]),
+  ...data(0, [
+    [0, 1, 0x00, u8(4)],
+    [1, 2, 0x84, u16(1)],
+    [4, 4, 0x86, u32(start)],
+  ]),
+  ...definition(1, 20, recordFields(0, 0, 0)),
+  ...data(1, recordFields(start, 200, 140)),
+  ...data(1, recordFields(start + 1, 0xffff, 141)), // invalid power
+  // Compressed timestamp header: local type 2, time offset (start + 3) & 0x1f
+  ...definition(2, 20, [[7, 2, 0x84, u16(0)]]),
+  0x80 | (2 << 5) | ((start + 3) & 0x1f),
+  ...u16(250),
+  ...definition(3, 19, [
+    [254, 2, 0x84, u16(0)],
+    [7, 4, 0x86, u32(3000)],
+    [19, 2, 0x84, u16(216)],
+    [24, 1, 0x00, u8(0)],
+  ]),
+  ...data(3, [
+    [254, 2, 0x84, u16(0)],
+    [7, 4, 0x86, u32(3000)],
+    [19, 2, 0x84, u16(216)],
+    [24, 1, 0x00, u8(0)],
+  ]),
+  ...definition(4, 18, [
+    [5, 1, 0x00, u8(2)],
+    [9, 4, 0x86, u32(150)],
+    [35, 2, 0x84, u16(25)],
+  ]),
+  ...data(4, [
+    [5, 1, 0x00, u8(2)],
+    [9, 4, 0x86, u32(150)],
+    [35, 2, 0x84, u16(25)],
+  ]),
+  ...definition(5, 23, [
+    [2, 2, 0x84, u16(1)],
+    [27, 8, 0x07, [...'Edge'].map((c) => c.charCodeAt(0)).concat([0, 0, 0, 0])],
+  ]),
+  ...data(5, [
+    [2, 2, 0x84, u16(1)],
+    [27, 8, 0x07, [...'Edge'].map((c) => c.charCodeAt(0)).concat([0, 0, 0, 0])],
+  ]),
+  ...definition(6, 65280, [[0, 1, 0x02, u8(7)]]),
+  ...data(6, [[0, 1, 0x02, u8(7)]]),
+]);
+
+function zip(files: { name: string; data: Uint8Array; deflate: boolean }[]): Uint8Array {
+  const local: number[] = [];
+  const central: number[] = [];
+  for (const file of files) {
+    const compressed = file.deflate ? new Uint8Array(deflateRawSync(file.data)) : file.data;
+    const name = [...new TextEncoder().encode(file.name)];
+    const meta = [
+      ...u16(file.deflate ? 8 : 0),
+      ...u16(0),
+      ...u16(0),
+      ...u32(crc32(file.data)),
+      ...u32(compressed.length),
+      ...u32(file.data.length),
+      ...u16(name.length),
+      ...u16(0),
+    ];
+    central.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...meta, ...u16(0), ...u16(0), ...u16(0), ...u32(0), ...u32(local.length), ...name);
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...meta, ...name, ...compressed);
+  }
+  const eocd = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(files.length), ...u16(files.length), ...u32(central.length), ...u32(local.length), ...u16(0)];
+  return new Uint8Array([...local, ...central, ...eocd]);
+}
+
+describe('decodeFit()', () => {
+  test('decodes typed file id, record, lap, session and device info messages', () => {
+    const result = decodeFit(sample.buffer as ArrayBuffer);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const fit = result.value;
+
+    expect(fit.header).toEqual({ protocolVersion: 0x20, profileVersion: 2132, dataSize: sample.length - 16 });
+    expect(fit.fileId).toEqual({ type: 'activity', manufacturer: 1, timeCreated: new Date('2024-05-01T10:00:00Z') });
+
+    expect(fit.records).toHaveLength(3);
+    expect(fit.records[0]).toMatchObject({ timestamp: new Date('2024-05-01T10:00:00Z'), power: 200, heartRate: 140, altitude: 120, distance: 0 });
+    expect(fit.records[0]?.positionLat).toBeCloseTo(52.5, 6);
+    expect(fit.records[0]?.positionLong).toBeCloseTo(13.4, 6);
+    expect(fit.records[1]?.power).toBeUndefined();
+    expect(fit.records[2]).toEqual({ timestamp: new Date('2024-05-01T10:00:03Z'), power: 250 });
+
+    expect(fit.laps).toEqual([{ messageIndex: 0, totalElapsedTime: 3, avgPower: 216, lapTrigger: 'manual' }]);
+    expect(fit.sessions).toEqual([{ sport: 'cycling', totalDistance: 1.5, trainingStressScore: 2.5 }]);
+    expect(fit.deviceInfos).toEqual([{ manufacturer: 1, productName: 'Edge' }]);
+    expect(fit.other).toEqual([{ globalMessageNumber: 65280, fields: { 0: 7 } }]);
+  });
+
+  test('decodes chained files', () => {
+    const chained = new Uint8Array([...sample, ...sample]);
+    const result = decodeFitFiles(chained);
+    expect(result.ok && result.value.length).toBe(2);
+  });
+
+  test('returns errors for corrupt data', () => {
+    const corrupt = sample.slice();
+    corrupt[20] = corrupt[20]! ^ 0xff;
+    expect(decodeFit(corrupt)).toMatchObject({ ok: false, error: { message: 'File CRC mismatch' } });
+    expect(decodeFit(new Uint8Array([1, 2, 3]))).toMatchObject({ ok: false });
+    expect(decodeFit(sample.subarray(0, 40))).toMatchObject({ ok: false, error: { message: 'File is truncated' } });
+  });
+});
+
+describe('recordsToStreams()', () => {
+  test('maps records onto the typed stream model', () => {
+    const result = decodeFit(sample);
+    if (!result.ok) throw new Error(result.error.message);
+    const streams = recordsToStreams(result.value.records);
+
+    expect(streams.time?.data).toEqual([0, 1, 3]);
+    expect(streams.watts?.data).toEqual([200, null, 250]);
+    expect(streams.heartrate?.data).toEqual([140, 141, null]);
+    expect(streams.latlng?.data[2]).toBeNull();
+    expect(streams.cadence).toBeUndefined();
+  });
+});
+
+describe('zip', () => {
+  test('crc32 matches the reference check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  test('inflates fixed and dynamic Huffman blocks', () => {
+    const text = new TextEncoder().encode('intervals '.repeat(500) + Array.from({ length: 300 }, (_, i) => i).join(','));
+    expect(inflateRaw(new Uint8Array(deflateRawSync(text)))).toEqual(text);
+    expect(inflateRaw(new Uint8Array(deflateRawSync(new Uint8Array([1, 2, 3]))))).toEqual(new Uint8Array([1, 2, 3]));
+    expect(inflateRaw(new Uint8Array(deflateRawSync(text, { level: 0 })))).toEqual(text);
+  });
+
+  test('extracts stored and deflated entries', () => {
+    const archive = zip([
+      { name: 'a.fit', data: sample, deflate: true },
+      { name: 'readme.txt', data: new TextEncoder().encode('hi'), deflate: false },
+    ]);
+    const result = unzip(archive.buffer as ArrayBuffer);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.map((e) => e.name)).toEqual(['a.fit', 'readme.txt']);
+    expect(result.value[0]?.data).toEqual(sample);
+  });
+
+  test('decodeFitArchive() decodes every .fit entry of a download', () => {
+    const archive = zip([
+      { name: '1.fit', data: sample, deflate: true },
+      { name: '2.fit', data: sample, deflate: false },
+    ]);
+    const result = decodeFitArchive(archive);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.map((f) => [f.name, f.fit.records.length])).toEqual([
+      ['1.fit', 3],
+      ['2.fit', 3],
+    ]);
+
+    const plain = decodeFitArchive(sample);
+    expect(plain.ok && plain.value[0]?.name).toBe('activity.fit');
+  });
+
+  test('reports the failing entry', () => {
+    const result = decodeFitArchive(zip([{ name: 'bad.fit', data: new Uint8Array(20), deflate: true }]));
+    expect(result).toMatchObject({ ok: false, error: { entry: 'bad.fit' } });
+    expect(unzip(new Uint8Array(30))).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'vitest';
+
+import { decodeFit } from '../formats/fitDecoder';
+import { encodeFit, type FitEncodeInput } from '../formats/fitEncoder';
+
+const start = new Date('2024-05-01T10:00:00Z');
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+const records: FitEncodeInput['records'] = Array.from({ length: 10 }, (_, i) => ({
+  timestamp: at(i),
+  power: i < 5 ? 200 : 300,
+  heartRate: 140 + i,
+  cadence: 90,
+  distance: i * 8,
+  speed: 8,
+  altitude: 6000 + i, // beyond the legacy uint16 altitude field
+  positionLat: 52.5 + i * 0.0001,
+  positionLong: 13.4,
+}));
+
+function decode(encoded: ReturnType<typeof encodeFit>) {
+  if (!encoded.ok) throw new Error(encoded.error.message);
+  const result = decodeFit(encoded.value);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.value;
+}
+
+describe('encodeFit()', () => {
+  test('round-trips records through the decoder with valid CRCs', () => {
+    const fit = decode(encodeFit({ records }));
+
+    expect(fit.fileId).toMatchObject({ type: 'activity', manufacturer: 255, timeCreated: start });
+    expect(fit.records).toHaveLength(10);
+    expect(fit.records[9]).toMatchObject({
+      timestamp: at(9),
+      power: 300,
+      heartRate: 149,
+      cadence: 90,
+      distance: 72,
+      speed: 8,
+      altitude: 6009,
+    });
+    expect(fit.records[9]?.positionLat).toBeCloseTo(52.5009, 6);
+    expect(fit.events.map((e) => e.eventType)).toEqual(['start', 'stop_all']);
+    expect(fit.activity).toMatchObject({ numSessions: 1, totalTimerTime: 9, type: 'manual', event: 'activity' });
+  });
+
+  test('computes session and lap totals from the records', () => {
+    const fit = decode(encodeFit({ records, sport: 'running', laps: [{ startTime: start }, { startTime: at(5) }] }));
+
+    expect(fit.laps).toHaveLength(2);
+    expect(fit.laps[0]).toMatchObject({
+      messageIndex: 0,
+      startTime: start,
+      totalElapsedTime: 5,
+      avgPower: 200,
+      maxHeartRate: 144,
+      totalDistance: 32,
+      lapTrigger: 'manual',
+      sport: 'running',
+    });
+    expect(fit.laps[1]).toMatchObject({ startTime: at(5), totalElapsedTime: 4, avgPower: 300, lapTrigger: 'session_end' });
+    expect(fit.sessions[0]).toMatchObject({
+      sport: 'running',
+      numLaps: 2,
+      totalElapsedTime: 9,
+      totalDistance: 72,
+      avgPower: 250,
+      maxPower: 300,
+      avgHeartRate: 145,
+      avgSpeed: 8,
+    });
+  });
+
+  test('keeps explicit lap and session values', () => {
+    const fit = decode(
+      encodeFit({
+        records,
+        laps: [{ startTime: start, avgPower: 222 }],
+        session: { totalCalories: 100 },
+        deviceInfos: [{ manufacturer: 1, productName: 'Edge 540' }],
+      })
+    );
+    expect(fit.laps[0]?.avgPower).toBe(222);
+    expect(fit.sessions[0]?.totalCalories).toBe(100);
+    expect(fit.deviceInfos[0]).toMatchObject({ manufacturer: 1, productName: 'Edge 540' });
+  });
+
+  test('returns an error with its path for input FIT cannot represent', () => {
+    expect(encodeFit({ records: [] })).toEqual({
+      ok: false,
+      error: { message: 'FIT activity needs at least one record', path: 'records' },
+    });
+    expect(encodeFit({ records: [{ timestamp: at(1) }, { timestamp: at(0) }] })).toEqual({
+      ok: false,
+      error: { message: 'records[1].timestamp is before the previous record', path: 'records[1].timestamp' },
+    });
+    expect(encodeFit({ records: [{ timestamp: start, power: 70000 }] })).toEqual({
+      ok: false,
+      error: { message: 'records[0].power: 70000 is out of range', path: 'records[0].power' },
+    });
+    expect(encodeFit({ records, laps: [{ startTime: start, sport: 'quidditch' }] })).toMatchObject({
+      ok: false,
+      error: { path: 'laps[0].sport' },
+    });
+    expect(encodeFit({ records, sport: 'quidditch' })).toEqual({
+      ok: false,
+      error: { message: 'Unknown sport "quidditch"', path: 'sport' },
+    });
+  });
+});
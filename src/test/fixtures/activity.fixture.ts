@@ -1,4 +1,17 @@
-import type { Activity, ActivityStreams, UpdateStreamsResponse } from '../../schemas/activity';
+import type {
+  Activity,
+  ActivityStreams,
+  UpdateStreamsResponse,
+  ActivityMap,
+  ActivitySegments,
+  WeatherSummary,
+  BestEfforts,
+  Histogram,
+  PowerVsHR,
+  TimeAtHR,
+  PowerSpikeModel,
+  HRLoadModel,
+} from '../../schemas/activity';
 
 /**
  * Realistic activity fixture representing a cycling workout with power data.
@@ -282,10 +295,166 @@ export const updateStreamsResponse: UpdateStreamsResponse = {
   deleted: ['old_stream'],
 };
 
+/**
+ * Map data fixture with bounds and a short latlng track (including a GPS dropout).
+ */
+export const activityMap: ActivityMap = {
+  bounds: [
+    [40.7128, -74.006],
+    [40.7306, -73.9866],
+  ],
+  latlngs: [
+    [40.7128, -74.006],
+    [40.7151, -74.0012],
+    null,
+    [40.7306, -73.9866],
+  ],
+  route: null,
+  weather: null,
+};
+
+/**
+ * Segment efforts matched within the cycling workout.
+ */
+export const activitySegments: ActivitySegments = [
+  {
+    id: 5551,
+    segmentId: 998877,
+    name: 'River Road Climb',
+    startIndex: 1200,
+    endIndex: 1680,
+    elapsedTime: 480,
+    movingTime: 478,
+    distance: 3200,
+    averageWatts: 285,
+    averageHeartrate: 168,
+    averageCadence: 84,
+    averageSpeed: 6.67,
+    averageGrade: 4.2,
+    prRank: 2,
+    starred: true,
+  },
+];
+
+/**
+ * Weather summary fixture for an outdoor ride.
+ */
+export const weatherSummary: WeatherSummary = {
+  averageWeatherTemp: 18,
+  minWeatherTemp: 15.5,
+  maxWeatherTemp: 20.1,
+  averageFeelsLike: 17.2,
+  averageWindSpeed: 3.2,
+  averageWindGust: 6.8,
+  prevailingWindDeg: 225,
+  headwindPercent: 42,
+  tailwindPercent: 38,
+  averageClouds: 35,
+  maxRain: 0,
+  maxSnow: 0,
+  averageHumidity: 61,
+  description: 'Partly cloudy',
+};
+
+/**
+ * Best efforts fixture (best 1min, 5min and 20min power).
+ */
+export const bestEfforts: BestEfforts = {
+  efforts: [
+    { startIndex: 1820, endIndex: 1880, average: 412, duration: 60, distance: 620 },
+    { startIndex: 2400, endIndex: 2700, average: 318, duration: 300, distance: 2650 },
+    { startIndex: 900, endIndex: 2100, average: 271, duration: 1200, distance: 9800 },
+  ],
+};
+
+/**
+ * Power histogram fixture (25W buckets).
+ */
+export const powerHistogram: Histogram = [
+  { min: 0, max: 25, secs: 120 },
+  { min: 200, max: 225, secs: 1450 },
+  { min: 225, max: 250, secs: 1320 },
+  { min: 250, max: 275, secs: 980 },
+];
+
+/**
+ * Heart rate histogram fixture (5bpm buckets).
+ */
+export const hrHistogram: Histogram = [
+  { min: 140, max: 145, secs: 600 },
+  { min: 150, max: 155, secs: 1800 },
+  { min: 160, max: 165, secs: 2100 },
+];
+
+/**
+ * Power vs heart rate fixture with aerobic decoupling.
+ */
+export const powerVsHR: PowerVsHR = {
+  bucketSize: 300,
+  warmup: 900,
+  cooldown: 600,
+  elapsedTime: 5550,
+  hrLag: 25,
+  powerHr: 1.59,
+  powerHrFirst: 1.62,
+  powerHrSecond: 1.56,
+  decoupling: 2.3,
+  maxWatts: 485,
+  maxHr: 182,
+  series: [
+    { start: 900, secs: 300, watts: 245, hr: 150, cadence: 88 },
+    { start: 1200, secs: 300, watts: 262, hr: 162, cadence: 90 },
+  ],
+};
+
+/**
+ * Time at heart rate fixture (1bpm resolution).
+ */
+export const timeAtHR: TimeAtHR = {
+  minBpm: 150,
+  maxBpm: 154,
+  secs: [310, 295, 402, 388, 275],
+  cumulativeSecs: [5240, 4930, 4635, 4233, 3845],
+};
+
+/**
+ * Power spike model fixture with one detected spike.
+ */
+export const powerSpikeModel: PowerSpikeModel = {
+  threshold: 1500,
+  spikeCount: 1,
+  maxSpike: 2140,
+  spikes: [{ startIndex: 3021, endIndex: 3022, value: 2140 }],
+};
+
+/**
+ * HR load model fixture (HRSS based).
+ */
+export const hrLoadModel: HRLoadModel = {
+  type: 'HRSS',
+  restingHr: 45,
+  lthr: 165,
+  maxHr: 190,
+  trimpFactor: 1.92,
+  trainingLoad: 142,
+  hrZones: [136, 150, 158, 165, 172, 180, 190],
+  zoneLoads: [8, 22, 41, 48, 19, 4, 0],
+};
+
 export const activityFixtures = {
   cyclingWorkout: cyclingWorkoutActivity,
   running: runningActivity,
   trainer: trainerActivity,
   streams: activityStreams,
   updateResponse: updateStreamsResponse,
+  map: activityMap,
+  segments: activitySegments,
+  weatherSummary,
+  bestEfforts,
+  powerHistogram,
+  hrHistogram,
+  powerVsHR,
+  timeAtHR,
+  powerSpikeModel,
+  hrLoadModel,
 };
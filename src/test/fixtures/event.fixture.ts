@@ -14,6 +14,33 @@ export const plannedWorkoutEvent: Event = {
   description: '3x15min @ 88-93% FTP\n\nWarmup 15min\nWork: 3x (15min @ 240W, 5min easy)\nCooldown 10min',
   type: 'Ride',
   workoutType: 'Intervals',
+  workoutDoc: {
+    duration: 5400,
+    ftp: 265,
+    lthr: 165,
+    target: 'POWER',
+    steps: [
+      {
+        duration: 900,
+        warmup: true,
+        ramp: true,
+        power: { start: 50, end: 75, units: '%ftp' },
+        text: 'Easy spin',
+      },
+      {
+        reps: 3,
+        steps: [
+          {
+            duration: 900,
+            power: { start: 88, end: 93, units: '%ftp' },
+            cadence: { value: 90, units: 'rpm' },
+          },
+          { duration: 300, hr: { value: 70, units: '%lthr' } },
+        ],
+      },
+      { duration: 600, cooldown: true, power: { value: 150, units: 'w' } },
+    ],
+  },
 
   // Basic metrics
   load: 120,
@@ -0,0 +1,178 @@
+import { describe, expect, test } from 'vitest';
+
+import { decodeFit } from '../formats/fitDecoder';
+import { encodeFit } from '../formats/fitEncoder';
+import { formatGpx, gpxRecords, parseGpx } from '../formats/gpx';
+import { recordsToStreams, type TimedActivityRecord } from '../formats/records';
+import { formatTcx, parseTcx, tcxRecords, type TcxWriteInput } from '../formats/tcx';
+import type { Result } from '../result';
+
+const start = new Date('2024-05-01T10:00:00Z');
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+/** The written file; fails the test with the writer's error message */
+function written<T>(result: Result<T, { message: string }>): T {
+  if (!result.ok) throw new Error(result.error.message);
+  return result.value;
+}
+
+const records: TimedActivityRecord[] = [0, 1, 2, 3].map((i) => ({
+  timestamp: at(i),
+  positionLat: 52.5 + i * 0.0001,
+  positionLong: 13.4,
+  altitude: 34.5,
+  heartRate: 140 + i,
+  cadence: 90,
+  power: 200 + i * 10,
+  temperature: 21,
+}));
+
+const garminGpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx creator="Garmin Connect" version="1.1" xmlns="http://www.topografix.com/GPX/1/1"
+  xmlns:ns3="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <metadata><name>Lunch Ride</name><time>2024-05-01T10:00:00.000Z</time></metadata>
+  <trk>
+    <name>Lunch Ride</name>
+    <type>cycling</type>
+    <trkseg>
+      <trkpt lat="52.5" lon="13.4">
+        <ele>34.5</ele>
+        <time>2024-05-01T10:00:00.000Z</time>
+        <extensions>
+          <power>250</power>
+          <ns3:TrackPointExtension><ns3:atemp>21.0</ns3:atemp><ns3:hr>141</ns3:hr><ns3:cad>88</ns3:cad></ns3:TrackPointExtension>
+        </extensions>
+      </trkpt>
+      <trkpt lat="52.5001" lon="13.4"><time>2024-05-01T10:00:01Z</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('GPX', () => {
+  test('parses Garmin TrackPointExtension and power extensions', () => {
+    const result = parseGpx(garminGpx);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value).toMatchObject({ creator: 'Garmin Connect', name: 'Lunch Ride', time: start });
+    expect(result.value.tracks[0]).toMatchObject({ name: 'Lunch Ride', type: 'cycling' });
+    expect(gpxRecords(result.value)).toEqual([
+      {
+        positionLat: 52.5,
+        positionLong: 13.4,
+        altitude: 34.5,
+        timestamp: start,
+        power: 250,
+        heartRate: 141,
+        cadence: 88,
+        temperature: 21,
+      },
+      { positionLat: 52.5001, positionLong: 13.4, timestamp: at(1) },
+    ]);
+  });
+
+  test('round-trips records and accepts bytes', () => {
+    const gpx = written(formatGpx({ records, name: 'Test & Ride', type: 'cycling' }));
+    expect(gpx).toContain('<name>Test &amp; Ride</name>');
+    expect(gpx).toContain('<gpxtpx:hr>140</gpxtpx:hr>');
+
+    const result = parseGpx(new TextEncoder().encode(gpx));
+    expect(result.ok && gpxRecords(result.value)).toEqual(records);
+  });
+
+  test('reads planned routes without timestamps', () => {
+    const result = parseGpx(
+      '<gpx><rte><name>Loop</name><rtept lat="1" lon="2"/><rtept lat="1.1" lon="2"><ele>5</ele></rtept></rte></gpx>'
+    );
+    expect(result.ok && result.value.routes[0]?.name).toBe('Loop');
+    expect(result.ok && gpxRecords(result.value)).toEqual([
+      { positionLat: 1, positionLong: 2 },
+      { positionLat: 1.1, positionLong: 2, altitude: 5 },
+    ]);
+  });
+
+  test('reports invalid points with their path', () => {
+    expect(parseGpx('<gpx><trk><trkseg><trkpt lat="1" lon="2"/><trkpt lat="95" lon="2"/></trkseg></trk></gpx>')).toEqual({
+      ok: false,
+      error: { format: 'gpx', message: 'Position 95,2 is out of range', path: 'trk[0].trkseg[0].trkpt[1]' },
+    });
+    expect(parseGpx('<gpx><trk><trkseg><trkpt lat="1" lon="2"><time>yesterday</time></trkpt></trkseg></trk></gpx>')).toMatchObject({
+      ok: false,
+      error: { message: 'Invalid time "yesterday"' },
+    });
+    expect(parseGpx('<gpx><trk>')).toMatchObject({ ok: false, error: { format: 'gpx' } });
+    expect(parseGpx('<kml/>')).toMatchObject({ ok: false, error: { message: 'Expected <gpx> root element' } });
+  });
+
+  test('returns an error when writing records without a position', () => {
+    expect(formatGpx({ records: [records[0]!, { timestamp: start, power: 100 }] })).toEqual({
+      ok: false,
+      error: { format: 'gpx', message: 'Record has no position; GPX track points require lat/lon', path: 'records[1]' },
+    });
+  });
+});
+
+describe('TCX', () => {
+  test('round-trips records and lap totals', () => {
+    const tcx = written(formatTcx({ records, laps: [{ startTime: start }, { startTime: at(2), totalCalories: 12 }] }));
+    expect(tcx).toContain('<Activity Sport="Biking">');
+    expect(tcx).toContain('<ns3:TPX><ns3:Watts>200</ns3:Watts></ns3:TPX>');
+
+    const result = parseTcx(tcx);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const activity = result.value.activities[0]!;
+    expect(activity).toMatchObject({ sport: 'Biking', id: start });
+    expect(activity.laps).toHaveLength(2);
+    expect(activity.laps[0]).toMatchObject({
+      startTime: start,
+      totalTimerTime: 2,
+      avgHeartRate: 141,
+      avgPower: 205,
+      maxPower: 210,
+      intensity: 'Active',
+      triggerMethod: 'Manual',
+    });
+    expect(activity.laps[1]).toMatchObject({ totalTimerTime: 1, totalCalories: 12 });
+    expect(tcxRecords(result.value)).toEqual(records.map(({ temperature, ...r }) => r));
+  });
+
+  test('computes lap totals that are given as undefined', () => {
+    // As JavaScript callers or code built without exactOptionalPropertyTypes can pass them
+    const laps = [{ startTime: start, totalTimerTime: undefined, avgPower: undefined }] as unknown as NonNullable<TcxWriteInput['laps']>;
+    const result = parseTcx(written(formatTcx({ records, laps })));
+
+    expect(result.ok && result.value.activities[0]?.laps[0]).toMatchObject({ totalTimerTime: 3, avgPower: 215 });
+  });
+
+  test('writes indoor activities without positions', () => {
+    const indoor = records.map(({ timestamp, power }) => ({ timestamp, power: power! }));
+    const result = parseTcx(written(formatTcx({ records: indoor })));
+    expect(result.ok && tcxRecords(result.value)).toEqual(indoor);
+  });
+
+  test('converts to FIT and streams through the shared record model', () => {
+    const result = parseTcx(written(formatTcx({ records })));
+    if (!result.ok) throw new Error(result.error.message);
+    const parsed = tcxRecords(result.value) as TimedActivityRecord[];
+
+    const fit = decodeFit(written(encodeFit({ records: parsed, laps: result.value.activities[0]!.laps })));
+    expect(fit.ok && fit.value.records.map((r) => r.power)).toEqual([200, 210, 220, 230]);
+    expect(recordsToStreams(parsed).heartrate?.data).toEqual([140, 141, 142, 143]);
+  });
+
+  test('reports invalid trackpoints with their path', () => {
+    const tcx = `<TrainingCenterDatabase><Activities><Activity Sport="Running"><Id>2024-05-01T10:00:00Z</Id>
+      <Lap StartTime="2024-05-01T10:00:00Z"><Track><Trackpoint><Time>2024-05-01T10:00:00Z</Time><HeartRateBpm><Value>abc</Value></HeartRateBpm></Trackpoint></Track></Lap>
+    </Activity></Activities></TrainingCenterDatabase>`;
+    expect(parseTcx(tcx)).toEqual({
+      ok: false,
+      error: { format: 'tcx', message: 'Invalid heart rate "abc"', path: 'Activity[0].Lap[0].Track[0].Trackpoint[0]' },
+    });
+    expect(formatTcx({ records: [] })).toEqual({
+      ok: false,
+      error: { format: 'tcx', message: 'TCX activity needs at least one record' },
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import {
+  type Activity,
+  type ApiError,
+  IntervalsClient,
+  type LenientList,
+  type SchemaDriftReport,
+  decodeEventsLenient,
+} from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+function client(overrides: Partial<IntervalsClientConfig> = {}) {
+  return new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" }, retry: { limit: 0 }, ...overrides });
+}
+
+const ride = { id: "i1", type: "Ride", start_date_local: "2024-01-15T10:00:00" };
+const broken = { id: "i2", type: 7, start_date_local: "2024-01-16T10:00:00" };
+const run = { id: "i3", type: "Run", start_date_local: "2024-01-17T10:00:00", icu_new_metric: 1 };
+
+describe("lenient list decoding", () => {
+  test("returns the valid items and the failures with their raw payloads", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([ride, broken, run])));
+
+    const result = await client().activities.list(0, { oldest: "2024-01-01", lenient: true });
+    expectTypeOf(result).toEqualTypeOf<
+      { ok: true; value: LenientList<Activity> } | { ok: false; error: ApiError }
+    >();
+    if (!result.ok) return expect.unreachable();
+
+    expect(result.value.items.map((a) => a.id)).toEqual(["i1", "i3"]);
+    expect(result.value.failures).toEqual([
+      { index: 1, raw: broken, message: expect.stringContaining("string"), issues: expect.any(Array) },
+    ]);
+  });
+
+  test("without lenient one bad item fails the whole call", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([ride, broken, run])));
+
+    const result = await client().activities.list(0, { oldest: "2024-01-01" });
+    expectTypeOf(result).toEqualTypeOf<
+      { ok: true; value: Activity[] } | { ok: false; error: ApiError }
+    >();
+    expect(result).toMatchObject({ ok: false, error: { kind: "Schema" } });
+  });
+
+  test("in strict mode items that drifted are failures", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([ride, run])));
+
+    const result = await client({ schemaMode: "strict" }).activities.list(0, { lenient: true });
+    expect(result).toMatchObject({
+      ok: true,
+      value: {
+        items: [{ id: "i1" }],
+        failures: [{ index: 1, raw: run, issues: [{ type: "unknownKey", path: "icu_new_metric" }] }],
+      },
+    });
+  });
+
+  test("in report mode drift is reported once for the whole list", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.json([ride, run, run])));
+    const reports: SchemaDriftReport[] = [];
+
+    const result = await client({ schemaMode: "report", onSchemaDrift: (r) => reports.push(r) }).activities.list(0, {
+      lenient: true,
+    });
+    expect(result.ok && result.value.items).toHaveLength(3);
+    expect(reports).toEqual([
+      {
+        schema: "Activities",
+        operation: "activities.list",
+        route: "athlete/{id}/activities",
+        issues: [{ type: "unknownKey", path: "[].icu_new_metric", received: "number" }],
+      },
+    ]);
+  });
+
+  test("unwrapped list methods keep the lenient result type", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/:id/wellness`, () => HttpResponse.json([{ id: "2024-01-01" }, { id: null }]))
+    );
+
+    const wellness = await client().unwrap().wellness.list(0, { lenient: true });
+    expectTypeOf(wellness.items[0]?.id).toEqualTypeOf<string | undefined>();
+    expect(wellness.items).toEqual([{ id: "2024-01-01" }]);
+    expect(wellness.failures).toMatchObject([{ index: 1, raw: { id: null } }]);
+  });
+
+  test("lenient decoders still throw for data that isn't an array", () => {
+    const events = decodeEventsLenient([{ id: 1, start_date_local: "2024-01-01T00:00:00" }, { id: "x" }]);
+    expect(events.items).toMatchObject([{ id: 1, startDateLocal: "2024-01-01T00:00:00" }]);
+    expect(events.failures.map((f) => f.index)).toEqual([1]);
+
+    expect(() => decodeEventsLenient({ id: 1 })).toThrow();
+  });
+});
@@ -145,6 +145,33 @@ describe('LibraryResource', () => {
       }
     });
 
+    test('with workoutDoc: encodes structured workout', async () => {
+      server.use(
+        http.post(`${baseUrl}/athlete/i123/workouts`, async ({ request }) => {
+          const body = (await request.json()) as Record<string, any>;
+          expect(body.workout_doc).toEqual({
+            steps: [{ reps: 2, steps: [{ duration: 60, power: { value: 120, units: '%ftp' } }] }],
+          });
+          return HttpResponse.json({ id: 101, name: 'Openers', workout_doc: body.workout_doc });
+        }),
+      );
+
+      const client = new IntervalsClient({
+        auth: { type: 'apiKey', apiKey: 'test' },
+      });
+      const result = await client.library.createWorkout('i123', {
+        name: 'Openers',
+        workoutDoc: {
+          steps: [{ reps: 2, steps: [{ duration: 60, power: { value: 120, units: '%ftp' } }] }],
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.workoutDoc?.steps?.[0]?.reps).toBe(2);
+      }
+    });
+
     test('401: returns Unauthorized error', async () => {
       server.use(
         http.post(`${baseUrl}/athlete/i123/workouts`, () => {
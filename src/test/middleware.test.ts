@@ -0,0 +1,149 @@
+import { describe, expect, test, vi } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient, ok, type Middleware } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const fastRetry = { limit: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry, ...overrides };
+}
+
+function athleteEndpoint(respond?: (request: Request) => Response | undefined) {
+  const requests: Request[] = [];
+  server.use(
+    http.get(`${baseUrl}/athlete/:id`, ({ request, params }) => {
+      requests.push(request);
+      return respond?.(request) ?? HttpResponse.json({ id: params.id, name: "Athlete" });
+    })
+  );
+  return requests;
+}
+
+describe("middleware", () => {
+  test("can rewrite the request", async () => {
+    const requests = athleteEndpoint();
+    const rewrite: Middleware = (request, next) =>
+      next({
+        ...request,
+        path: request.path.replace("athlete/me", "athlete/i42"),
+        headers: { ...request.headers, "x-tenant": "acme" },
+      });
+    const client = new IntervalsClient(config({ middleware: [rewrite] }));
+
+    expect(await client.athletes.get("me")).toMatchObject({ ok: true, value: { id: "i42" } });
+    expect(requests[0]?.headers.get("x-tenant")).toBe("acme");
+    expect(requests[0]?.headers.get("authorization")).toMatch(/^Basic /);
+  });
+
+  test("can short-circuit with a synthetic Result", async () => {
+    const onRequest = vi.fn();
+    const fixture: Middleware = async () =>
+      ok({ status: 200, headers: new Headers(), body: { id: "i0", name: "Fixture" } });
+    const client = new IntervalsClient(config({ middleware: [fixture], hooks: { onRequest } }));
+
+    // No handler is registered, so a real request would fail the test.
+    expect(await client.athletes.get(0)).toMatchObject({ ok: true, value: { id: "i0", name: "Fixture" } });
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+
+  test("can transform the response before it is decoded", async () => {
+    athleteEndpoint();
+    const rename: Middleware = async (request, next) => {
+      const result = await next(request);
+      if (result.ok) result.value.body = { ...(result.value.body as object), name: "Renamed" };
+      return result;
+    };
+    const client = new IntervalsClient(config({ middleware: [rename] }));
+
+    expect(await client.athletes.get("i1")).toMatchObject({ ok: true, value: { id: "i1", name: "Renamed" } });
+  });
+
+  test("runs in order around the retries, with hooks innermost", async () => {
+    let hits = 0;
+    athleteEndpoint(() => (hits++ === 0 ? new HttpResponse(null, { status: 503 }) : undefined));
+    const calls: string[] = [];
+    const step =
+      (name: string): Middleware =>
+      async (request, next) => {
+        calls.push(`${name}:before`);
+        const result = await next({
+          ...request,
+          onRetry: async (info) => {
+            calls.push(`${name}:retry`);
+            await request.onRetry?.(info);
+          },
+        });
+        calls.push(`${name}:after`);
+        return result;
+      };
+    const client = new IntervalsClient(
+      config({
+        middleware: [step("outer"), step("inner")],
+        hooks: {
+          onRequest: () => void calls.push("onRequest"),
+          onRetry: () => void calls.push("onRetry"),
+          onResponse: () => void calls.push("onResponse"),
+        },
+      })
+    );
+
+    expect((await client.athletes.get("i1")).ok).toBe(true);
+    expect(hits).toBe(2);
+    expect(calls).toEqual([
+      "outer:before",
+      "inner:before",
+      "onRequest",
+      "inner:retry",
+      "outer:retry",
+      "onRetry",
+      "onResponse",
+      "inner:after",
+      "outer:after",
+    ]);
+  });
+
+  test("sees errors as Results and can recover from them", async () => {
+    athleteEndpoint(() => HttpResponse.json({ error: "gone" }, { status: 404 }));
+    const seen: string[] = [];
+    const fallback: Middleware = async (request, next) => {
+      const result = await next(request);
+      if (result.ok) return result;
+      seen.push(result.error.kind);
+      return ok({ status: 200, headers: new Headers(), body: { id: "fallback" } });
+    };
+    const client = new IntervalsClient(config({ middleware: [fallback] }));
+
+    expect(await client.athletes.get("i1")).toMatchObject({ ok: true, value: { id: "fallback" } });
+    expect(seen).toEqual(["NotFound"]);
+  });
+
+  test("a throwing onResponse hook fails the request with a Result, for every deduped caller", async () => {
+    athleteEndpoint();
+    const onError = vi.fn();
+    const failure = new Error("metrics backend down");
+    const client = new IntervalsClient(
+      config({
+        dedupe: true,
+        hooks: {
+          onResponse: () => {
+            throw failure;
+          },
+          onError,
+        },
+      })
+    );
+
+    const results = await Promise.all([client.athletes.get("i1"), client.athletes.get("i1")]);
+    for (const result of results) {
+      expect(result).toMatchObject({ ok: false, error: { kind: "Network", message: "metrics backend down" } });
+      expect(!result.ok && result.error.kind === "Network" && result.error.cause).toBe(failure);
+    }
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ error: failure, apiError: { kind: "Network" } });
+  });
+});
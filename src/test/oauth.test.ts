@@ -0,0 +1,202 @@
+import { describe, expect, test } from 'vitest';
+import { http, HttpResponse } from 'msw';
+
+import { IntervalsClient, IntervalsOAuth, MemoryTokenStore } from '../index';
+import { server } from './mswServer';
+
+const baseUrl = 'https://intervals.icu/api/v1';
+const tokenUrl = 'https://intervals.icu/api/oauth/token';
+
+const athlete = { id: 'i123', name: 'Test Athlete' };
+
+function setup() {
+  const store = new MemoryTokenStore();
+  const oauth = new IntervalsOAuth({
+    clientId: 'client-1',
+    clientSecret: 'secret-1',
+    redirectUri: 'https://app.example.com/callback',
+    store,
+  });
+  return { store, oauth };
+}
+
+/** Token endpoint that issues access-N / refresh-N and records the form bodies it received */
+function tokenEndpoint() {
+  const requests: Record<string, string>[] = [];
+  server.use(
+    http.post(tokenUrl, async ({ request }) => {
+      const form = Object.fromEntries(new URLSearchParams(await request.text()));
+      requests.push(form);
+      const n = requests.length;
+      return HttpResponse.json({
+        token_type: 'Bearer',
+        access_token: `access-${n}`,
+        refresh_token: `refresh-${n}`,
+        expires_in: 3600,
+        scope: 'ACTIVITY:READ,WELLNESS:READ',
+        athlete: { id: 'i123', name: 'Test Athlete' },
+      });
+    })
+  );
+  return requests;
+}
+
+/** Athlete endpoint that only accepts `validToken`, recording the tokens it saw */
+function athleteEndpoint(validToken: () => string) {
+  const seen: string[] = [];
+  server.use(
+    http.get(`${baseUrl}/athlete/0`, ({ request }) => {
+      const token = request.headers.get('authorization')?.replace('Bearer ', '') ?? '';
+      seen.push(token);
+      if (token !== validToken()) return HttpResponse.json({ error: 'invalid token' }, { status: 401 });
+      return HttpResponse.json(athlete);
+    })
+  );
+  return seen;
+}
+
+describe('IntervalsOAuth', () => {
+  test('authorizeUrl includes client, redirect, scopes and state', () => {
+    const { oauth } = setup();
+    const url = new URL(oauth.authorizeUrl({ scopes: ['ACTIVITY:READ', 'CALENDAR:WRITE'], state: 'xyz' }));
+
+    expect(url.origin + url.pathname).toBe('https://intervals.icu/oauth/authorize');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'client-1',
+      redirect_uri: 'https://app.example.com/callback',
+      response_type: 'code',
+      scope: 'ACTIVITY:READ,CALENDAR:WRITE',
+      state: 'xyz',
+    });
+    expect(() => new IntervalsOAuth({ clientId: 'c', clientSecret: 's' }).authorizeUrl({ scopes: [] })).toThrow(
+      /redirectUri/
+    );
+  });
+
+  test('exchangeCode posts a form and stores the tokens', async () => {
+    const requests = tokenEndpoint();
+    const { oauth, store } = setup();
+
+    const result = await oauth.exchangeCode('code-abc', { key: 'user-1' });
+    expect(result.ok).toBe(true);
+    expect(requests[0]).toEqual({
+      client_id: 'client-1',
+      client_secret: 'secret-1',
+      grant_type: 'authorization_code',
+      code: 'code-abc',
+      redirect_uri: 'https://app.example.com/callback',
+    });
+
+    const stored = await store.get('user-1');
+    expect(stored).toMatchObject({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      tokenType: 'Bearer',
+      scopes: ['ACTIVITY:READ', 'WELLNESS:READ'],
+      athleteId: 'i123',
+    });
+    expect(stored?.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  test('exchangeCode maps token endpoint errors to ApiError', async () => {
+    server.use(http.post(tokenUrl, () => HttpResponse.json({ error: 'invalid_grant' }, { status: 400 })));
+    const { oauth, store } = setup();
+
+    const result = await oauth.exchangeCode('bad', { key: 'user-1' });
+    expect(result).toMatchObject({
+      ok: false,
+      error: {
+        kind: 'BadRequest',
+        status: 400,
+        fieldErrors: [{ message: 'invalid_grant' }],
+        body: { error: 'invalid_grant' },
+      },
+    });
+    expect(await store.get('user-1')).toBeUndefined();
+  });
+});
+
+describe('OAuth auth in IntervalsClient', () => {
+  test('refreshes the token on 401 and replays the request once', async () => {
+    const requests = tokenEndpoint();
+    const { oauth, store } = setup();
+    await store.set('user-1', { accessToken: 'stale', tokenType: 'Bearer', refreshToken: 'refresh-0' });
+    const seen = athleteEndpoint(() => 'access-1');
+
+    const client = new IntervalsClient({ auth: { type: 'oauth', tokens: oauth.tokenProvider('user-1') } });
+    const result = await client.athletes.get(0);
+
+    expect(result.ok).toBe(true);
+    expect(seen).toEqual(['stale', 'access-1']);
+    expect(requests).toEqual([
+      { client_id: 'client-1', client_secret: 'secret-1', grant_type: 'refresh_token', refresh_token: 'refresh-0' },
+    ]);
+    expect(await store.get('user-1')).toMatchObject({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+  });
+
+  test('returns Unauthorized when the replay is rejected too', async () => {
+    tokenEndpoint();
+    const { oauth, store } = setup();
+    await store.set('user-1', { accessToken: 'stale', tokenType: 'Bearer', refreshToken: 'refresh-0' });
+    const seen = athleteEndpoint(() => 'never-valid');
+
+    const client = new IntervalsClient({ auth: { type: 'oauth', tokens: oauth.tokenProvider('user-1') } });
+    const result = await client.athletes.get(0);
+
+    expect(result).toMatchObject({ ok: false, error: { kind: 'Unauthorized', status: 401 } });
+    expect(seen).toEqual(['stale', 'access-1']);
+  });
+
+  test('returns Unauthorized without a replay when there is no refresh token', async () => {
+    const { oauth, store } = setup();
+    await store.set('user-1', { accessToken: 'stale', tokenType: 'Bearer' });
+    const seen = athleteEndpoint(() => 'fresh');
+
+    const client = new IntervalsClient({ auth: { type: 'oauth', tokens: oauth.tokenProvider('user-1') } });
+    const result = await client.athletes.get(0);
+
+    expect(result).toMatchObject({ ok: false, error: { kind: 'Unauthorized' } });
+    expect(seen).toEqual(['stale']);
+  });
+
+  test('concurrent 401s share one refresh', async () => {
+    const requests = tokenEndpoint();
+    const { oauth, store } = setup();
+    await store.set('user-1', { accessToken: 'stale', tokenType: 'Bearer', refreshToken: 'refresh-0' });
+    athleteEndpoint(() => 'access-1');
+
+    const client = new IntervalsClient({ auth: { type: 'oauth', tokens: oauth.tokenProvider('user-1') } });
+    const results = await Promise.all([client.athletes.get(0), client.athletes.get(0), client.athletes.get(0)]);
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(requests).toHaveLength(1);
+  });
+
+  test('refreshes ahead of a known expiry', async () => {
+    const requests = tokenEndpoint();
+    const { oauth, store } = setup();
+    await store.set('user-1', {
+      accessToken: 'expired',
+      tokenType: 'Bearer',
+      refreshToken: 'refresh-0',
+      expiresAt: Date.now() - 1000,
+    });
+    const seen = athleteEndpoint(() => 'access-1');
+
+    const client = new IntervalsClient({ auth: { type: 'oauth', tokens: oauth.tokenProvider('user-1') } });
+    expect((await client.athletes.get(0)).ok).toBe(true);
+    expect(seen).toEqual(['access-1']);
+    expect(requests).toHaveLength(1);
+  });
+
+  test('missing tokens surface as an Unknown error without a request', async () => {
+    const { oauth } = setup();
+    const seen = athleteEndpoint(() => 'x');
+
+    const client = new IntervalsClient({ auth: { type: 'oauth', tokens: oauth.tokenProvider('nobody') } });
+    const result = await client.athletes.get(0);
+
+    expect(result).toMatchObject({ ok: false, error: { kind: 'Unknown', message: expect.stringMatching(/nobody/) } });
+    expect(seen).toEqual([]);
+  });
+});
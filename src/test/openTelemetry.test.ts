@@ -0,0 +1,177 @@
+import { describe, expect, test } from "vitest";
+import { http, HttpResponse } from "msw";
+import {
+  AggregationTemporality,
+  DataPointType,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient, openTelemetryMiddleware } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const fastRetry = { limit: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry, ...overrides };
+}
+
+function telemetry() {
+  const spans = new InMemorySpanExporter();
+  const tracerProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spans)] });
+  const metrics = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+  const reader = new PeriodicExportingMetricReader({ exporter: metrics, exportIntervalMillis: 60_000 });
+  const meterProvider = new MeterProvider({ readers: [reader] });
+
+  return {
+    tracer: tracerProvider.getTracer("test"),
+    meter: meterProvider.getMeter("test"),
+    spans: () => spans.getFinishedSpans(),
+    /** Data points of the named metric after a flush */
+    async points(name: string) {
+      await reader.forceFlush();
+      const metric = metrics
+        .getMetrics()
+        .at(-1)
+        ?.scopeMetrics.flatMap((scope) => scope.metrics)
+        .find((m) => m.descriptor.name === name);
+      return metric ? { type: metric.dataPointType, points: metric.dataPoints } : undefined;
+    },
+  };
+}
+
+/** Activities endpoint that answers with `statuses` in turn, then 200 */
+function activitiesEndpoint(statuses: number[] = []) {
+  let hits = 0;
+  server.use(
+    http.get(`${baseUrl}/athlete/:id/activities`, () => {
+      const status = statuses[hits++];
+      if (status === 429) return new HttpResponse(null, { status, headers: { "retry-after": "0" } });
+      if (status !== undefined) return new HttpResponse(null, { status });
+      return HttpResponse.json([]);
+    })
+  );
+}
+
+describe("openTelemetryMiddleware", () => {
+  test("creates a client span per attempt with route, status, resend count and error kind", async () => {
+    activitiesEndpoint([503]);
+    const otel = telemetry();
+    const client = new IntervalsClient(config({ middleware: [openTelemetryMiddleware(otel)] }));
+
+    expect((await client.activities.list("i42")).ok).toBe(true);
+
+    const spans = otel.spans();
+    expect(spans.map((s) => s.name)).toEqual(["GET athlete/{id}/activities", "GET athlete/{id}/activities"]);
+    expect(spans[0]?.kind).toBe(2);
+    expect(spans[0]?.attributes).toEqual({
+      "http.request.method": "GET",
+      "http.route": "athlete/{id}/activities",
+      "intervals.operation": "activities.list",
+      "http.request.resend_count": 0,
+      "http.response.status_code": 503,
+      "error.type": "Http",
+    });
+    expect(spans[0]?.status).toMatchObject({ code: 2 });
+    expect(spans[1]?.attributes).toMatchObject({
+      "http.request.resend_count": 1,
+      "http.response.status_code": 200,
+    });
+    expect(spans[1]?.attributes).not.toHaveProperty("error.type");
+    expect(spans[1]?.status.code).toBe(0);
+  });
+
+  test("records attempt latency and counts 429 responses", async () => {
+    activitiesEndpoint([429, 429]);
+    const otel = telemetry();
+    const client = new IntervalsClient(config({ middleware: [openTelemetryMiddleware(otel)] }));
+
+    expect((await client.activities.list(0)).ok).toBe(true);
+
+    const duration = await otel.points("http.client.request.duration");
+    expect(duration?.type).toBe(DataPointType.HISTOGRAM);
+    const counts = duration?.points.map((p) => [p.attributes, (p.value as { count: number }).count]);
+    expect(counts).toEqual(
+      expect.arrayContaining([
+        [
+          {
+            "http.request.method": "GET",
+            "http.route": "athlete/{id}/activities",
+            "intervals.operation": "activities.list",
+            "http.response.status_code": 429,
+            "error.type": "RateLimit",
+          },
+          2,
+        ],
+        [
+          {
+            "http.request.method": "GET",
+            "http.route": "athlete/{id}/activities",
+            "intervals.operation": "activities.list",
+            "http.response.status_code": 200,
+          },
+          1,
+        ],
+      ])
+    );
+
+    const rateLimited = await otel.points("intervals.client.rate_limited");
+    expect(rateLimited?.points).toEqual([
+      expect.objectContaining({
+        attributes: {
+          "http.request.method": "GET",
+          "http.route": "athlete/{id}/activities",
+          "intervals.operation": "activities.list",
+        },
+        value: 2,
+      }),
+    ]);
+  });
+
+  test("records network errors without a status", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/activities`, () => HttpResponse.error()));
+    const otel = telemetry();
+    const client = new IntervalsClient(
+      config({ retry: { ...fastRetry, limit: 0 }, middleware: [openTelemetryMiddleware(otel)] })
+    );
+
+    expect(await client.activities.list(0)).toMatchObject({ ok: false, error: { kind: "Network" } });
+
+    const [span] = otel.spans();
+    expect(span?.attributes).not.toHaveProperty("http.response.status_code");
+    expect(span?.attributes["error.type"]).toBe("Network");
+  });
+
+  test("fresh cache hits create no span", async () => {
+    activitiesEndpoint();
+    const otel = telemetry();
+    const client = new IntervalsClient(
+      config({ cache: { defaultTtlMs: 60_000 }, middleware: [openTelemetryMiddleware(otel)] })
+    );
+
+    await client.activities.list(0);
+    await client.activities.list(0);
+    expect(otel.spans()).toHaveLength(1);
+  });
+
+  test("records only what it was given a tracer or meter for", async () => {
+    activitiesEndpoint();
+    const otel = telemetry();
+    const client = new IntervalsClient(
+      config({ middleware: [openTelemetryMiddleware({ meter: otel.meter }), openTelemetryMiddleware({})] })
+    );
+
+    expect((await client.activities.list(0)).ok).toBe(true);
+    expect(otel.spans()).toHaveLength(0);
+    expect((await otel.points("http.client.request.duration"))?.points).toHaveLength(1);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import { IntervalsClient } from "../index";
+import { dateWindows } from "../http/pagination";
+import type { Result } from "../result";
+import type { ApiError } from "../errors";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+async function collect<T>(
+  iterable: AsyncIterable<Result<T, ApiError>>
+): Promise<Result<T, ApiError>[]> {
+  const results: Result<T, ApiError>[] = [];
+  for await (const result of iterable) results.push(result);
+  return results;
+}
+
+describe("dateWindows()", () => {
+  test("splits an inclusive range into non-overlapping windows", () => {
+    expect(
+      dateWindows({ oldest: "2024-01-01", newest: "2024-01-10", windowDays: 4 })
+    ).toEqual([
+      { oldest: "2024-01-01", newest: "2024-01-04" },
+      { oldest: "2024-01-05", newest: "2024-01-08" },
+      { oldest: "2024-01-09", newest: "2024-01-10" },
+    ]);
+  });
+
+  test("keeps the time of day on the outer bounds", () => {
+    expect(
+      dateWindows({ oldest: "2024-02-28T10:00:00", newest: "2024-03-01T08:00:00" })
+    ).toEqual([{ oldest: "2024-02-28T10:00:00", newest: "2024-03-01T08:00:00" }]);
+    expect(
+      dateWindows({ oldest: "2024-01-01T06:30", newest: "2024-01-06T18:00", windowDays: 3 })
+    ).toEqual([
+      { oldest: "2024-01-01T06:30", newest: "2024-01-03" },
+      { oldest: "2024-01-04", newest: "2024-01-06T18:00" },
+    ]);
+  });
+
+  test("rejects malformed dates", () => {
+    expect(() => dateWindows({ oldest: "2024-01-01 junk" })).toThrow("Invalid ISO-8601 date");
+  });
+
+  test("defaults newest to today's local date", () => {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const windows = dateWindows({ oldest: "2024-01-01", windowDays: 100_000 });
+    expect(windows.at(-1)?.newest).toBe(`${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`);
+  });
+
+  test("returns no windows when oldest is after newest", () => {
+    expect(dateWindows({ oldest: "2024-02-01", newest: "2024-01-01" })).toEqual([]);
+  });
+});
+
+describe("iterators", () => {
+  test("activities.iterate() walks windows and dedupes by id", async () => {
+    const requested: string[] = [];
+    server.use(
+      http.get(`${baseUrl}/athlete/0/activities`, ({ request }) => {
+        const url = new URL(request.url);
+        const oldest = url.searchParams.get("oldest");
+        requested.push(`${oldest}..${url.searchParams.get("newest")}`);
+        expect(url.searchParams.get("fields")).toBe("id,name");
+        if (oldest === "2024-01-01") {
+          return HttpResponse.json([
+            { id: 2, type: "Ride", start_date_local: "2024-01-05T10:00:00" },
+            { id: 1, type: "Ride", start_date_local: "2024-01-02T10:00:00" },
+          ]);
+        }
+        return HttpResponse.json([
+          { id: 3, type: "Run", start_date_local: "2024-01-08T10:00:00" },
+          { id: 2, type: "Ride", start_date_local: "2024-01-05T10:00:00" },
+        ]);
+      })
+    );
+
+    const client = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" } });
+    const results = await collect(
+      client.activities.iterate(0, {
+        oldest: "2024-01-01",
+        newest: "2024-01-10",
+        windowDays: 5,
+        fields: ["id", "name"],
+      })
+    );
+
+    expect(requested).toEqual(["2024-01-01..2024-01-05", "2024-01-06..2024-01-10"]);
+    expect(results.map((r) => (r.ok ? r.value.id : null))).toEqual([2, 1, 3]);
+  });
+
+  test("events.iterate() stops on the first error", async () => {
+    let hits = 0;
+    server.use(
+      http.get(`${baseUrl}/athlete/0/events`, () => {
+        hits++;
+        if (hits === 1) {
+          return HttpResponse.json([{ id: 10, start_date_local: "2024-01-01" }]);
+        }
+        return HttpResponse.json({ error: "boom" }, { status: 500 });
+      })
+    );
+
+    const client = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" } });
+    const results = await collect(
+      client.events.iterate(0, { oldest: "2024-01-01", newest: "2024-12-31", windowDays: 30 })
+    );
+
+    expect(hits).toBe(2);
+    expect(results).toHaveLength(2);
+    expect(results[0]?.ok).toBe(true);
+    const last = results[1];
+    expect(last?.ok).toBe(false);
+    if (last && !last.ok) {
+      expect(last.error.kind).toBe("Http");
+    }
+  });
+
+  test("wellness.iterate() dedupes records by date id", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/i1/wellness`, () => {
+        return HttpResponse.json([{ id: "2024-01-01", weight: 72 }]);
+      })
+    );
+
+    const client = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" } });
+    const results = await collect(
+      client.wellness.iterate("i1", { oldest: "2024-01-01", newest: "2024-01-03", windowDays: 1 })
+    );
+
+    expect(results).toHaveLength(1);
+  });
+
+  test("iterate() requests id along with the selected fields", async () => {
+    const fields: (string | null)[] = [];
+    server.use(
+      http.get(`${baseUrl}/athlete/0/activities`, ({ request }) => {
+        const url = new URL(request.url);
+        fields.push(url.searchParams.get("fields"));
+        const day = url.searchParams.get("oldest");
+        return HttpResponse.json([{ id: `a-${day}`, name: "Ride" }]);
+      })
+    );
+
+    const client = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" } });
+    const results = await collect(
+      client.activities.iterate(0, { oldest: "2024-01-01", newest: "2024-01-02", windowDays: 1, fields: ["name"] })
+    );
+
+    expect(fields).toEqual(["name,id", "name,id"]);
+    expect(results.map((r) => (r.ok ? r.value.id : null))).toEqual(["a-2024-01-01", "a-2024-01-02"]);
+  });
+
+  test("chats.iterateMessages() yields messages across windows", async () => {
+    server.use(
+      http.get(`${baseUrl}/chats/7/messages`, ({ request }) => {
+        const oldest = new URL(request.url).searchParams.get("oldest");
+        return HttpResponse.json([{ id: oldest === "2024-01-01" ? 1 : 2, content: "hi" }]);
+      })
+    );
+
+    const client = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" } });
+    const results = await collect(
+      client.chats.iterateMessages(7, { oldest: "2024-01-01", newest: "2024-01-02", windowDays: 1 })
+    );
+
+    expect(results.map((r) => (r.ok ? r.value.id : null))).toEqual([1, 2]);
+  });
+
+  test("invalid date range yields a single Unknown error", async () => {
+    const client = new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" } });
+    const results = await collect(client.activities.iterate(0, { oldest: "last year" }));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.ok).toBe(false);
+  });
+});
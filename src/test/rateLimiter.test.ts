@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { delay, http, HttpResponse } from "msw";
+
+import { IntervalsClient, RateLimiter } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("caps concurrency and starts queued requests in order", async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const started: number[] = [];
+    const releases = [1, 2, 3, 4].map((n) =>
+      limiter.acquire().then((release) => {
+        started.push(n);
+        return release;
+      })
+    );
+
+    const [first] = await Promise.all(releases.slice(0, 2));
+    expect(started).toEqual([1, 2]);
+    expect(limiter.inFlight).toBe(2);
+    expect(limiter.pending).toBe(2);
+
+    first!();
+    first!(); // releasing twice frees one slot only
+    await releases[2];
+    expect(started).toEqual([1, 2, 3]);
+    expect(limiter.pending).toBe(1);
+  });
+
+  test("refills tokens at requestsPerInterval", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerInterval: 2, intervalMs: 1000 });
+    const started: number[] = [];
+    for (const n of [1, 2, 3, 4]) {
+      void limiter.acquire().then((release) => {
+        started.push(n);
+        release();
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1, 2, 3]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([1, 2, 3, 4]);
+  });
+
+  test("pause holds the whole queue", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ maxConcurrent: 5 });
+    limiter.pause(2000);
+
+    let started = false;
+    void limiter.acquire().then(() => {
+      started = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toBe(true);
+  });
+
+  test("rejects invalid options", () => {
+    expect(() => new RateLimiter({ maxConcurrent: 0 })).toThrow(RangeError);
+    expect(() => new RateLimiter({ requestsPerInterval: 0 })).toThrow(RangeError);
+  });
+});
+
+describe("rateLimit in IntervalsClient", () => {
+  test("a shared limiter caps concurrency across clients", async () => {
+    let active = 0;
+    let maxActive = 0;
+    server.use(
+      http.get(`${baseUrl}/athlete/:id`, async ({ params }) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await delay(20);
+        active--;
+        return HttpResponse.json({ id: params.id, name: "Athlete" });
+      })
+    );
+
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const clients = [1, 2].map(
+      (n) => new IntervalsClient({ auth: { type: "apiKey", apiKey: `key-${n}` }, rateLimit: limiter })
+    );
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5, 6].map((n) => clients[n % 2]!.athletes.get(`i${n}`))
+    );
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(maxActive).toBe(2);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  test("a 429 with Retry-After pauses requests from other clients", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/limited`, () =>
+        new HttpResponse(null, { status: 429, headers: { "Retry-After": "0.2" } })
+      ),
+      http.get(`${baseUrl}/athlete/other`, () => HttpResponse.json({ id: "other" }))
+    );
+
+    const limiter = new RateLimiter();
+    const a = new IntervalsClient({ auth: { type: "apiKey", apiKey: "a" }, rateLimit: limiter, retry: { limit: 0 } });
+    const b = new IntervalsClient({ auth: { type: "apiKey", apiKey: "b" }, rateLimit: limiter });
+
+    expect(await a.athletes.get("limited")).toMatchObject({ ok: false, error: { kind: "RateLimit" } });
+
+    const start = Date.now();
+    expect((await b.athletes.get("other")).ok).toBe(true);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+  });
+});
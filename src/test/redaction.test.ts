@@ -0,0 +1,108 @@
+import { describe, expect, test, vi } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient, redact, redactError } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: { limit: 0 }, ...overrides };
+}
+
+const errorBody = {
+  error: "Activity i987654 of athlete i42 (rider@example.com) not found",
+  athlete_id: "i42",
+  activityId: 123,
+  access_token: "abc.def",
+  detail: { header: "Bearer s3cr3t-token", name: "Morning Ride" },
+  items: ["contact coach@example.org"],
+};
+
+describe("redact", () => {
+  test("masks IDs, emails and tokens by default", () => {
+    expect(redact(errorBody)).toEqual({
+      error: "Activity [REDACTED] of athlete [REDACTED] ([REDACTED]) not found",
+      athlete_id: "[REDACTED]",
+      activityId: "[REDACTED]",
+      access_token: "[REDACTED]",
+      detail: { header: "[REDACTED]", name: "Morning Ride" },
+      items: ["contact [REDACTED]"],
+    });
+  });
+
+  test("follows the policy", () => {
+    const redacted = redact(errorBody, {
+      ids: false,
+      tokens: false,
+      keys: ["name"],
+      patterns: [/Morning|Activity/],
+      replacement: "***",
+    });
+    expect(redacted).toEqual({
+      error: "*** i987654 of athlete i42 (***) not found",
+      athlete_id: "i42",
+      activityId: 123,
+      access_token: "abc.def",
+      detail: { header: "Bearer s3cr3t-token", name: "***" },
+      items: ["contact ***"],
+    });
+  });
+
+  test("redactError only touches the body", () => {
+    const error = { kind: "NotFound", status: 404, message: "HTTP 404 Not Found", body: "athlete i42" } as const;
+    expect(redactError(error)).toEqual({ ...error, body: "athlete [REDACTED]" });
+    expect(error.body).toBe("athlete i42");
+    const timeout = { kind: "Timeout", message: "Timed out" } as const;
+    expect(redactError(timeout)).toBe(timeout);
+  });
+});
+
+describe("hook payloads", () => {
+  test("include the declared route template and operation", async () => {
+    server.use(http.get(`${baseUrl}/activity/:id/streams.json`, () => HttpResponse.json([])));
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onRequest, onResponse } }));
+
+    await client.activities.getStreams("i987654");
+
+    const declared = {
+      path: "activity/i987654/streams.json",
+      route: "activity/{id}/streams.json",
+      operation: "activities.getStreams",
+    };
+    expect(onRequest).toHaveBeenCalledWith(expect.objectContaining(declared));
+    expect(onResponse).toHaveBeenCalledWith(expect.objectContaining(declared));
+  });
+
+  test("onError gets the ApiError with a redacted body", async () => {
+    server.use(http.get(`${baseUrl}/activity/:id`, () => HttpResponse.json(errorBody, { status: 404 })));
+    const onError = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onError } }));
+
+    const result = await client.activities.get("i987654");
+
+    expect(result).toMatchObject({ ok: false, error: { kind: "NotFound", body: errorBody } });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        route: "activity/{id}",
+        operation: "activities.get",
+        apiError: expect.objectContaining({ kind: "NotFound", status: 404, body: redact(errorBody) }),
+      })
+    );
+  });
+
+  test("redaction can be configured or turned off", async () => {
+    server.use(http.get(`${baseUrl}/activity/:id`, () => HttpResponse.json(errorBody, { status: 404 })));
+    const onError = vi.fn();
+
+    await new IntervalsClient(config({ hooks: { onError }, redaction: { ids: false } })).activities.get(1);
+    await new IntervalsClient(config({ hooks: { onError }, redaction: false })).activities.get(1);
+
+    const [custom, off] = onError.mock.calls.map(([info]) => info.apiError.body);
+    expect(custom).toMatchObject({ athlete_id: "i42", access_token: "[REDACTED]" });
+    expect(off).toEqual(errorBody);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, test, vi } from "vitest";
+import { delay, http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient, RateLimiter } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const fastRetry = { limit: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry, ...overrides };
+}
+
+describe("request overrides", () => {
+  test("an aborted signal cancels the request with an Aborted error", async () => {
+    server.use(
+      http.get(`${baseUrl}/activity/:id/fit-file`, async () => {
+        await delay(500);
+        return HttpResponse.arrayBuffer(new ArrayBuffer(8));
+      })
+    );
+    const onError = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onError } }));
+    const controller = new AbortController();
+
+    const pending = client.activities.downloadFitFile("i1", { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    expect(await pending).toMatchObject({ ok: false, error: { kind: "Aborted" } });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  test("aborting during a retry delay stops retrying", async () => {
+    let hits = 0;
+    server.use(
+      http.get(`${baseUrl}/athlete/0`, () => {
+        hits++;
+        return new HttpResponse(null, { status: 503 });
+      })
+    );
+    const client = new IntervalsClient(config({ retry: { ...fastRetry, initialDelayMs: 1000, maxDelayMs: 1000 } }));
+    const controller = new AbortController();
+
+    const pending = client.athletes.get(0, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    expect(await pending).toMatchObject({ ok: false, error: { kind: "Aborted" } });
+    expect(hits).toBe(1);
+  });
+
+  test("aborting while queued in the rate limiter frees the place", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/:id`, async ({ params }) => {
+        await delay(50);
+        return HttpResponse.json({ id: params.id });
+      })
+    );
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const client = new IntervalsClient(config({ rateLimit: limiter }));
+    const controller = new AbortController();
+
+    const first = client.athletes.get("i1");
+    const second = client.athletes.get("i2", { signal: controller.signal });
+    controller.abort();
+
+    expect(await second).toMatchObject({ ok: false, error: { kind: "Aborted" } });
+    expect(limiter.pending).toBe(0);
+    expect((await first).ok).toBe(true);
+  });
+
+  test("timeoutMs overrides the client timeout", async () => {
+    server.use(
+      http.get(`${baseUrl}/athlete/0`, async () => {
+        await delay(100);
+        return HttpResponse.json({ id: "i0" });
+      })
+    );
+    const client = new IntervalsClient(config({ timeoutMs: 30, retry: { limit: 0 } }));
+
+    expect(await client.athletes.get(0)).toMatchObject({ ok: false, error: { kind: "Timeout" } });
+    expect((await client.athletes.get(0, { timeoutMs: 1000 })).ok).toBe(true);
+  });
+
+  test("extra headers are sent without replacing authorization", async () => {
+    let headers: Headers | undefined;
+    server.use(
+      http.get(`${baseUrl}/athlete/0/wellness/2024-01-01`, ({ request }) => {
+        headers = request.headers;
+        return HttpResponse.json({ id: "2024-01-01" });
+      })
+    );
+    const client = new IntervalsClient(config());
+
+    await client.wellness.get(0, "2024-01-01", { headers: { "x-request-id": "req-1" } });
+    expect(headers?.get("x-request-id")).toBe("req-1");
+    expect(headers?.get("authorization")).toMatch(/^Basic /);
+  });
+
+  test("retry overrides apply to a single call", async () => {
+    let hits = 0;
+    server.use(
+      http.get(`${baseUrl}/athlete/0`, () => {
+        hits++;
+        return new HttpResponse(null, { status: 503 });
+      })
+    );
+    const client = new IntervalsClient(config());
+
+    expect(await client.athletes.get(0, { retry: false })).toMatchObject({ ok: false, error: { status: 503 } });
+    expect(hits).toBe(1);
+
+    hits = 0;
+    await client.athletes.get(0);
+    expect(hits).toBe(3);
+  });
+
+  test("context is passed to every hook", async () => {
+    let hits = 0;
+    server.use(
+      http.get(`${baseUrl}/athlete/0`, () =>
+        hits++ === 0 ? new HttpResponse(null, { status: 503 }) : HttpResponse.json({ id: "i0" })
+      )
+    );
+    const seen: unknown[] = [];
+    const record = (info: { context?: Record<string, unknown> }) => {
+      seen.push(info.context);
+    };
+    const client = new IntervalsClient(
+      config({ hooks: { onRequest: record, onRetry: record, onResponse: record } })
+    );
+
+    await client.athletes.get(0, { context: { traceId: "t-1" } });
+    expect(seen).toEqual([{ traceId: "t-1" }, { traceId: "t-1" }, { traceId: "t-1" }]);
+  });
+
+  test("iterators forward overrides to every page", async () => {
+    const requestIds: (string | null)[] = [];
+    server.use(
+      http.get(`${baseUrl}/athlete/0/events`, ({ request }) => {
+        requestIds.push(request.headers.get("x-request-id"));
+        return HttpResponse.json([]);
+      })
+    );
+    const client = new IntervalsClient(config());
+
+    const iterator = client.events.iterate(
+      0,
+      { oldest: "2024-01-01", newest: "2024-01-20", windowDays: 7 },
+      { headers: { "x-request-id": "req-2" } }
+    );
+    for await (const _ of iterator) {
+      // drain
+    }
+    expect(requestIds).toEqual(["req-2", "req-2", "req-2"]);
+  });
+});
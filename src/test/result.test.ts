@@ -0,0 +1,87 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+
+import {
+  all,
+  allSettled,
+  andThen,
+  chain,
+  err,
+  map,
+  mapErr,
+  match,
+  ok,
+  type Result,
+  unwrapOr,
+} from "../index";
+
+const good: Result<number, string> = ok(2);
+const bad: Result<number, string> = err("boom");
+
+describe("Result combinators", () => {
+  test("map and mapErr transform one side and pass the other through", () => {
+    expect(map(good, (n) => n * 10)).toEqual(ok(20));
+    expect(map(bad, (n) => n * 10)).toEqual(err("boom"));
+    expect(mapErr(bad, (e) => e.length)).toEqual(err(4));
+    expect(mapErr(good, (e) => e.length)).toEqual(ok(2));
+  });
+
+  test("andThen chains fallible steps", () => {
+    const half = (n: number): Result<number, "odd"> => (n % 2 === 0 ? ok(n / 2) : err("odd"));
+
+    expect(andThen(good, half)).toEqual(ok(1));
+    expect(andThen(andThen(good, half), half)).toEqual(err("odd"));
+    expect(andThen(bad, half)).toEqual(err("boom"));
+    expectTypeOf(andThen(good, half)).toEqualTypeOf<Result<number, string | "odd">>();
+  });
+
+  test("unwrapOr and match", () => {
+    expect(unwrapOr(good, 0)).toBe(2);
+    expect(unwrapOr(bad, null)).toBeNull();
+    const summary = (r: Result<number, string>) =>
+      match(r, { ok: (n) => `got ${n}`, err: (e) => `failed: ${e}` });
+    expect(summary(good)).toBe("got 2");
+    expect(summary(bad)).toBe("failed: boom");
+  });
+
+  test("all keeps tuple types and stops at the first error", () => {
+    const both = all([ok(1), ok("a")]);
+    expectTypeOf(both).toEqualTypeOf<Result<[number, string], never>>();
+    expect(both).toEqual(ok([1, "a"]));
+
+    expect(all([good, bad, err("second")])).toEqual(err("boom"));
+    expect(all([])).toEqual(ok([]));
+  });
+
+  test("allSettled collects every value and error", () => {
+    expect(allSettled([good, bad, ok(3), err("again")])).toEqual({ values: [2, 3], errors: ["boom", "again"] });
+  });
+});
+
+describe("chain", () => {
+  test("chains sync and async steps", async () => {
+    const result = await chain(Promise.resolve(good))
+      .map(async (n) => n + 1)
+      .andThen(async (n) => (n > 2 ? ok(String(n)) : err("small")))
+      .map((s) => `${s}!`);
+
+    expect(result).toEqual(ok("3!"));
+  });
+
+  test("skips the remaining steps after an error", async () => {
+    let called = false;
+    const result = chain(bad)
+      .map((n) => {
+        called = true;
+        return n;
+      })
+      .mapErr((e) => new Error(e));
+
+    expect(await result.unwrapOr(-1)).toBe(-1);
+    expect(await result.match({ ok: () => "ok", err: (e) => e.message })).toBe("boom");
+    expect(called).toBe(false);
+  });
+
+  test("passes rejections through", async () => {
+    await expect(chain(Promise.reject(new Error("offline"))).map((n) => n)).rejects.toThrow("offline");
+  });
+});
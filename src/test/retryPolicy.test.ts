@@ -0,0 +1,164 @@
+import { describe, expect, test, vi } from "vitest";
+import { delay, http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsHttpClient } from "../http/httpClient";
+import { IntervalsClient } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+const fastRetry = { limit: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+function config(overrides: Partial<IntervalsClientConfig> = {}): IntervalsClientConfig {
+  return { auth: { type: "apiKey", apiKey: "test" }, retry: fastRetry, ...overrides };
+}
+
+/** Responds with `failures` in order, then 200 `{ ok: true }` */
+function sequence(method: "get" | "post", path: string, failures: (() => Response | Promise<Response>)[]) {
+  let hits = 0;
+  server.use(
+    http[method](`${baseUrl}/${path}`, async () => {
+      const failure = failures[hits++];
+      return failure ? failure() : HttpResponse.json({ ok: true });
+    })
+  );
+  return () => hits;
+}
+
+const status = (code: number) => () => new HttpResponse(null, { status: code });
+
+describe("retry policy", () => {
+  test("retries 502/503/504 for GET and reports them to onRetry", async () => {
+    const hits = sequence("get", "athlete/0", [status(503), status(502)]);
+    const onRetry = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onRetry } }));
+
+    const result = await client.athletes.get(0);
+    expect(result.ok).toBe(true);
+    expect(hits()).toBe(3);
+    expect(onRetry.mock.calls.map(([info]) => info.reason)).toEqual(["HTTP 503", "HTTP 502"]);
+    expect(onRetry.mock.calls[0]?.[0]).toMatchObject({ attempt: 1, maxAttempts: 3, delayMs: 1 });
+  });
+
+  test("cancels the body of a retried response before backing off", async () => {
+    const cancel = vi.spyOn(ReadableStream.prototype, "cancel");
+    const unread = () => new HttpResponse("busy", { status: 503 });
+    const hits = sequence("get", "athlete/0", [unread, unread]);
+    const client = new IntervalsClient(config());
+
+    try {
+      expect((await client.athletes.get(0)).ok).toBe(true);
+      expect(hits()).toBe(3);
+      expect(cancel).toHaveBeenCalledTimes(2);
+    } finally {
+      cancel.mockRestore();
+    }
+  });
+
+  test("returns the last error once retries are exhausted", async () => {
+    const hits = sequence("get", "athlete/0", [status(504), status(504), status(504)]);
+    const client = new IntervalsClient(config());
+
+    const result = await client.athletes.get(0);
+    expect(result).toMatchObject({ ok: false, error: { kind: "Http", status: 504 } });
+    expect(hits()).toBe(3);
+  });
+
+  test("does not retry statuses outside statusCodes", async () => {
+    const hits = sequence("get", "athlete/0", [status(500)]);
+    const client = new IntervalsClient(config());
+
+    expect(await client.athletes.get(0)).toMatchObject({ ok: false, error: { kind: "Http", status: 500 } });
+    expect(hits()).toBe(1);
+
+    const retrying500 = new IntervalsClient(config({ retry: { ...fastRetry, statusCodes: [500] } }));
+    sequence("get", "athlete/0", [status(500)]);
+    expect((await retrying500.athletes.get(0)).ok).toBe(true);
+  });
+
+  test("retries network errors for GET", async () => {
+    const hits = sequence("get", "athlete/0", [() => HttpResponse.error()]);
+    const onRetry = vi.fn();
+    const client = new IntervalsClient(config({ hooks: { onRetry } }));
+
+    expect((await client.athletes.get(0)).ok).toBe(true);
+    expect(hits()).toBe(2);
+    expect(onRetry.mock.calls[0]?.[0].reason).toMatch(/^Network error/);
+  });
+
+  test("retries timeouts unless excluded from errorKinds", async () => {
+    const slow = async () => {
+      await delay(200);
+      return HttpResponse.json({ ok: true });
+    };
+
+    const hits = sequence("get", "athlete/0", [slow]);
+    const client = new IntervalsClient(config({ timeoutMs: 50 }));
+    expect((await client.athletes.get(0)).ok).toBe(true);
+    expect(hits()).toBe(2);
+
+    const noTimeoutRetry = new IntervalsClient(
+      config({ timeoutMs: 50, retry: { ...fastRetry, errorKinds: ["Network"] } })
+    );
+    const hits2 = sequence("get", "athlete/0", [slow]);
+    expect(await noTimeoutRetry.athletes.get(0)).toMatchObject({ ok: false, error: { kind: "Timeout" } });
+    expect(hits2()).toBe(1);
+  });
+
+  test("does not retry non-idempotent methods by default, but still retries 429", async () => {
+    const httpClient = new IntervalsHttpClient(config());
+
+    const hits = sequence("post", "athlete/0/events", [status(503)]);
+    const result = await httpClient.requestJson("athlete/0/events", { method: "POST", json: {} });
+    expect(result).toMatchObject({ ok: false, error: { kind: "Http", status: 503 } });
+    expect(hits()).toBe(1);
+
+    const rateLimited = sequence("post", "athlete/0/events", [status(429)]);
+    expect((await httpClient.requestJson("athlete/0/events", { method: "POST", json: {} })).ok).toBe(true);
+    expect(rateLimited()).toBe(2);
+  });
+
+  test("per-request overrides mark a request idempotent or disable retries", async () => {
+    const httpClient = new IntervalsHttpClient(config());
+
+    const hits = sequence("post", "athlete/0/events", [status(503)]);
+    const result = await httpClient.requestJson("athlete/0/events", {
+      method: "POST",
+      json: {},
+      retry: { idempotent: true },
+    });
+    expect(result.ok).toBe(true);
+    expect(hits()).toBe(2);
+
+    const noRetry = sequence("get", "athlete/0", [status(429)]);
+    expect(await httpClient.requestJson("athlete/0", { retry: false })).toMatchObject({
+      ok: false,
+      error: { kind: "RateLimit" },
+    });
+    expect(noRetry()).toBe(1);
+
+    const limited = sequence("get", "athlete/0", [status(503), status(503)]);
+    expect(await httpClient.requestJson("athlete/0", { retry: { limit: 1 } })).toMatchObject({ ok: false });
+    expect(limited()).toBe(2);
+  });
+
+  test("a throwing onRetry hook cancels the retry", async () => {
+    const hits = sequence("get", "athlete/0", [status(503)]);
+    const client = new IntervalsClient(
+      config({
+        hooks: {
+          onRetry: () => {
+            throw new Error("stop");
+          },
+        },
+      })
+    );
+
+    expect(await client.athletes.get(0)).toMatchObject({
+      ok: false,
+      error: { kind: "Unknown", message: expect.stringMatching(/stop/) },
+    });
+    expect(hits()).toBe(1);
+  });
+});
@@ -181,6 +181,8 @@ describe("Phase 4: Robustness & Ergonomics", () => {
       expect(onRequest).toHaveBeenCalledWith({
         method: "GET",
         path: "athlete/i123",
+        route: "athlete/{id}",
+        operation: "athletes.get",
         options: undefined,
       });
     });
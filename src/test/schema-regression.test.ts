@@ -1,6 +1,19 @@
 import { describe, expect, test } from 'vitest';
-import { decodeActivities, decodeActivity } from '../schemas/activity';
-import { decodeEvents, decodeEvent } from '../schemas/event';
+import {
+  decodeActivities,
+  decodeActivity,
+  decodeActivityMap,
+  decodeActivitySegments,
+  decodeWeatherSummary,
+  decodeBestEfforts,
+  decodeHistogram,
+  decodePowerVsHR,
+  decodeTimeAtHR,
+  decodePowerSpikeModel,
+  decodeHRLoadModel,
+} from '../schemas/activity';
+import { decodeEvents, decodeEvent, encodeEventInput } from '../schemas/event';
+import { decodeWorkoutDoc, encodeWorkoutDoc, isWorkoutRepeat } from '../schemas/workout';
 import { decodeAthlete, decodeWithSportSettings, decodeAthleteProfile, decodeAthleteSummary } from '../schemas/athlete';
 import {
   activityFixtures,
@@ -58,6 +71,86 @@ describe('Schema Regression Tests', () => {
     });
   });
 
+  describe('Activity Analysis Schemas', () => {
+    test('parses map fixture with null latlng gaps', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.map);
+      expect(() => decodeActivityMap(rawFixture)).not.toThrow();
+      const result = decodeActivityMap(rawFixture);
+      expect(result.bounds).toHaveLength(2);
+      expect(result.latlngs?.[2]).toBeNull();
+    });
+
+    test('parses segments fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.segments);
+      expect(() => decodeActivitySegments(rawFixture)).not.toThrow();
+      const result = decodeActivitySegments(rawFixture);
+      expect(result).toHaveLength(1);
+      expect(result[0]?.segmentId).toBe(998877);
+      expect(result[0]?.prRank).toBe(2);
+    });
+
+    test('parses weather summary fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.weatherSummary);
+      expect(() => decodeWeatherSummary(rawFixture)).not.toThrow();
+      const result = decodeWeatherSummary(rawFixture);
+      expect(result.averageWeatherTemp).toBe(18);
+      expect(result.headwindPercent).toBe(42);
+    });
+
+    test('parses best efforts fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.bestEfforts);
+      expect(() => decodeBestEfforts(rawFixture)).not.toThrow();
+      const result = decodeBestEfforts(rawFixture);
+      expect(result.efforts).toHaveLength(3);
+      expect(result.efforts?.[0]?.startIndex).toBe(1820);
+    });
+
+    test('parses power and HR histogram fixtures', () => {
+      const power = decodeHistogram(transformKeysToSnake(activityFixtures.powerHistogram));
+      const hr = decodeHistogram(transformKeysToSnake(activityFixtures.hrHistogram));
+      expect(power).toHaveLength(4);
+      expect(power[1]?.secs).toBe(1450);
+      expect(hr[2]?.min).toBe(160);
+    });
+
+    test('parses power vs HR fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.powerVsHR);
+      expect(() => decodePowerVsHR(rawFixture)).not.toThrow();
+      const result = decodePowerVsHR(rawFixture);
+      expect(result.bucketSize).toBe(300);
+      expect(result.powerHrFirst).toBe(1.62);
+      expect(result.series?.[1]?.watts).toBe(262);
+    });
+
+    test('parses time at HR fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.timeAtHR);
+      expect(() => decodeTimeAtHR(rawFixture)).not.toThrow();
+      const result = decodeTimeAtHR(rawFixture);
+      expect(result.minBpm).toBe(150);
+      expect(result.cumulativeSecs).toHaveLength(5);
+    });
+
+    test('parses power spike model fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.powerSpikeModel);
+      expect(() => decodePowerSpikeModel(rawFixture)).not.toThrow();
+      const result = decodePowerSpikeModel(rawFixture);
+      expect(result.spikeCount).toBe(1);
+      expect(result.spikes?.[0]?.startIndex).toBe(3021);
+    });
+
+    test('parses HR load model fixture', () => {
+      const rawFixture = transformKeysToSnake(activityFixtures.hrLoadModel);
+      expect(() => decodeHRLoadModel(rawFixture)).not.toThrow();
+      const result = decodeHRLoadModel(rawFixture);
+      expect(result.type).toBe('HRSS');
+      expect(result.trimpFactor).toBe(1.92);
+    });
+
+    test('rejects histogram that is not an array', () => {
+      expect(() => decodeHistogram({ min: 0, max: 25, secs: 10 })).toThrow();
+    });
+  });
+
   describe('Event Schema', () => {
     test('parses planned workout fixture', () => {
       const rawFixture = transformKeysToSnake(eventFixtures.plannedWorkout);
@@ -69,6 +162,51 @@ describe('Schema Regression Tests', () => {
       expect(result.icuFtp).toBe(265);
     });
 
+    test('decodes structured workout_doc with repeats, ramps and targets', () => {
+      const rawFixture = transformKeysToSnake(eventFixtures.plannedWorkout);
+      const result = decodeEvent(rawFixture);
+      const steps = result.workoutDoc?.steps ?? [];
+      expect(steps).toHaveLength(3);
+      expect(steps[0]?.ramp).toBe(true);
+      expect(steps[0]?.power).toEqual({ start: 50, end: 75, units: '%ftp' });
+      const repeat = steps[1];
+      expect(repeat && isWorkoutRepeat(repeat)).toBe(true);
+      expect(repeat?.steps?.[0]?.cadence?.value).toBe(90);
+      expect(repeat?.steps?.[1]?.hr?.units).toBe('%lthr');
+    });
+
+    test('rejects workout_doc with malformed steps', () => {
+      expect(() =>
+        decodeWorkoutDoc({ steps: [{ duration: 'ten minutes' }] })
+      ).toThrow();
+      expect(() =>
+        decodeWorkoutDoc({ steps: [{ reps: 2, steps: [{ power: { value: 'hard' } }] }] })
+      ).toThrow();
+    });
+
+    test('accepts workout_doc targets it does not know', () => {
+      expect(decodeWorkoutDoc({ target: 'CADENCE', steps: [] })).toEqual({ target: 'CADENCE', steps: [] });
+    });
+
+    test('workout_doc round-trips through the encoder', () => {
+      const doc = eventFixtures.plannedWorkout.workoutDoc!;
+      const encoded = encodeWorkoutDoc({ ...doc, maxHr: 190, description: null });
+      expect(encoded.max_hr).toBe(190);
+      expect('description' in encoded).toBe(false);
+      expect(decodeWorkoutDoc(encoded)).toEqual({ ...doc, maxHr: 190 });
+    });
+
+    test('encodes event input with workout_doc', () => {
+      const body = encodeEventInput({
+        startDateLocal: '2024-01-20',
+        workoutDoc: { steps: [{ duration: 60, untilLapPress: true }] },
+      });
+      expect(body).toEqual({
+        start_date_local: '2024-01-20',
+        workout_doc: { steps: [{ duration: 60, until_lap_press: true }] },
+      });
+    });
+
     test('parses note event fixture', () => {
       const rawFixture = transformKeysToSnake(eventFixtures.note);
       expect(() => decodeEvent(rawFixture)).not.toThrow();
@@ -0,0 +1,89 @@
+import { describe, expect, test, vi } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import type { IntervalsClientConfig } from "../config";
+import { IntervalsClient, SchemaDriftError, findSchemaDrift, type SchemaDriftReport } from "../index";
+import { WellnessListSchema } from "../schemas/wellness";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+function client(overrides: Partial<IntervalsClientConfig> = {}) {
+  return new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" }, retry: { limit: 0 }, ...overrides });
+}
+
+describe("findSchemaDrift", () => {
+  test("finds unknown keys, unexpected nulls and type mismatches, each once", () => {
+    const payload = [
+      { id: "2024-01-01", ctl: 40, hrvScore: 71, sportInfo: [{ type: "Ride", eftp: "250" }] },
+      { id: "2024-01-02", ctl: "41", hrvScore: 68 },
+      { id: null, ctl: null },
+    ];
+
+    expect(findSchemaDrift(WellnessListSchema, payload)).toEqual([
+      { type: "typeMismatch", path: "[].sportInfo[].eftp", expected: "number", received: "string" },
+      { type: "unknownKey", path: "[].hrvScore", received: "number" },
+      { type: "typeMismatch", path: "[].ctl", expected: "number", received: "string" },
+      { type: "unexpectedNull", path: "[].id", expected: "string", received: "null" },
+    ]);
+  });
+
+  test("finds nothing in a payload that matches", () => {
+    expect(findSchemaDrift(WellnessListSchema, [{ id: "2024-01-01", ctl: null, sportInfo: [] }])).toEqual([]);
+  });
+});
+
+describe("schemaMode", () => {
+  const wellness = [{ id: "2024-01-01", ctl: 40, hrvScore: 71 }];
+
+  test("report passes the drift with the request to onSchemaDrift and still decodes", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/wellness`, () => HttpResponse.json(wellness)));
+    const reports: SchemaDriftReport[] = [];
+
+    const result = await client({ schemaMode: "report", onSchemaDrift: (r) => reports.push(r) }).wellness.list(0);
+    expect(result).toMatchObject({ ok: true, value: [{ id: "2024-01-01", hrvScore: 71 }] });
+    expect(reports).toEqual([
+      {
+        schema: "WellnessList",
+        operation: "wellness.list",
+        route: "athlete/{id}/wellness",
+        issues: [{ type: "unknownKey", path: "[].hrvScore", received: "number" }],
+      },
+    ]);
+  });
+
+  test("report ignores errors thrown by onSchemaDrift", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/wellness`, () => HttpResponse.json(wellness)));
+    const onSchemaDrift = vi.fn(() => {
+      throw new Error("reporter down");
+    });
+
+    const result = await client({ schemaMode: "report", onSchemaDrift }).wellness.list(0);
+    expect(result.ok).toBe(true);
+    expect(onSchemaDrift).toHaveBeenCalledOnce();
+  });
+
+  test("strict fails with a Schema error listing the drift", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/wellness`, () => HttpResponse.json(wellness)));
+
+    const result = await client({ schemaMode: "strict" }).wellness.list(0);
+    expect(result).toMatchObject({
+      ok: false,
+      error: {
+        kind: "Schema",
+        issues: [{ type: "unknownKey", path: "[].hrvScore" }],
+        request: { operation: "wellness.list" },
+      },
+    });
+    expect(!result.ok && result.error.kind === "Schema" && result.error.cause).toBeInstanceOf(SchemaDriftError);
+  });
+
+  test("loose is the default and reports nothing", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id/wellness`, () => HttpResponse.json(wellness)));
+    const onSchemaDrift = vi.fn();
+
+    const result = await client({ onSchemaDrift }).wellness.list(0);
+    expect(result.ok).toBe(true);
+    expect(onSchemaDrift).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'vitest';
+
+import { decodeTypedActivityStreams } from '../schemas/activity';
+import { alignStreams, indexAtTime, sliceStreams } from '../utils/streams';
+
+const streams = decodeTypedActivityStreams([
+  { type: 'time', data: [0, 1, 2, 4, 5] },
+  {
+    type: 'watts',
+    data: [200, 210, 1900, 230, 240],
+    anomalies: [{ start_index: 2, end_index: 3, value: 1900 }],
+  },
+  { type: 'heartrate', data: [140, 141, 142] },
+  { type: 'latlng', data: [1, 2, 3, 4, 5], data2: [10, 20, 30, 40, 50] },
+]);
+
+describe('alignStreams()', () => {
+  test('returns one row per time sample', () => {
+    const rows = alignStreams(streams);
+    expect(rows).toHaveLength(5);
+    expect(rows[3]).toEqual({ index: 3, time: 4, watts: 230, latlng: [4, 40] });
+    expect(rows[0]?.heartrate).toBe(140);
+  });
+
+  test('falls back to index as time without a time stream', () => {
+    const rows = alignStreams(decodeTypedActivityStreams([{ type: 'watts', data: [1, 2] }]));
+    expect(rows.map((r) => r.time)).toEqual([0, 1]);
+  });
+});
+
+describe('indexAtTime()', () => {
+  test('finds the first sample at or after the given second', () => {
+    expect(indexAtTime(streams, 0)).toBe(0);
+    expect(indexAtTime(streams, 3)).toBe(3);
+    expect(indexAtTime(streams, 99)).toBe(-1);
+  });
+
+  test('carries the previous time over gaps in the time stream', () => {
+    const gappy = decodeTypedActivityStreams([
+      { type: 'time', data: [null, 1, 2, null, 5, 6] },
+      { type: 'watts', data: [1, 2, 3, 4, 5, 6] },
+    ]);
+    expect(gappy.time?.data).toEqual([1, 1, 2, 2, 5, 6]);
+    expect(indexAtTime(gappy, 3)).toBe(4);
+    expect(indexAtTime(gappy, 6)).toBe(5);
+  });
+});
+
+describe('decodeTypedActivityStreams()', () => {
+  test('accepts stream data of any shape', () => {
+    const typed = decodeTypedActivityStreams([
+      { type: 'watts', data: [100, 'n/a', { x: 1 }] },
+      { type: 'cadence', data: 'unavailable' },
+      { type: 'custom_field', custom: true, data: { 0: [1, 'x'], 2: true } },
+    ]);
+    expect(typed.watts?.data).toEqual([100, null, null]);
+    expect(typed.cadence?.data).toEqual([]);
+    expect(typed.others['customField']?.data).toEqual([[1, null], null, null]);
+  });
+});
+
+describe('sliceStreams()', () => {
+  test('slices every stream to the interval and rebases anomalies', () => {
+    const sliced = sliceStreams(streams, { start: 1, end: 4 });
+    expect(sliced.time?.data).toEqual([1, 2, 4]);
+    expect(sliced.watts?.data).toEqual([210, 1900, 230]);
+    expect(sliced.watts?.anomalies).toEqual([{ startIndex: 1, endIndex: 2, value: 1900 }]);
+    expect(sliced.heartrate?.data).toEqual([141, 142]);
+    expect(sliced.latlng?.data).toEqual([[2, 20], [3, 30], [4, 40]]);
+  });
+
+  test('open-ended interval keeps the tail', () => {
+    const sliced = sliceStreams(streams, { start: 3 });
+    expect(sliced.watts?.data).toEqual([230, 240]);
+    expect(sliced.watts?.anomalies).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "vitest";
+import { http, HttpResponse } from "msw";
+
+import { IntervalsApiError, IntervalsClient, err, ok, unwrap } from "../index";
+import { server } from "./mswServer";
+
+const baseUrl = "https://intervals.icu/api/v1";
+
+function client() {
+  return new IntervalsClient({ auth: { type: "apiKey", apiKey: "test" }, retry: { limit: 0 } });
+}
+
+describe("unwrap", () => {
+  test("returns the value or throws IntervalsApiError", () => {
+    expect(unwrap(ok(1))).toBe(1);
+
+    const error = { kind: "NotFound", status: 404, message: "HTTP 404 Not Found", body: { error: "gone" } } as const;
+    try {
+      unwrap(err(error));
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(IntervalsApiError);
+      expect(e).toBeInstanceOf(Error);
+      expect(e).toMatchObject({ name: "IntervalsApiError", message: "HTTP 404 Not Found", kind: "NotFound", status: 404 });
+      expect((e as IntervalsApiError).error).toBe(error);
+    }
+  });
+
+  test("keeps the cause of network errors", () => {
+    const cause = new TypeError("fetch failed");
+    const thrown = new IntervalsApiError({ kind: "Network", message: "fetch failed", cause });
+    expect(thrown.cause).toBe(cause);
+    expect(thrown.status).toBeUndefined();
+  });
+});
+
+describe("client.unwrap()", () => {
+  test("methods resolve to the decoded value", async () => {
+    server.use(http.get(`${baseUrl}/athlete/:id`, () => HttpResponse.json({ id: "i1", name: "Athlete" })));
+
+    const athlete = await client().unwrap().athletes.get(0);
+    expect(athlete).toMatchObject({ id: "i1", name: "Athlete" });
+  });
+
+  test("methods throw IntervalsApiError on failure", async () => {
+    server.use(http.get(`${baseUrl}/activity/:id`, () => HttpResponse.json({ error: "gone" }, { status: 404 })));
+
+    const failure = client().unwrap().activities.get("i9");
+    await expect(failure).rejects.toBeInstanceOf(IntervalsApiError);
+    await expect(failure).rejects.toMatchObject({ kind: "NotFound", error: { body: { error: "gone" } } });
+  });
+
+  test("iterators yield values and throw on the first error", async () => {
+    let calls = 0;
+    server.use(
+      http.get(`${baseUrl}/athlete/:id/wellness`, () =>
+        calls++ === 0 ? HttpResponse.json([{ id: "2024-01-01" }]) : new HttpResponse(null, { status: 500 })
+      )
+    );
+
+    const seen: string[] = [];
+    const iterate = async () => {
+      for await (const day of client()
+        .unwrap()
+        .wellness.iterate(0, { oldest: "2024-01-01", newest: "2024-03-31", windowDays: 30 })) {
+        seen.push(day.id);
+      }
+    };
+
+    await expect(iterate()).rejects.toMatchObject({ kind: "Http", status: 500 });
+    expect(seen).toEqual(["2024-01-01"]);
+  });
+});
@@ -0,0 +1,177 @@
+import { Readable } from 'node:stream';
+import { describe, expect, test, vi } from 'vitest';
+
+import { decodeWebhookEvent } from '../schemas/webhook';
+import { createWebhookHandler, decodeWebhookPayload, verifyWebhookSecret } from '../webhooks/handler';
+import { toExpressHandler, toNodeHandler, type NodeWebhookRequest } from '../webhooks/node';
+
+const secret = 'shhh';
+
+const activity = { id: 'i42', type: 'Ride', start_date_local: '2024-01-15T08:30:00', icu_training_load: 80 };
+
+const payload = {
+  secret,
+  events: [
+    { athlete_id: 'i123', type: 'ACTIVITY_ANALYZED', timestamp: '2024-01-15T10:00:00Z', activity },
+    {
+      athlete_id: 'i123',
+      type: 'CALENDAR_UPDATED',
+      events: [{ id: 7, start_date_local: '2024-01-16T00:00:00', name: 'Z2' }],
+      deleted_events: [5, 6],
+    },
+    { athlete_id: 'i123', type: 'WELLNESS_UPDATED', records: [{ id: '2024-01-15', restingHR: 50 }] },
+    { athlete_id: 'i123', type: 'SPORT_SETTINGS_UPDATED', sport_settings: [] },
+  ],
+};
+
+function post(body: unknown, method = 'POST') {
+  return new Request('https://example.com/webhooks', {
+    method,
+    headers: { 'content-type': 'application/json' },
+    ...(method === 'POST' ? { body: typeof body === 'string' ? body : JSON.stringify(body) } : {}),
+  });
+}
+
+describe('webhook decoding', () => {
+  test('decodes events into the typed union', () => {
+    const result = decodeWebhookPayload(payload, secret);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.map((e) => e.type)).toEqual([
+      'ACTIVITY_ANALYZED',
+      'CALENDAR_UPDATED',
+      'WELLNESS_UPDATED',
+      'UNKNOWN',
+    ]);
+    expect(result.value[0]).toMatchObject({
+      athleteId: 'i123',
+      timestamp: '2024-01-15T10:00:00Z',
+      activity: { id: 'i42', startDateLocal: '2024-01-15T08:30:00', icuTrainingLoad: 80 },
+    });
+    expect(result.value[1]).toMatchObject({ events: [{ id: 7, name: 'Z2' }], deletedEvents: [5, 6] });
+    expect(result.value[2]).toMatchObject({ records: [{ id: '2024-01-15', restingHR: 50 }] });
+    expect(result.value[3]).toMatchObject({ eventType: 'SPORT_SETTINGS_UPDATED', payload: { sport_settings: [] } });
+  });
+
+  test('rejects a wrong secret and malformed events', () => {
+    expect(decodeWebhookPayload({ ...payload, secret: 'nope' }, secret)).toMatchObject({
+      ok: false,
+      error: { kind: 'Unauthorized' },
+    });
+    expect(decodeWebhookPayload({ events: [] }, secret)).toMatchObject({ ok: false, error: { kind: 'Unauthorized' } });
+    expect(
+      decodeWebhookPayload({ secret, events: [{ athlete_id: 'i1', type: 'ACTIVITY_UPLOADED' }] }, secret)
+    ).toMatchObject({ ok: false, error: { kind: 'InvalidPayload' } });
+    expect(() => decodeWebhookEvent({ type: 'ACTIVITY_UPLOADED' })).toThrow();
+  });
+
+  test('verifyWebhookSecret compares exact strings', () => {
+    expect(verifyWebhookSecret('shhh', secret)).toBe(true);
+    expect(verifyWebhookSecret('shh', secret)).toBe(false);
+    expect(verifyWebhookSecret('shhhh', secret)).toBe(false);
+    expect(verifyWebhookSecret(undefined, secret)).toBe(false);
+    expect(verifyWebhookSecret('', '')).toBe(false);
+  });
+});
+
+describe('createWebhookHandler()', () => {
+  test('dispatches to typed callbacks and the catch-all', async () => {
+    const analyzed = vi.fn();
+    const calendar = vi.fn();
+    const onEvent = vi.fn();
+    const handler = createWebhookHandler({
+      secret,
+      handlers: { ACTIVITY_ANALYZED: analyzed, CALENDAR_UPDATED: calendar, onEvent },
+    });
+
+    const response = await handler(post(payload));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: 4 });
+    expect(analyzed).toHaveBeenCalledWith(expect.objectContaining({ activity: expect.objectContaining({ id: 'i42' }) }));
+    expect(calendar).toHaveBeenCalledOnce();
+    expect(onEvent.mock.calls.map(([e]) => e.type)).toEqual(['WELLNESS_UPDATED', 'UNKNOWN']);
+  });
+
+  test('maps failures to status codes and reports them', async () => {
+    const onError = vi.fn();
+    const handler = createWebhookHandler({
+      secret,
+      handlers: {
+        ACTIVITY_ANALYZED: () => {
+          throw new Error('db down');
+        },
+      },
+      onError,
+    });
+
+    expect((await handler(post({ ...payload, secret: 'nope' }))).status).toBe(401);
+    expect((await handler(post('{not json'))).status).toBe(400);
+    expect((await handler(post({ secret }))).status).toBe(400);
+    expect((await handler(post(undefined, 'GET'))).status).toBe(405);
+
+    const failed = await handler(post(payload));
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ error: 'HandlerFailed', message: 'db down' });
+    expect(onError.mock.calls.map(([e]) => e.kind)).toEqual([
+      'Unauthorized',
+      'InvalidPayload',
+      'InvalidPayload',
+      'HandlerFailed',
+    ]);
+  });
+});
+
+function nodeRequest(body: string | undefined, extra: Partial<NodeWebhookRequest> = {}): NodeWebhookRequest {
+  return Object.assign(Readable.from(body === undefined ? [] : [Buffer.from(body)]), {
+    method: 'POST',
+    url: '/webhooks',
+    headers: { host: 'localhost:3000', 'content-type': 'application/json' },
+    ...extra,
+  });
+}
+
+function nodeResponse() {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    end(body?: string | Uint8Array) {
+      res.body = typeof body === 'string' ? body : new TextDecoder().decode(body);
+    },
+  };
+  return res;
+}
+
+describe('Node adapters', () => {
+  test('toNodeHandler reads the request stream', async () => {
+    const analyzed = vi.fn();
+    const listener = toNodeHandler(createWebhookHandler({ secret, handlers: { ACTIVITY_ANALYZED: analyzed } }));
+
+    const res = nodeResponse();
+    await listener(nodeRequest(JSON.stringify(payload)), res);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(res.body)).toEqual({ received: 4 });
+    expect(analyzed).toHaveBeenCalledOnce();
+  });
+
+  test('toExpressHandler accepts a body parsed by express.json()', async () => {
+    const analyzed = vi.fn();
+    const middleware = toExpressHandler(createWebhookHandler({ secret, handlers: { ACTIVITY_ANALYZED: analyzed } }));
+    const next = vi.fn();
+
+    const res = nodeResponse();
+    await middleware(nodeRequest(undefined, { body: payload }), res, next);
+    expect(res.statusCode).toBe(200);
+    expect(analyzed).toHaveBeenCalledOnce();
+    expect(next).not.toHaveBeenCalled();
+
+    const rejected = nodeResponse();
+    await middleware(nodeRequest(JSON.stringify({ ...payload, secret: 'nope' })), rejected, next);
+    expect(rejected.statusCode).toBe(401);
+  });
+});
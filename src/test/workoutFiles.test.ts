@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  formatErg,
+  formatMrc,
+  formatWorkoutFile,
+  formatZwo,
+  parseErg,
+  parseMrc,
+  parseWorkoutFile,
+  parseZwo,
+} from '../formats/workoutFiles';
+import type { Result } from '../result';
+import type { WorkoutDoc } from '../schemas/workout';
+
+const doc: WorkoutDoc = {
+  description: 'Sweet spot & more',
+  steps: [
+    { duration: 600, warmup: true, ramp: true, power: { start: 50, end: 75, units: '%ftp' } },
+    {
+      reps: 3,
+      steps: [
+        { text: 'Push', duration: 300, power: { value: 95, units: '%ftp' }, cadence: { value: 90, units: 'rpm' } },
+        { duration: 180, power: { value: 55, units: '%ftp' } },
+      ],
+    },
+    { duration: 300, cooldown: true, ramp: true, power: { start: 70, end: 40, units: '%ftp' } },
+  ],
+};
+
+/** The written file; fails the test with the writer's error message */
+function written(result: Result<string, { message: string }>): string {
+  if (!result.ok) throw new Error(result.error.message);
+  return result.value;
+}
+
+describe('ZWO', () => {
+  test('writes IntervalsT for two-step repeats and round-trips', () => {
+    const xml = written(formatZwo(doc, { name: 'SST', author: 'Coach' }));
+
+    expect(xml).toContain('<name>SST</name>');
+    expect(xml).toContain('<description>Sweet spot &amp; more</description>');
+    expect(xml).toContain(
+      '<IntervalsT Repeat="3" OnDuration="300" OffDuration="180" OnPower="0.95" OffPower="0.55" Cadence="90">'
+    );
+    expect(xml).toContain('<textevent timeoffset="0" message="Push"/>');
+
+    const parsed = parseZwo(xml);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.value).toEqual(doc);
+  });
+
+  test('converts watts to FTP fractions', () => {
+    const xml = written(formatZwo({ steps: [{ duration: 60, power: { value: 300, units: 'w' } }] }, { ftp: 250 }));
+    expect(xml).toContain('<SteadyState Duration="60" Power="1.2"/>');
+  });
+
+  test('reads free ride and max effort blocks', () => {
+    const result = parseZwo(
+      '<workout_file><workout><FreeRide Duration="120"/><MaxEffort Duration="20"/></workout></workout_file>'
+    );
+    expect(result).toEqual({
+      ok: true,
+      value: { steps: [{ duration: 120, freeride: true }, { duration: 20, maxeffort: true }] },
+    });
+  });
+
+  test('returns an error for malformed or unsupported files', () => {
+    expect(parseZwo('<workout_file><workout>')).toMatchObject({ ok: false, error: { format: 'zwo' } });
+    expect(parseZwo('<workout_file><workout><Foo/></workout></workout_file>')).toMatchObject({
+      ok: false,
+      error: { message: 'Unsupported ZWO element <Foo>' },
+    });
+  });
+
+  test('returns an error for steps that cannot be expressed', () => {
+    expect(formatZwo({ steps: [{ duration: 60, hr: { value: 80, units: '%lthr' } }] })).toMatchObject({
+      ok: false,
+      error: { format: 'zwo', message: expect.stringMatching(/power target/) },
+    });
+    expect(formatZwo({ steps: [{ distance: 1000, power: { value: 80, units: '%ftp' } }] })).toMatchObject({
+      ok: false,
+      error: { message: expect.stringMatching(/distance/) },
+    });
+    expect(formatZwo({ steps: [{ duration: 60, power: { value: 200, units: 'w' } }] })).toMatchObject({
+      ok: false,
+      error: { message: expect.stringMatching(/FTP/) },
+    });
+  });
+});
+
+describe('MRC/ERG', () => {
+  test('writes MRC course data with unrolled repeats', () => {
+    const mrc = written(formatMrc(doc, { name: 'SST' }));
+
+    expect(mrc).toContain('MINUTES PERCENT');
+    expect(mrc).toContain('0.00\t50.00\n10.00\t75.00\n10.00\t95.00\n15.00\t95.00\n15.00\t55.00\n18.00\t55.00');
+    expect(mrc).toContain('[COURSE TEXT]\n600\tPush\t10');
+  });
+
+  test('round-trips MRC as flat steps', () => {
+    const parsed = parseMrc(written(formatMrc(doc)));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    expect(parsed.value.steps).toHaveLength(8);
+    expect(parsed.value.steps?.[0]).toEqual({
+      duration: 600,
+      ramp: true,
+      power: { start: 50, end: 75, units: '%ftp' },
+    });
+    expect(parsed.value.steps?.[1]).toEqual({ text: 'Push', duration: 300, power: { value: 95, units: '%ftp' } });
+  });
+
+  test('writes ERG watts and reads the FTP header', () => {
+    const erg = written(formatErg(doc, { ftp: 200 }));
+    expect(erg).toContain('FTP = 200');
+    expect(erg).toContain('MINUTES WATTS');
+    expect(erg).toContain('10.00\t190');
+
+    const parsed = parseErg(erg);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.value.ftp).toBe(200);
+    expect(parsed.value.steps?.[1]).toMatchObject({ duration: 300, power: { value: 190, units: 'w' } });
+  });
+
+  test('rejects invalid course data', () => {
+    expect(parseMrc('[COURSE DATA]\n0\t50\nfoo\t60\n[END COURSE DATA]')).toEqual({
+      ok: false,
+      error: { format: 'mrc', message: 'Invalid course data "foo\t60"', line: 3 },
+    });
+    expect(parseErg('[COURSE HEADER]\n[END COURSE HEADER]')).toMatchObject({ ok: false });
+    expect(formatErg(doc)).toEqual({ ok: false, error: { format: 'erg', message: 'ERG files need an FTP' } });
+    expect(formatMrc({ steps: [{ duration: 60, freeride: true }] })).toMatchObject({
+      ok: false,
+      error: { format: 'mrc', message: expect.stringMatching(/power target/) },
+    });
+  });
+});
+
+describe('formatWorkoutFile() / parseWorkoutFile()', () => {
+  test('dispatch by format for fileContents round-trips', () => {
+    for (const format of ['zwo', 'mrc', 'erg'] as const) {
+      const contents = written(formatWorkoutFile(doc, format, { ftp: 250 }));
+      expect(parseWorkoutFile(contents, format).ok).toBe(true);
+    }
+  });
+});
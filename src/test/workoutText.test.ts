@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'vitest';
+
+import { formatWorkoutText, parseWorkoutText } from '../formats/workoutText';
+import type { WorkoutDoc } from '../schemas/workout';
+
+function parseOk(text: string): WorkoutDoc {
+  const result = parseWorkoutText(text);
+  if (!result.ok) throw new Error(JSON.stringify(result.error));
+  return result.value;
+}
+
+describe('parseWorkoutText()', () => {
+  test('parses sections, repeats, ramps and targets', () => {
+    const doc = parseOk(
+      [
+        'Sweet spot session',
+        '',
+        'Warmup',
+        '- 10m ramp 50-75%',
+        '',
+        'Main set 3x',
+        '- 5m 95-105% 90rpm',
+        '- Recovery 3m 55%',
+        '',
+        '- 2km Z2 HR',
+        '- 30s 400w maxeffort',
+        '',
+        'Cooldown',
+        '- 1h5m 70% LTHR',
+      ].join('\n')
+    );
+
+    expect(doc.description).toBe('Sweet spot session');
+    expect(doc.steps).toEqual([
+      { duration: 600, ramp: true, power: { start: 50, end: 75, units: '%ftp' }, warmup: true },
+      {
+        text: 'Main set',
+        reps: 3,
+        steps: [
+          { duration: 300, power: { start: 95, end: 105, units: '%ftp' }, cadence: { value: 90, units: 'rpm' } },
+          { text: 'Recovery', duration: 180, power: { value: 55, units: '%ftp' } },
+        ],
+      },
+      { distance: 2000, hr: { value: 2, units: 'hr_zone' } },
+      { duration: 30, power: { value: 400, units: 'w' }, maxeffort: true },
+      { duration: 3900, hr: { value: 70, units: '%lthr' }, cooldown: true },
+    ]);
+  });
+
+  test('parses single-step repeats and absolute pace', () => {
+    const doc = parseOk('- 3x 400mtr 3:45-3:50/km Pace\n- 1mi 90% Pace');
+    expect(doc.steps).toEqual([
+      { reps: 3, steps: [{ distance: 400, pace: { start: 225, end: 230, units: 'secs/km' } }] },
+      { distance: 1609.34, pace: { value: 90, units: '%pace' } },
+    ]);
+  });
+
+  test('plain notes without steps are valid', () => {
+    expect(parseOk('Rest day, stretch.')).toEqual({ steps: [], description: 'Rest day, stretch.' });
+  });
+
+  test('a description ending in Nx without steps below is text', () => {
+    expect(parseOk('Easy recovery ride, repeat 2x')).toEqual({
+      steps: [],
+      description: 'Easy recovery ride, repeat 2x',
+    });
+    expect(parseOk('Spin easy 2x\n- legs loose\n\n- 5m 60%').description).toBe('Spin easy 2x\n- legs loose');
+  });
+
+  test('reports line and column for bad syntax', () => {
+    const result = parseWorkoutText(['Warmup', '- 10m 50%', '- 95%', '  - 5m 100% 2m', '4x', ''].join('\n'));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual([
+        { line: 3, column: 3, message: 'Step is missing a duration or distance' },
+        { line: 4, column: 13, message: 'Step already has a duration' },
+        { line: 5, column: 1, message: 'Repeat block has no steps' },
+      ]);
+    }
+  });
+
+  test('keeps step text after the targets', () => {
+    expect(parseOk('- 3m 55% easy spin\n- Hard 1m 120% stay seated').steps).toEqual([
+      { text: 'easy spin', duration: 180, power: { value: 55, units: '%ftp' } },
+      { text: 'Hard stay seated', duration: 60, power: { value: 120, units: '%ftp' } },
+    ]);
+  });
+
+  test('bullet lines without step syntax are notes', () => {
+    const doc = parseOk(
+      ['Focus:', '- stay relaxed', '', 'Main set 2x', '- 5m 100%', '- keep cadence high', '- 2m 50%'].join('\n')
+    );
+
+    expect(doc.description).toBe('Focus:\n- stay relaxed\n- keep cadence high');
+    expect(doc.steps).toEqual([
+      {
+        text: 'Main set',
+        reps: 2,
+        steps: [
+          { duration: 300, power: { value: 100, units: '%ftp' } },
+          { duration: 120, power: { value: 50, units: '%ftp' } },
+        ],
+      },
+    ]);
+  });
+
+  test('rejects duplicate targets and zero repeats', () => {
+    const result = parseWorkoutText('- 5m 90% 200w\n- 0x 5m 50%');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.map((e) => [e.line, e.column])).toEqual([[1, 10], [2, 3]]);
+    }
+  });
+});
+
+describe('formatWorkoutText()', () => {
+  test('round-trips parsed workouts', () => {
+    const text = [
+      'Threshold',
+      '',
+      'Warmup',
+      '- 10m ramp 50-75%',
+      '',
+      'Main set 3x',
+      '- 5m 95-105% 90rpm',
+      '- Recovery 3m 55%',
+      '',
+      '- 2km Z2 HR',
+      '- 400mtr 4:30/km Pace',
+      '',
+      'Cooldown',
+      '- 1m30s 140-150bpm',
+    ].join('\n');
+
+    expect(formatWorkoutText(parseOk(text))).toEqual({ ok: true, value: text });
+  });
+
+  test('unrolls nested repeats', () => {
+    const text = formatWorkoutText({
+      steps: [
+        {
+          reps: 2,
+          steps: [{ reps: 2, steps: [{ duration: 30, power: { value: 150, units: '%ftp' } }] }],
+        },
+      ],
+    });
+    expect(text).toEqual({ ok: true, value: '2x\n- 30s 150%\n- 30s 150%' });
+  });
+
+  test('returns an error for units the text format cannot express', () => {
+    expect(formatWorkoutText({ steps: [{ duration: 60, power: { value: 3, units: 'w/kg' } }] })).toEqual({
+      ok: false,
+      error: { message: 'Cannot format power target with units "w/kg"' },
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import type { ApiError } from "./errors";
+import { IntervalsApiError } from "./errors";
+import type { RequestOverrides } from "./http/httpClient";
+import type { Result } from "./result";
+import type { SelectFieldsWithId } from "./schemas/fields";
+import type { ListResult } from "./schemas/lenientList";
+
+/** The value of a successful result; throws `IntervalsApiError` for a failed one. */
+export function unwrap<T, E extends ApiError>(result: Result<T, E>): T {
+  if (!result.ok) throw new IntervalsApiError(result.error);
+  return result.value;
+}
+
+type UnwrappedMethod<F> = F extends (...args: infer A) => Promise<Result<infer T, ApiError>>
+  ? (...args: A) => Promise<T>
+  : F extends (...args: infer A) => AsyncIterable<Result<infer T, ApiError>>
+    ? (...args: A) => AsyncIterable<T>
+    : F;
+
+/**
+ * A resource whose methods resolve to the value and throw `IntervalsApiError`
+ * instead of returning a failed `Result`. Iterators yield values and throw on
+ * the first error.
+ */
+export type Unwrapped<R> = { readonly [K in keyof R]: UnwrappedMethod<R[K]> };
+
+/**
+ * An unwrapped list method whose result depends on its options. `Unwrapped`
+ * can't carry the method's type parameter, so resources restate it.
+ */
+export type UnwrappedListMethod<Id, Options, T> = <O extends Options = Options & { lenient?: false }>(
+  id: Id,
+  options?: O,
+  overrides?: RequestOverrides
+) => Promise<ListResult<T, O>>;
+
+/** An unwrapped iterator whose items depend on its `fields` option, see `UnwrappedListMethod` */
+export type UnwrappedIterateMethod<Id, Options, T> = <O extends Options>(
+  id: Id,
+  options: O,
+  overrides?: RequestOverrides
+) => AsyncIterable<SelectFieldsWithId<T, O>>;
+
+function isResultLike(value: unknown): value is Result<unknown, ApiError> {
+  return typeof value === "object" && value !== null && "ok" in value;
+}
+
+async function* unwrapIterable<T>(
+  iterable: AsyncIterable<Result<T, ApiError>>
+): AsyncIterable<T> {
+  for await (const result of iterable) yield unwrap(result);
+}
+
+/** `resource` with every Result-returning method unwrapped, see `Unwrapped` */
+export function unwrapResource<R extends object>(resource: R): Unwrapped<R> {
+  return new Proxy(resource, {
+    get(target, property, receiver) {
+      const member: unknown = Reflect.get(target, property, receiver);
+      if (typeof member !== "function") return member;
+      return (...args: unknown[]) => {
+        const returned: unknown = member.apply(target, args);
+        if (returned instanceof Promise) {
+          return returned.then((value: unknown) => (isResultLike(value) ? unwrap(value) : value));
+        }
+        if (returned && typeof returned === "object" && Symbol.asyncIterator in returned) {
+          return unwrapIterable(returned as AsyncIterable<Result<unknown, ApiError>>);
+        }
+        return returned;
+      };
+    },
+  }) as Unwrapped<R>;
+}
@@ -0,0 +1,143 @@
+import type {
+  Anomaly,
+  Interval,
+  KnownStreamType,
+  KnownStreamValues,
+  StreamSeries,
+  TypedActivityStreams,
+} from "../schemas/activity";
+
+/**
+ * One sample across all known streams at a given stream index.
+ */
+export type AlignedStreamSample = {
+  index: number;
+  /** Seconds from the start (falls back to the index when there is no time stream) */
+  time: number;
+} & { [K in Exclude<KnownStreamType, "time">]?: KnownStreamValues[K] };
+
+const ALIGNABLE_TYPES = [
+  "watts",
+  "heartrate",
+  "cadence",
+  "distance",
+  "altitude",
+  "velocitySmooth",
+  "gradeSmooth",
+  "temp",
+  "torque",
+  "respiration",
+  "latlng",
+] as const satisfies readonly Exclude<KnownStreamType, "time">[];
+
+function sampleCount(streams: TypedActivityStreams): number {
+  if (streams.time) return streams.time.data.length;
+  return Math.max(
+    0,
+    ...ALIGNABLE_TYPES.map((type) => streams[type]?.data.length ?? 0)
+  );
+}
+
+/**
+ * Zip the known streams into one row per sample, keyed by the `time` stream index.
+ * Streams shorter than the time stream leave their field undefined for the missing tail.
+ */
+export function alignStreams(
+  streams: TypedActivityStreams
+): AlignedStreamSample[] {
+  const count = sampleCount(streams);
+  const samples: AlignedStreamSample[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const sample: Record<string, unknown> = {
+      index,
+      time: streams.time?.data[index] ?? index,
+    };
+    for (const type of ALIGNABLE_TYPES) {
+      const series = streams[type];
+      if (series && index < series.data.length) {
+        sample[type] = series.data[index];
+      }
+    }
+    samples.push(sample as AlignedStreamSample);
+  }
+
+  return samples;
+}
+
+/**
+ * Find the index of the first sample at or after `seconds` using the `time` stream.
+ * Returns -1 when there is no time stream or `seconds` is past the end.
+ */
+export function indexAtTime(
+  streams: TypedActivityStreams,
+  seconds: number
+): number {
+  const time = streams.time?.data;
+  if (!time || time.length === 0) return -1;
+
+  let lo = 0;
+  let hi = time.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if ((time[mid] ?? 0) < seconds) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo < time.length ? lo : -1;
+}
+
+function sliceAnomalies(
+  anomalies: Anomaly[],
+  start: number,
+  end: number
+): Anomaly[] {
+  return anomalies
+    .filter(
+      (a) =>
+        (a.endIndex ?? (a.startIndex ?? 0) + 1) > start &&
+        (a.startIndex ?? 0) < end
+    )
+    .map((a) => ({
+      ...a,
+      ...(a.startIndex != null ? { startIndex: Math.max(0, a.startIndex - start) } : {}),
+      ...(a.endIndex != null ? { endIndex: Math.min(end, a.endIndex) - start } : {}),
+    }));
+}
+
+function sliceSeries<T>(
+  series: StreamSeries<T>,
+  start: number,
+  end: number
+): StreamSeries<T> {
+  return {
+    ...series,
+    data: series.data.slice(start, end),
+    anomalies: sliceAnomalies(series.anomalies, start, end),
+  };
+}
+
+/**
+ * Slice every stream to the samples covered by an interval.
+ * `start` and `end` are stream indexes as returned in `IntervalsResponse`;
+ * `end` is exclusive, matching `Array.prototype.slice`. Anomalies (also
+ * end-exclusive) outside the slice are dropped and the rest are rebased to it.
+ */
+export function sliceStreams(
+  streams: TypedActivityStreams,
+  interval: Pick<Interval, "start" | "end">
+): TypedActivityStreams {
+  const start = interval.start ?? 0;
+  const end = interval.end ?? sampleCount(streams);
+
+  const sliced: TypedActivityStreams = { others: {} };
+  if (streams.time) sliced.time = sliceSeries(streams.time, start, end);
+  for (const type of ALIGNABLE_TYPES) {
+    const series: StreamSeries<unknown> | undefined = streams[type];
+    // Each key keeps its own value type; the cast only bridges the loop variable.
+    if (series) (sliced as Record<string, unknown>)[type] = sliceSeries(series, start, end);
+  }
+  for (const [type, series] of Object.entries(streams.others)) {
+    sliced.others[type] = sliceSeries(series, start, end);
+  }
+  return sliced;
+}
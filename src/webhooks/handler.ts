@@ -0,0 +1,162 @@
+import * as v from "valibot";
+import type { Result } from "../result";
+import { err, ok } from "../result";
+import {
+  decodeWebhookEvent,
+  WebhookPayloadSchema,
+  type WebhookEvent,
+  type WebhookEventType,
+} from "../schemas/webhook";
+
+/**
+ * Error receiving a webhook. `Unauthorized` means the shared secret did not
+ * match, `InvalidPayload` that the body was not a valid webhook payload and
+ * `HandlerFailed` that a callback threw.
+ */
+export type WebhookError =
+  | { kind: "Unauthorized"; message: string }
+  | { kind: "InvalidPayload"; message: string; issues?: unknown }
+  | { kind: "HandlerFailed"; message: string; event: WebhookEvent; cause: unknown };
+
+/** Typed callbacks, one per event type; events without a callback go to `onEvent` */
+export type WebhookHandlers = {
+  [K in WebhookEventType]?: (event: Extract<WebhookEvent, { type: K }>) => void | Promise<void>;
+} & {
+  /** Called for every event that has no type-specific callback */
+  onEvent?: (event: WebhookEvent) => void | Promise<void>;
+};
+
+export type WebhookHandlerOptions = {
+  /** Webhook secret from the Intervals.icu developer settings */
+  secret: string;
+  handlers: WebhookHandlers;
+  /** Called for rejected requests and failed callbacks (e.g. for logging) */
+  onError?: (error: WebhookError) => void;
+};
+
+/** A Fetch API request handler, usable in any runtime with `Request`/`Response` */
+export type WebhookRequestHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Compare the received secret with the expected one in constant time
+ * (relative to the expected secret's length).
+ */
+export function verifyWebhookSecret(received: string | null | undefined, expected: string): boolean {
+  if (typeof received !== "string" || expected === "") return false;
+  const a = new TextEncoder().encode(received);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i] ?? 0) ^ b[i]!;
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify the secret of a parsed webhook body and decode its events.
+ */
+export function decodeWebhookPayload(body: unknown, secret: string): Result<WebhookEvent[], WebhookError> {
+  const payload = v.safeParse(WebhookPayloadSchema, body);
+  if (!payload.success) {
+    return err({ kind: "InvalidPayload", message: "Invalid webhook payload", issues: payload.issues });
+  }
+  if (!verifyWebhookSecret(payload.output.secret, secret)) {
+    return err({ kind: "Unauthorized", message: "Webhook secret does not match" });
+  }
+
+  try {
+    return ok(payload.output.events.map(decodeWebhookEvent));
+  } catch (e) {
+    const issues = e instanceof v.ValiError ? e.issues : undefined;
+    return err({
+      kind: "InvalidPayload",
+      message: e instanceof Error ? e.message : String(e),
+      ...(issues ? { issues } : {}),
+    });
+  }
+}
+
+/**
+ * Dispatch events to their callbacks in order. Stops at the first callback that throws.
+ */
+export async function dispatchWebhookEvents(
+  events: WebhookEvent[],
+  handlers: WebhookHandlers
+): Promise<Result<void, WebhookError>> {
+  for (const event of events) {
+    const handler = (handlers[event.type] ?? handlers.onEvent) as
+      | ((event: WebhookEvent) => void | Promise<void>)
+      | undefined;
+    try {
+      await handler?.(event);
+    } catch (cause) {
+      return err({
+        kind: "HandlerFailed",
+        message: cause instanceof Error ? cause.message : String(cause),
+        event,
+        cause,
+      });
+    }
+  }
+  return ok(undefined);
+}
+
+function json(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const STATUS: Record<WebhookError["kind"], number> = {
+  Unauthorized: 401,
+  InvalidPayload: 400,
+  HandlerFailed: 500,
+};
+
+/**
+ * Create a framework-agnostic webhook receiver: takes a Fetch `Request`, verifies
+ * the shared secret, decodes the events and dispatches them to `handlers`.
+ *
+ * Responds 200 once all callbacks have finished, 401 for a wrong secret, 400 for
+ * an invalid payload, 405 for non-POST requests and 500 if a callback throws
+ * (so Intervals.icu retries the delivery).
+ *
+ * @example
+ * ```ts
+ * const handler = createWebhookHandler({
+ *   secret: process.env.INTERVALS_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     ACTIVITY_ANALYZED: async (event) => console.log(event.activity.id),
+ *   },
+ * });
+ * export default { fetch: handler };
+ * ```
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): WebhookRequestHandler {
+  const fail = (error: WebhookError) => {
+    options.onError?.(error);
+    return json(STATUS[error.kind], { error: error.kind, message: error.message });
+  };
+
+  return async (request) => {
+    if (request.method !== "POST") {
+      return new Response(null, { status: 405, headers: { allow: "POST" } });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return fail({ kind: "InvalidPayload", message: "Request body is not valid JSON" });
+    }
+
+    const events = decodeWebhookPayload(body, options.secret);
+    if (!events.ok) return fail(events.error);
+
+    const dispatched = await dispatchWebhookEvents(events.value, options.handlers);
+    if (!dispatched.ok) return fail(dispatched.error);
+
+    return json(200, { received: events.value.length });
+  };
+}
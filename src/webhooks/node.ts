@@ -0,0 +1,110 @@
+import type { WebhookRequestHandler } from "./handler";
+
+/**
+ * The parts of `http.IncomingMessage` (and Express's `Request`) the adapters use.
+ * Typed structurally so the library does not depend on Node or Express types.
+ */
+export type NodeWebhookRequest = AsyncIterable<Uint8Array | string> & {
+  method?: string | undefined;
+  url?: string | undefined;
+  headers: Record<string, string | string[] | undefined>;
+  /** Set by Express body parsers */
+  body?: unknown;
+  /** Set by some body parsers that keep the raw bytes */
+  rawBody?: Uint8Array | string;
+  readableEnded?: boolean;
+};
+
+/** The parts of `http.ServerResponse` the adapters use */
+export type NodeWebhookResponse = {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string | Uint8Array): unknown;
+};
+
+async function readBody(req: NodeWebhookRequest): Promise<Uint8Array | string | undefined> {
+  if (req.rawBody !== undefined) return req.rawBody;
+  if (req.body !== undefined) {
+    if (typeof req.body === "string" || req.body instanceof Uint8Array) return req.body;
+    // Already parsed by express.json(); re-serialize for the Fetch handler
+    return JSON.stringify(req.body);
+  }
+  if (req.readableEnded) return undefined;
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk);
+  }
+  const body = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+async function toRequest(req: NodeWebhookRequest): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v);
+  }
+
+  const method = req.method ?? "GET";
+  const host = headers.get("host") ?? "localhost";
+  const init: RequestInit = { method, headers };
+  if (method !== "GET" && method !== "HEAD") {
+    const body = await readBody(req);
+    if (body !== undefined) init.body = typeof body === "string" ? body : new Uint8Array(body);
+  }
+  return new Request(new URL(req.url ?? "/", `http://${host}`), init);
+}
+
+async function send(response: Response, res: NodeWebhookResponse): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(new Uint8Array(await response.arrayBuffer()));
+}
+
+/**
+ * Adapt a webhook handler to a Node `http` request listener.
+ *
+ * @example
+ * ```ts
+ * http.createServer(toNodeHandler(createWebhookHandler({ secret, handlers }))).listen(3000);
+ * ```
+ */
+export function toNodeHandler(
+  handler: WebhookRequestHandler
+): (req: NodeWebhookRequest, res: NodeWebhookResponse) => Promise<void> {
+  return async (req, res) => {
+    try {
+      await send(await handler(await toRequest(req)), res);
+    } catch {
+      res.statusCode = 500;
+      res.end();
+    }
+  };
+}
+
+/**
+ * Adapt a webhook handler to Express middleware. Works with or without
+ * `express.json()` in front of it; unexpected errors are passed to `next`.
+ *
+ * @example
+ * ```ts
+ * app.post("/webhooks/intervals", toExpressHandler(createWebhookHandler({ secret, handlers })));
+ * ```
+ */
+export function toExpressHandler(
+  handler: WebhookRequestHandler
+): (req: NodeWebhookRequest, res: NodeWebhookResponse, next: (error?: unknown) => void) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      await send(await handler(await toRequest(req)), res);
+    } catch (error) {
+      next(error);
+    }
+  };
+}